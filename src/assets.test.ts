@@ -0,0 +1,104 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeAsset, applyRentalSettings, rentalReport } from "./assets.js";
+import { ProjectionLabExport, Plan, AssetEvent } from "./types.js";
+
+// A 400k house bought now with 20% down on an interest-free loan, sold after 2029
+function fixture(overrides: Record<string, unknown> = {}): { data: ProjectionLabExport; plan: Plan; house: AssetEvent } {
+  const house = {
+    id: "house",
+    name: "House",
+    type: "real-estate",
+    initialValue: 400000,
+    paymentMethod: "financed",
+    downPayment: 80000,
+    interestRate: 0,
+    taxRate: 1,
+    brokersFee: 6,
+    start: { type: "keyword", value: "now" },
+    end: { type: "year", value: "2029" },
+    ...overrides,
+  } as AssetEvent;
+  const plan: Plan = { id: "p1", name: "Test", variables: { startYear: 2025, loopYear: 2040, inflation: 0, investmentReturn: 5 }, assets: { events: [house] } };
+  const data = { today: { age: 40, assets: [] }, plans: [plan] } as unknown as ProjectionLabExport;
+  return { data, plan, house };
+}
+
+test("a financed purchase gets a 30-year loan and a sale after its last year", () => {
+  const { data, plan, house } = fixture();
+  const analysis = analyzeAsset(data, plan, house);
+  assert.equal(analysis.loan!.principal, 320000);
+  assert.equal(analysis.loan!.monthlyPayment, 888.89);
+  assert.match(analysis.warnings[0], /assumed a 30-year level payment/);
+  assert.deepEqual(analysis.years.map((y) => y.year), [2025, 2026, 2027, 2028, 2029]);
+  assert.equal(analysis.totals.carryingCost, 5 * 4000);
+
+  const { sale } = analysis;
+  assert.equal(sale.year, 2030);
+  assert.equal(sale.hypothetical, false);
+  assert.equal(sale.brokersFee, 24000);
+  assert.equal(sale.loanPayoff, analysis.years[4].loanBalance);
+  assert.equal(sale.netProceeds, 400000 - 24000 - sale.loanPayoff);
+  assert.equal(sale.totalCashIn, 80000 + analysis.totals.cashOut);
+});
+
+test("an asset still owned at the end of the plan gets a hypothetical sale", () => {
+  const { data, plan, house } = fixture({ paymentMethod: "pay-in-full", end: undefined });
+  const analysis = analyzeAsset(data, plan, house);
+  assert.equal(analysis.loan, null);
+  assert.equal(analysis.downPayment, 400000);
+  assert.equal(analysis.sale.year, 2040);
+  assert.ok(analysis.sale.hypothetical);
+});
+
+test("rent vs buy compares against a monthly rent", () => {
+  const { data, plan, house } = fixture();
+  const { rentVsBuy } = analyzeAsset(data, plan, house, { monthlyRent: 2000 });
+  assert.equal(rentVsBuy!.initialMonthlyRent, 2000);
+  assert.equal(rentVsBuy!.investmentReturn, 5);
+  assert.equal(rentVsBuy!.better, rentVsBuy!.ownerNetWorth >= rentVsBuy!.renterNetWorth ? "buy" : "rent");
+  assert.equal(rentVsBuy!.difference, Math.abs(rentVsBuy!.ownerNetWorth - rentVsBuy!.renterNetWorth));
+});
+
+test("rental settings are validated before any is applied", () => {
+  const asset: Record<string, unknown> = {};
+  assert.throws(() => applyRentalSettings(asset, { generateIncome: true, percentRented: 120 }), /percentRented must be between 0 and 100/);
+  assert.deepEqual(asset, {});
+  assert.deepEqual(applyRentalSettings(asset, { incomeRateType: "today$", initialBuildingValue: 275000 }), ["incomeRateType", "initialBuildingValue"]);
+  assert.equal(asset.initialBuildingValueType, "today$");
+});
+
+test("the rental report depreciates the building and carries passive losses forward", () => {
+  const rental = (rent: number) => {
+    const plan: Plan = { id: "p1", name: "Test", variables: { startYear: 2025, loopYear: 2026, inflation: 0 } };
+    const data = {
+      today: {
+        age: 40,
+        assets: [
+          {
+            id: "rental",
+            name: "Rental",
+            type: "real-estate",
+            amount: 300000,
+            generateIncome: true,
+            incomeRate: rent,
+            incomeRateType: "today$",
+            initialBuildingValue: 275000,
+          },
+        ],
+      },
+      plans: [plan],
+    } as unknown as ProjectionLabExport;
+    return rentalReport(data, plan, "rental");
+  };
+
+  const profitable = rental(24000);
+  assert.equal(profitable.source, "today");
+  // 275000 over 27.5 years
+  assert.equal(profitable.years[0].depreciation, 10000);
+  assert.equal(profitable.years[0].taxableRentalIncome, 14000);
+
+  const losing = rental(4000);
+  assert.deepEqual(losing.years.map((y) => y.taxableRentalIncome), [0, 0]);
+  assert.equal(losing.totals.suspendedLoss, 12000);
+});
@@ -0,0 +1,587 @@
+/**
+ * Plan asset analysis: the loan behind a financed purchase, yearly carrying
+ * costs, equity and the proceeds of selling at the asset's end date, plus a
+ * rent-vs-buy comparison against a rent expense.
+ *
+ * Amounts follow run_projection: asset values and rates are taken as entered
+ * and grown with the asset's yearlyChange; "today$" costs are inflated from the
+ * plan start.
+ */
+
+import { ProjectionLabExport, Plan, AssetEvent, DateReference, YearlyChange, ExpenseEvent } from "./types.js";
+import { YearRates, annualMultiplier, applyYearlyChange } from "./projection.js";
+import { createDateContext, eventWindow, resolveDateReference } from "./dates.js";
+import { AmortizationYear, LoanSchedule, loanSchedule, startDateOf } from "./debts.js";
+
+export interface AssetYear {
+  year: number;
+  // End of year, after yearlyChange
+  value: number;
+  loanBalance: number;
+  equity: number;
+  propertyTax: number;
+  maintenance: number;
+  insurance: number;
+  hoa: number;
+  carryingCost: number;
+  loanPayments: number;
+  interest: number;
+  principal: number;
+  // Carrying cost plus loan payments
+  cashOut: number;
+}
+
+export interface AssetSale {
+  year: number;
+  // True when the asset is still owned at the end of the plan and the sale is only illustrative
+  hypothetical: boolean;
+  price: number;
+  brokersFee: number;
+  loanPayoff: number;
+  netProceeds: number;
+  // Down payment (or purchase price), loan payments and carrying costs up to the sale
+  totalCashIn: number;
+  netGain: number;
+}
+
+export interface RentVsBuyYear {
+  year: number;
+  rent: number;
+  ownerCashOut: number;
+  renterPortfolio: number;
+  ownerPortfolio: number;
+  // Net of selling costs
+  ownerNetWorth: number;
+  renterNetWorth: number;
+}
+
+export interface RentVsBuy {
+  rentExpenseId?: string;
+  initialMonthlyRent: number;
+  investmentReturn: number;
+  breakEvenYear: number | null;
+  ownerNetWorth: number;
+  renterNetWorth: number;
+  better: "buy" | "rent";
+  difference: number;
+  years: RentVsBuyYear[];
+}
+
+export interface AssetAnalysis {
+  planId: string;
+  assetId: string;
+  name: string;
+  purchaseYear: number;
+  purchasePrice: number;
+  paymentMethod: string;
+  downPayment: number;
+  loan: (Omit<LoanSchedule, "schedule" | "yearly" | "warnings"> & { principal: number; interestRate: number; monthlyPayment: number }) | null;
+  loanYears?: AmortizationYear[];
+  years: AssetYear[];
+  totals: { carryingCost: number; interest: number; cashOut: number };
+  sale: AssetSale;
+  rentVsBuy?: RentVsBuy;
+  warnings: string[];
+}
+
+export interface AssetAnalysisOptions {
+  // Rent expense in the plan to compare against
+  rentExpenseId?: string;
+  // Monthly rent in today's dollars, when there is no rent expense
+  monthlyRent?: number;
+  // Yearly change of a monthlyRent (default: match inflation)
+  rentChange?: YearlyChange;
+  // Return on money not tied up in the home (default: the plan's investmentReturn)
+  investmentReturn?: number;
+}
+
+const DEFAULT_LOAN_TERM_YEARS = 30;
+
+const round = Math.round;
+
+function num(value: unknown, fallback = 0): number {
+  return typeof value === "number" && isFinite(value) ? value : fallback;
+}
+
+// Level monthly payment that retires `principal` over `years`
+function levelPayment(principal: number, annualRate: number, years: number): number {
+  const r = annualRate / 100 / 12;
+  const n = years * 12;
+  return r === 0 ? principal / n : (principal * r) / (1 - Math.pow(1 + r, -n));
+}
+
+export function findPlanAsset(plan: Plan, assetId: string): AssetEvent {
+  const asset = plan.assets?.events?.find((a) => a.id === assetId || (!a.id && a.assetId === assetId));
+  if (!asset) throw new Error(`Plan asset not found: ${assetId}`);
+  return asset;
+}
+
+interface Ownership {
+  purchaseYear: number;
+  lastYear: number;
+  hypothetical: boolean;
+  price: number;
+  financed: boolean;
+  downPayment: number;
+  loan: AssetAnalysis["loan"];
+  loanYears?: AmortizationYear[];
+  years: AssetYear[];
+  // At the end of lastYear
+  value: number;
+  loanBalance: number;
+  rates: YearRates;
+  inflationIndex: (year: number) => number;
+}
+
+// Value, loan and carrying costs of an asset for each year it is held within the plan.
+// Assets already owned today are held from the plan start at their current value and loan balance.
+function ownership(data: ProjectionLabExport, plan: Plan, a: Record<string, unknown>, owned: boolean, warnings: string[]): Ownership {
+  const v = plan.variables ?? {};
+  const ctx = createDateContext(data, plan, warnings);
+  const start = owned ? undefined : (a.start as DateReference | undefined);
+
+  const purchaseYear = resolveDateReference(start, ctx) ?? ctx.startYear;
+  if (purchaseYear > ctx.endYear) throw new Error(`The asset is bought in ${purchaseYear}, after the plan ends in ${ctx.endYear}`);
+  const w = eventWindow(start, a.end as DateReference | undefined, ctx);
+  const lastOwned = w.endInclusive ? w.end : w.end - 1;
+  const lastYear = Math.min(lastOwned, ctx.endYear);
+  const hypothetical = lastOwned >= ctx.endYear;
+
+  const price = owned ? num(a.amount, num(a.initialValue)) : num(a.initialValue, num(a.amount));
+  const financed = owned ? num(a.balance) > 0 : a.paymentMethod === "financed";
+  const downPayment = owned ? 0 : financed ? num(a.downPayment) : price;
+  const inflation = v.inflation ?? 3;
+  const rates: YearRates = {
+    investmentReturn: v.investmentReturn ?? 7,
+    bondReturn: v.bondInvestmentReturn ?? v.investmentReturn ?? 7,
+    dividendRate: v.dividendRate ?? 0,
+    inflation,
+  };
+  const inflationIndex = (year: number) => Math.pow(1 + inflation / 100, year - ctx.startYear);
+
+  // Loan
+  let loan: AssetAnalysis["loan"] = null;
+  let loanYears: AmortizationYear[] | undefined;
+  if (financed) {
+    const principal = num(a.balance) || Math.max(0, price - downPayment);
+    const interestRate = num(a.interestRate);
+    let monthlyPayment = num(a.monthlyPayment);
+    if (monthlyPayment <= 0 && principal > 0) {
+      monthlyPayment = Math.round(levelPayment(principal, interestRate, DEFAULT_LOAN_TERM_YEARS) * 100) / 100;
+      warnings.push(`No monthlyPayment on the asset; assumed a ${DEFAULT_LOAN_TERM_YEARS}-year level payment of ${monthlyPayment}`);
+    }
+    const { schedule: _schedule, yearly, warnings: loanWarnings, ...result } = loanSchedule({
+      amount: principal,
+      interestRate,
+      interestType: a.interestType as "simple" | "compound" | undefined,
+      compounding: a.compounding as "daily" | "monthly" | "yearly" | undefined,
+      payment: monthlyPayment,
+      start: startDateOf(start, ctx),
+    });
+    warnings.push(...loanWarnings);
+    loan = { principal, interestRate, monthlyPayment, ...result };
+    loanYears = yearly;
+  }
+  const loanByYear = new Map((loanYears ?? []).map((y) => [y.year, y]));
+
+  // Ownership, year by year
+  let value = price;
+  let loanBalance = loan?.principal ?? 0;
+  const years: AssetYear[] = [];
+  for (let year = purchaseYear; year <= lastYear; year++) {
+    const index = inflationIndex(year);
+    const propertyTax = rateCost(a, "taxRate", value, index);
+    const maintenance = rateCost(a, "maintenanceRate", value, index);
+    const insurance = rateCost(a, "insuranceRate", value, index);
+    const hoa = num(a.monthlyHOA) * 12;
+    const carryingCost = propertyTax + maintenance + insurance + hoa;
+    const l = loanByYear.get(year);
+    if (l) loanBalance = l.endingBalance;
+    value = applyYearlyChange(value, a.yearlyChange as YearlyChange | undefined, rates, index, year);
+    years.push({
+      year,
+      value: round(value),
+      loanBalance: round(loanBalance),
+      equity: round(value - loanBalance),
+      propertyTax: round(propertyTax),
+      maintenance: round(maintenance),
+      insurance: round(insurance),
+      hoa: round(hoa),
+      carryingCost: round(carryingCost),
+      loanPayments: round(l?.payments ?? 0),
+      interest: round(l?.interest ?? 0),
+      principal: round(l?.principal ?? 0),
+      cashOut: round(carryingCost + (l?.payments ?? 0)),
+    });
+  }
+
+  return { purchaseYear, lastYear, hypothetical, price, financed, downPayment, loan, loanYears, years, value, loanBalance, rates, inflationIndex };
+}
+
+// Yearly cost of a `<field>` rate: a percent of the value, or today's dollars when `<field>Type` is "today$"
+function rateCost(a: Record<string, unknown>, field: string, value: number, inflationIndex: number): number {
+  return (a[`${field}Type`] ?? "%") === "today$" ? num(a[field]) * inflationIndex : (value * num(a[field])) / 100;
+}
+
+export function analyzeAsset(
+  data: ProjectionLabExport,
+  plan: Plan,
+  event: AssetEvent,
+  options: AssetAnalysisOptions = {}
+): AssetAnalysis {
+  const warnings: string[] = [];
+  const base = event.assetId ? data.today.assets?.find((t) => t.id === event.assetId) : undefined;
+  const a = { ...(base ?? {}), ...event } as Record<string, unknown>;
+  const { purchaseYear, lastYear, hypothetical, price, financed, downPayment, loan, loanYears, years, value, loanBalance, rates, inflationIndex } =
+    ownership(data, plan, a, false, warnings);
+
+  const sum = (f: (y: AssetYear) => number) => years.reduce((s, y) => s + f(y), 0);
+  const totals = { carryingCost: sum((y) => y.carryingCost), interest: sum((y) => y.interest), cashOut: sum((y) => y.cashOut) };
+  const brokersFee = (value * num(a.brokersFee)) / 100;
+  const netProceeds = value - brokersFee - loanBalance;
+  const totalCashIn = downPayment + totals.cashOut;
+  const sale: AssetSale = {
+    year: hypothetical ? lastYear : lastYear + 1,
+    hypothetical,
+    price: round(value),
+    brokersFee: round(brokersFee),
+    loanPayoff: round(loanBalance),
+    netProceeds: round(netProceeds),
+    totalCashIn: round(totalCashIn),
+    netGain: round(netProceeds - totalCashIn),
+  };
+  if (hypothetical) warnings.push(`The asset is still owned when the plan ends; the sale figures assume it is sold at the end of ${lastYear}`);
+
+  const result: AssetAnalysis = {
+    planId: plan.id,
+    assetId: (event.id ?? event.assetId) as string,
+    name: (a.name as string) ?? (a.title as string) ?? (event.id as string),
+    purchaseYear,
+    purchasePrice: price,
+    paymentMethod: financed ? "financed" : "pay-in-full",
+    downPayment,
+    loan,
+    ...(loanYears ? { loanYears } : {}),
+    years,
+    totals,
+    sale,
+    warnings,
+  };
+
+  if (options.rentExpenseId !== undefined || options.monthlyRent !== undefined) {
+    result.rentVsBuy = rentVsBuy(plan, options, { purchaseYear, downPayment, years, rates, inflationIndex, brokersFeeRate: num(a.brokersFee) });
+    warnings.push("Rent vs buy ignores income taxes on investment returns and on the home sale");
+  }
+  return result;
+}
+
+function rentVsBuy(
+  plan: Plan,
+  options: AssetAnalysisOptions,
+  owned: {
+    purchaseYear: number;
+    downPayment: number;
+    years: AssetYear[];
+    rates: YearRates;
+    inflationIndex: (year: number) => number;
+    brokersFeeRate: number;
+  }
+): RentVsBuy {
+  const v = plan.variables ?? {};
+  const startYear = v.startYear ?? owned.purchaseYear;
+  let rent: number;
+  let change: YearlyChange | undefined;
+  if (options.rentExpenseId !== undefined) {
+    const expense: ExpenseEvent | undefined = plan.expenses?.events?.find((e) => e.id === options.rentExpenseId);
+    if (!expense) throw new Error(`Expense not found: ${options.rentExpenseId}`);
+    rent = (expense.amount ?? 0) * annualMultiplier(expense.frequency);
+    change = expense.yearlyChange;
+  } else {
+    rent = (options.monthlyRent ?? 0) * 12;
+    change = options.rentChange;
+  }
+  if (rent <= 0) throw new Error("The rent to compare against must be positive");
+  // Rent is entered in plan-start dollars; bring it to the purchase year
+  for (let year = startYear; year < owned.purchaseYear; year++) {
+    rent = applyYearlyChange(rent, change, owned.rates, owned.inflationIndex(year), year);
+  }
+  const initialMonthlyRent = rent / 12;
+
+  const investmentReturn = options.investmentReturn ?? v.investmentReturn ?? 7;
+  const growth = 1 + investmentReturn / 100;
+  // The renter invests what the owner puts down
+  let renterPortfolio = owned.downPayment;
+  let ownerPortfolio = 0;
+  let breakEvenYear: number | null = null;
+  const years: RentVsBuyYear[] = [];
+  for (const y of owned.years) {
+    // Whoever spends less that year invests the difference
+    const gap = y.cashOut - rent;
+    if (gap > 0) renterPortfolio += gap;
+    else ownerPortfolio -= gap;
+    renterPortfolio *= growth;
+    ownerPortfolio *= growth;
+    const ownerNetWorth = y.value * (1 - owned.brokersFeeRate / 100) - y.loanBalance + ownerPortfolio;
+    if (breakEvenYear === null && ownerNetWorth >= renterPortfolio) breakEvenYear = y.year;
+    years.push({
+      year: y.year,
+      rent: round(rent),
+      ownerCashOut: y.cashOut,
+      renterPortfolio: round(renterPortfolio),
+      ownerPortfolio: round(ownerPortfolio),
+      ownerNetWorth: round(ownerNetWorth),
+      renterNetWorth: round(renterPortfolio),
+    });
+    rent = applyYearlyChange(rent, change, owned.rates, owned.inflationIndex(y.year), y.year);
+  }
+
+  const last = years[years.length - 1];
+  return {
+    ...(options.rentExpenseId !== undefined ? { rentExpenseId: options.rentExpenseId } : {}),
+    initialMonthlyRent: round(initialMonthlyRent),
+    investmentReturn,
+    breakEvenYear,
+    ownerNetWorth: last?.ownerNetWorth ?? 0,
+    renterNetWorth: last?.renterNetWorth ?? 0,
+    better: (last?.ownerNetWorth ?? 0) >= (last?.renterNetWorth ?? 0) ? "buy" : "rent",
+    difference: Math.abs((last?.ownerNetWorth ?? 0) - (last?.renterNetWorth ?? 0)),
+    years,
+  };
+}
+
+// =============================================================================
+// Rental properties
+// =============================================================================
+
+export interface RentalYear {
+  year: number;
+  grossRent: number;
+  // Property tax, insurance, maintenance, HOA and management on the rented share
+  operatingExpenses: number;
+  noi: number;
+  debtService: number;
+  improvements: number;
+  cashFlow: number;
+  capRate: number;
+  cashOnCash: number;
+  interest: number;
+  depreciation: number;
+  // Rent less deductible expenses, before passive loss limits
+  netRentalIncome: number;
+  qbiDeduction: number;
+  // Passive losses carried forward at the end of the year
+  suspendedLoss: number;
+  taxableRentalIncome: number;
+  selfEmploymentTax: number;
+}
+
+export interface RentalReport {
+  planId: string;
+  assetId: string;
+  name: string;
+  source: "today" | "plan";
+  percentRented: number;
+  classification: "residential" | "commercial";
+  recoveryYears: number;
+  depreciableBasis: number;
+  placedInService: number;
+  cashInvested: number;
+  years: RentalYear[];
+  totals: {
+    grossRent: number;
+    noi: number;
+    cashFlow: number;
+    depreciation: number;
+    taxableRentalIncome: number;
+    suspendedLoss: number;
+  };
+  warnings: string[];
+}
+
+export interface RentalReportOptions {
+  // Year the building was placed in service (default: purchase year, or the plan start for assets owned today)
+  placedInService?: number;
+}
+
+// Straight-line recovery periods (MACRS)
+const RECOVERY_YEARS = { residential: 27.5, commercial: 39 };
+const QBI_RATE = 0.2;
+const SE_TAX_RATE = 0.153;
+const SE_EARNINGS_SHARE = 0.9235;
+
+type RentalFieldType = "boolean" | "number" | "percent" | "rateType" | "classification";
+
+// Rental settings on real-estate assets, and how to validate them
+export const RENTAL_FIELDS: Record<string, { type: RentalFieldType; description: string }> = {
+  generateIncome: { type: "boolean", description: "Whether the property produces rental income" },
+  incomeRate: { type: "number", description: "Yearly rent: % of the property value, or today's dollars when incomeRateType is today$" },
+  incomeRateType: { type: "rateType", description: "% or today$" },
+  percentRented: { type: "percent", description: "Share of the property that is rented out (0-100)" },
+  managementRate: { type: "number", description: "Property management: % of rent collected, or today's dollars per year" },
+  managementRateType: { type: "rateType", description: "% or today$" },
+  improvementRate: { type: "number", description: "Capital improvements: % of the property value, or today's dollars per year" },
+  improvementRateType: { type: "rateType", description: "% or today$" },
+  monthlyHOA: { type: "number", description: "Monthly HOA dues" },
+  initialBuildingValue: { type: "number", description: "Depreciable value of the building, excluding land" },
+  classification: { type: "classification", description: "residential (27.5-year depreciation) or commercial (39-year)" },
+  estimateRentalDeductions: { type: "boolean", description: "Deduct expenses, mortgage interest and depreciation from rental income" },
+  estimateQBI: { type: "boolean", description: "Apply the 20% qualified business income deduction" },
+  isPassiveIncome: { type: "boolean", description: "Treat the rental as passive, so losses carry forward instead of offsetting other income" },
+  selfEmployment: { type: "boolean", description: "Rental income is subject to self-employment tax (e.g. short-term rentals with services)" },
+  cancelRent: { type: "boolean", description: "Stop rent expenses once the property is bought" },
+};
+
+// Validate and apply rental settings; returns the names of the fields that were set
+export function applyRentalSettings(asset: Record<string, unknown>, settings: Record<string, unknown>): string[] {
+  const changed: string[] = [];
+  for (const [field, spec] of Object.entries(RENTAL_FIELDS)) {
+    const value = settings[field];
+    if (value === undefined) continue;
+    switch (spec.type) {
+      case "boolean":
+        if (typeof value !== "boolean") throw new Error(`${field} must be a boolean`);
+        break;
+      case "number":
+        if (typeof value !== "number" || !isFinite(value) || value < 0) throw new Error(`${field} must be a non-negative number`);
+        break;
+      case "percent":
+        if (typeof value !== "number" || value < 0 || value > 100) throw new Error(`${field} must be between 0 and 100`);
+        break;
+      case "rateType":
+        if (value !== "%" && value !== "today$") throw new Error(`${field} must be "%" or "today$"`);
+        break;
+      case "classification":
+        if (value !== "residential" && value !== "commercial") throw new Error(`${field} must be "residential" or "commercial"`);
+        break;
+    }
+    changed.push(field);
+  }
+  for (const field of changed) asset[field] = settings[field];
+  if (settings.initialBuildingValue !== undefined) asset.initialBuildingValueType = "today$";
+  return changed;
+}
+
+// A real-estate asset by id: a plan asset event (merged over the today asset it refers to) or a today asset
+export function findRentalProperty(
+  data: ProjectionLabExport,
+  plan: Plan,
+  assetId: string
+): { asset: Record<string, unknown>; source: "today" | "plan" } {
+  const event = plan.assets?.events?.find((a) => a.id === assetId || a.assetId === assetId);
+  const base = data.today.assets?.find((t) => t.id === (event?.assetId ?? assetId));
+  if (!event && !base) throw new Error(`Asset not found in the plan or today's assets: ${assetId}`);
+  const asset = { ...(base ?? {}), ...(event ?? {}) } as Record<string, unknown>;
+  if (asset.type !== "real-estate") throw new Error(`${assetId} is not a real-estate asset`);
+  return { asset, source: event ? "plan" : "today" };
+}
+
+export function rentalReport(
+  data: ProjectionLabExport,
+  plan: Plan,
+  assetId: string,
+  options: RentalReportOptions = {}
+): RentalReport {
+  const warnings: string[] = [];
+  const { asset: a, source } = findRentalProperty(data, plan, assetId);
+  // A plan event for an asset owned today keeps it from the plan start
+  const ownedToday = source === "today" || (Boolean(a.assetId) && !a.start);
+  const held = ownership(data, plan, a, ownedToday, warnings);
+
+  if (a.generateIncome !== true) warnings.push("generateIncome is off, so ProjectionLab does not count this rent; the report assumes it is collected");
+  if (num(a.incomeRate) <= 0) throw new Error(`${assetId} has no incomeRate; set it with update_rental_settings`);
+  const share = num(a.percentRented, 100) / 100;
+  const classification = a.classification === "commercial" ? "commercial" : "residential";
+  const recoveryYears = RECOVERY_YEARS[classification];
+  const placedInService = options.placedInService ?? held.purchaseYear;
+  const basis = num(a.initialBuildingValue) * share;
+  if (basis <= 0) warnings.push("No initialBuildingValue, so no depreciation is taken; set it to the building's value excluding land");
+  const deductions = a.estimateRentalDeductions !== false;
+  const passive = a.isPassiveIncome !== false;
+  const cashInvested = (ownedToday ? Math.max(0, held.price - (held.loan?.principal ?? 0)) : held.downPayment) * share;
+
+  // Improvements are capitalized and depreciated from the year after they are made
+  const layers: Array<{ from: number; amount: number }> = [];
+  if (basis > 0) layers.push({ from: placedInService, amount: basis });
+  const depreciationIn = (year: number) =>
+    layers.reduce((sum, l) => {
+      const elapsed = year - l.from;
+      if (elapsed < 0 || elapsed >= Math.ceil(recoveryYears)) return sum;
+      const yearsLeft = recoveryYears - elapsed;
+      return sum + (l.amount / recoveryYears) * Math.min(1, yearsLeft);
+    }, 0);
+
+  let suspended = 0;
+  const years: RentalYear[] = held.years.map((y, i) => {
+    const index = held.inflationIndex(y.year);
+    const openingValue = i === 0 ? held.price : held.years[i - 1].value;
+    const grossRent = rateCost(a, "incomeRate", openingValue, index) * share;
+    const management = (a.managementRateType ?? "%") === "today$" ? num(a.managementRate) * index * share : (grossRent * num(a.managementRate)) / 100;
+    const operatingExpenses = (y.propertyTax + y.maintenance + y.insurance + y.hoa) * share + management;
+    const noi = grossRent - operatingExpenses;
+    const debtService = y.loanPayments * share;
+    const improvements = rateCost(a, "improvementRate", openingValue, index) * share;
+    const cashFlow = noi - debtService - improvements;
+    const interest = y.interest * share;
+    const depreciation = depreciationIn(y.year);
+    if (improvements > 0) layers.push({ from: y.year + 1, amount: improvements });
+
+    const net = deductions ? noi - interest - depreciation : grossRent;
+    let taxable = net;
+    if (passive && net < 0) {
+      suspended += -net;
+      taxable = 0;
+    } else if (passive && suspended > 0) {
+      const used = Math.min(net, suspended);
+      suspended -= used;
+      taxable = net - used;
+    }
+    const qbi = a.estimateQBI === true && taxable > 0 ? taxable * QBI_RATE : 0;
+    return {
+      year: y.year,
+      grossRent: round(grossRent),
+      operatingExpenses: round(operatingExpenses),
+      noi: round(noi),
+      debtService: round(debtService),
+      improvements: round(improvements),
+      cashFlow: round(cashFlow),
+      capRate: openingValue > 0 ? Math.round((noi / (openingValue * share)) * 10000) / 100 : 0,
+      cashOnCash: cashInvested > 0 ? Math.round((cashFlow / cashInvested) * 10000) / 100 : 0,
+      interest: round(interest),
+      depreciation: round(depreciation),
+      netRentalIncome: round(net),
+      qbiDeduction: round(qbi),
+      suspendedLoss: round(suspended),
+      taxableRentalIncome: round(taxable - qbi),
+      selfEmploymentTax: a.selfEmployment === true && net > 0 ? round(net * SE_EARNINGS_SHARE * SE_TAX_RATE) : 0,
+    };
+  });
+  if (!deductions) warnings.push("estimateRentalDeductions is off, so all rent is taxable");
+  if (passive && suspended > 0) {
+    warnings.push("Passive losses are carried forward; the $25,000 allowance for active participation and the release of suspended losses on sale are not modeled");
+  }
+
+  const sum = (f: (y: RentalYear) => number) => years.reduce((s, y) => s + f(y), 0);
+  return {
+    planId: plan.id,
+    assetId,
+    name: (a.name as string) ?? (a.title as string) ?? assetId,
+    source,
+    percentRented: share * 100,
+    classification,
+    recoveryYears,
+    depreciableBasis: round(basis),
+    placedInService,
+    cashInvested: round(cashInvested),
+    years,
+    totals: {
+      grossRent: sum((y) => y.grossRent),
+      noi: sum((y) => y.noi),
+      cashFlow: sum((y) => y.cashFlow),
+      // Recaptured (taxed at up to 25%) when the property is sold
+      depreciation: sum((y) => y.depreciation),
+      taxableRentalIncome: sum((y) => y.taxableRentalIncome),
+      suspendedLoss: round(suspended),
+    },
+    warnings,
+  };
+}
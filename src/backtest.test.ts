@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { backtestPlan } from "./backtest.js";
+import { LAST_HISTORICAL_YEAR } from "./historical-returns.js";
+import { ProjectionLabExport, Plan } from "./types.js";
+
+// A ten-year retirement drawing `spending` from a taxable brokerage account
+function fixture(balance: number, spending: number): { data: ProjectionLabExport; plan: Plan } {
+  const plan: Plan = {
+    id: "p1",
+    name: "Test",
+    variables: { startYear: 2025, loopYear: 2034 },
+    expenses: {
+      events: [
+        {
+          id: "living",
+          type: "living-expenses",
+          name: "Living",
+          amount: spending,
+          frequency: "yearly",
+          start: { type: "keyword", value: "now" },
+          end: { type: "keyword", value: "endOfPlan" },
+        },
+      ],
+    },
+  };
+  const data = {
+    meta: { version: "4.0.0", lastUpdated: 0 },
+    today: {
+      age: 65,
+      savingsAccounts: [],
+      investmentAccounts: [{ id: "brokerage", type: "taxable", name: "Brokerage", balance, owner: "me" }],
+      debts: [],
+      assets: [],
+    },
+    plans: [plan],
+    settings: {},
+  } as unknown as ProjectionLabExport;
+  return { data, plan };
+}
+
+test("one cohort per historical start year, with wrapped sequences flagged", () => {
+  const { data, plan } = fixture(10000000, 20000);
+  const result = backtestPlan(data, plan, { fromYear: 2010, includeAll: true });
+  assert.equal(result.cohorts, LAST_HISTORICAL_YEAR - 2010 + 1);
+  assert.equal(result.successRate, 100);
+  assert.deepEqual(result.failedCohorts, []);
+  // Ten-year runs starting after LAST_HISTORICAL_YEAR - 9 wrap to the first years
+  assert.equal(result.unwrappedCohorts, LAST_HISTORICAL_YEAR - 9 - 2010 + 1);
+  assert.equal(result.allCohorts!.find((c) => c.wrapped)!.startYear, LAST_HISTORICAL_YEAR - 8);
+  assert.match(result.warnings.join("\n"), /wrap around to 1928/);
+});
+
+test("the worst cohort replays its consecutive historical years", () => {
+  const { data, plan } = fixture(10000000, 20000);
+  const result = backtestPlan(data, plan, { fromYear: 1928, toYear: 1940 });
+  assert.equal(result.worst.years.length, 10);
+  assert.deepEqual(
+    result.worst.years.map((y) => y.historicalYear),
+    Array.from({ length: 10 }, (_, i) => result.worst.startYear + i)
+  );
+  assert.ok(result.worst.endingNetWorth <= result.best.endingNetWorth);
+  assert.ok(result.endingNetWorth.p10 <= result.endingNetWorth.p90);
+});
+
+test("spending far beyond the portfolio fails every cohort", () => {
+  const { data, plan } = fixture(100000, 50000);
+  const result = backtestPlan(data, plan, { fromYear: 1960, toYear: 1969 });
+  assert.equal(result.successRate, 0);
+  assert.equal(result.failedCohorts.length, 10);
+  assert.ok(result.worst.depletedYear !== null && result.worst.depletedYear <= 2029);
+});
+
+test("a start year range outside the data is rejected", () => {
+  const { data, plan } = fixture(100000, 50000);
+  assert.throws(() => backtestPlan(data, plan, { fromYear: 1900, toYear: 1920 }), /No historical start years in range/);
+});
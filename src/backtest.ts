@@ -0,0 +1,150 @@
+/**
+ * Historical backtest: runs the full projection once per historical starting
+ * year, with each plan year's stock and bond returns and inflation taken from
+ * consecutive years of the bundled 1928-2024 US market history.
+ *
+ * Sequences that run past the last year of data wrap around to the first, so
+ * every start year produces a full-length cohort; those cohorts are flagged.
+ */
+
+import { ProjectionLabExport, Plan } from "./types.js";
+import { runProjection, toTodayDollars } from "./projection.js";
+import { HISTORICAL_RETURNS, LAST_HISTORICAL_YEAR, historicalRates, historicalSequence } from "./historical-returns.js";
+import { percentile } from "./random.js";
+
+export interface BacktestOptions {
+  // Limit the historical start years tried
+  fromYear?: number;
+  toYear?: number;
+  todayDollars?: boolean;
+  // List every cohort, not only the failures
+  includeAll?: boolean;
+}
+
+export interface BacktestCohort {
+  // Historical year the sequence starts in
+  startYear: number;
+  success: boolean;
+  // Plan year and age liquid assets ran out
+  depletedYear: number | null;
+  depletedAge: number | null;
+  endingNetWorth: number;
+  lowestNetWorth: number;
+  // The sequence ran past the end of the data and wrapped to the first years
+  wrapped: boolean;
+}
+
+export interface BacktestWorstYear {
+  year: number;
+  age?: number;
+  historicalYear: number;
+  stocks: number;
+  bonds: number;
+  inflation: number;
+  netWorth: number;
+  liquid: number;
+  shortfall: number;
+}
+
+export interface BacktestResult {
+  planId: string;
+  planName: string;
+  cohorts: number;
+  successRate: number;
+  // Success rate among cohorts with a full run of real consecutive history
+  unwrappedCohorts: number;
+  unwrappedSuccessRate: number | null;
+  endingNetWorth: { p10: number; p50: number; p90: number };
+  failedCohorts: BacktestCohort[];
+  // Earliest depletion, or the lowest ending net worth when every cohort succeeds
+  worst: BacktestCohort & { years: BacktestWorstYear[] };
+  best: BacktestCohort;
+  allCohorts?: BacktestCohort[];
+  warnings: string[];
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+export function backtestPlan(data: ProjectionLabExport, plan: Plan, options: BacktestOptions = {}): BacktestResult {
+  const todayDollars = options.todayDollars ?? false;
+  const warnings: string[] = [];
+  const startYears = HISTORICAL_RETURNS.map((h) => h.year).filter(
+    (y) => (options.fromYear === undefined || y >= options.fromYear) && (options.toYear === undefined || y <= options.toYear)
+  );
+  if (startYears.length === 0) throw new Error(`No historical start years in range; data covers ${HISTORICAL_RETURNS[0].year}-${LAST_HISTORICAL_YEAR}`);
+  if (plan.variables?.assumptionsMode !== undefined && plan.variables.assumptionsMode !== "backtest") {
+    warnings.push(`The plan's assumptionsMode is "${plan.variables.assumptionsMode}"; the backtest replaces its return and inflation assumptions with history`);
+  }
+
+  const length = runProjection(data, plan).years.length;
+  const runs = startYears.map((startYear) => {
+    const sequence = historicalSequence(startYear, length);
+    const result = runProjection(data, plan, { rates: historicalRates(sequence) });
+    const years = todayDollars ? result.years.map(toTodayDollars) : result.years;
+    const depleted = result.years.find((y) => y.year === result.depletedYear);
+    const cohort: BacktestCohort = {
+      startYear,
+      success: result.depletedYear === null,
+      depletedYear: result.depletedYear,
+      depletedAge: depleted?.age ?? null,
+      endingNetWorth: years[years.length - 1].netWorth,
+      lowestNetWorth: Math.min(...years.map((y) => y.netWorth)),
+      wrapped: startYear + length - 1 > LAST_HISTORICAL_YEAR,
+    };
+    if (result.warnings.length && startYear === startYears[0]) warnings.push(...result.warnings);
+    return { cohort, sequence, years };
+  });
+
+  const cohorts = runs.map((r) => r.cohort);
+  const successRate = (list: BacktestCohort[]) => round1((list.filter((c) => c.success).length / list.length) * 100);
+  const unwrapped = cohorts.filter((c) => !c.wrapped);
+  if (unwrapped.length < cohorts.length) {
+    warnings.push(
+      `${cohorts.length - unwrapped.length} of ${cohorts.length} cohorts run past ${LAST_HISTORICAL_YEAR} and wrap around to ${HISTORICAL_RETURNS[0].year}`
+    );
+  }
+
+  // Earliest depletion is worst, then the lowest ending net worth
+  const rank = (c: BacktestCohort) => [c.depletedYear ?? Number.POSITIVE_INFINITY, c.endingNetWorth];
+  const worstRun = runs.reduce((a, b) => {
+    const [da, na] = rank(a.cohort);
+    const [db, nb] = rank(b.cohort);
+    return db < da || (db === da && nb < na) ? b : a;
+  });
+  const best = cohorts.reduce((a, b) => (b.success && (!a.success || b.endingNetWorth > a.endingNetWorth) ? b : a));
+  const ending = cohorts.map((c) => c.endingNetWorth).sort((a, b) => a - b);
+
+  return {
+    planId: plan.id,
+    planName: plan.name,
+    cohorts: cohorts.length,
+    successRate: successRate(cohorts),
+    unwrappedCohorts: unwrapped.length,
+    unwrappedSuccessRate: unwrapped.length ? successRate(unwrapped) : null,
+    endingNetWorth: {
+      p10: Math.round(percentile(ending, 10)),
+      p50: Math.round(percentile(ending, 50)),
+      p90: Math.round(percentile(ending, 90)),
+    },
+    failedCohorts: cohorts.filter((c) => !c.success),
+    worst: {
+      ...worstRun.cohort,
+      years: worstRun.years.map((y, i) => ({
+        year: y.year,
+        ...(y.age !== undefined ? { age: y.age } : {}),
+        historicalYear: worstRun.sequence[i].year,
+        stocks: worstRun.sequence[i].stocks,
+        bonds: worstRun.sequence[i].bonds,
+        inflation: worstRun.sequence[i].inflation,
+        netWorth: y.netWorth,
+        liquid: y.liquid,
+        shortfall: y.shortfall,
+      })),
+    },
+    best,
+    ...(options.includeAll ? { allCohorts: cohorts } : {}),
+    warnings,
+  };
+}
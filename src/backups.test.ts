@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { backupSettings, createBackup, listBackups, readBackup } from "./backups.js";
+
+test("backups rotate down to the configured count, newest first", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "pl-backups-"));
+  try {
+    const file = path.join(dir, "export.json");
+    const settings = backupSettings(file, { backupCount: 2 });
+    for (const version of ["1", "2", "3"]) {
+      await fs.writeFile(file, version);
+      assert.ok(await createBackup(file, settings));
+    }
+    const backups = await listBackups(file, settings);
+    assert.equal(backups.length, 2);
+    assert.equal(await readBackup(file, settings, backups[0].name), "3");
+    assert.equal(await readBackup(file, settings, backups[1].name), "2");
+    await assert.rejects(readBackup(file, settings, "missing.json"), /Backup not found/);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("a zero count or a missing export takes no backup", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "pl-backups-"));
+  try {
+    const file = path.join(dir, "export.json");
+    assert.equal(await createBackup(file, backupSettings(file, { backupCount: 3 })), null);
+    await fs.writeFile(file, "{}");
+    assert.equal(await createBackup(file, backupSettings(file, { backupCount: 0 })), null);
+    assert.deepEqual(await fs.readdir(dir), ["export.json"]);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("invalid backup counts are rejected", () => {
+  assert.throws(() => backupSettings("/tmp/export.json", { backupCount: -1 }), /Invalid backup count/);
+});
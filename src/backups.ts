@@ -0,0 +1,115 @@
+/**
+ * Rotating backups of the export file, taken before every write.
+ *
+ * Backups are named "<export name>.backup-<timestamp>.json" and live next to
+ * the export file unless a backup directory is configured. Only the newest
+ * `keep` backups are retained.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+
+export interface BackupSettings {
+  directory: string;
+  // Number of backups to retain; 0 disables backups
+  keep: number;
+}
+
+export interface BackupInfo {
+  name: string;
+  path: string;
+  createdAt: string;
+  size: number;
+}
+
+export const DEFAULT_BACKUP_COUNT = 10;
+
+// Explicit options win over PROJECTIONLAB_BACKUP_DIR / PROJECTIONLAB_BACKUP_COUNT
+export function backupSettings(
+  dataFilePath: string,
+  options: { backupDir?: string; backupCount?: number } = {}
+): BackupSettings {
+  const dir = options.backupDir ?? process.env.PROJECTIONLAB_BACKUP_DIR;
+  const envCount = process.env.PROJECTIONLAB_BACKUP_COUNT;
+  let keep = options.backupCount ?? (envCount !== undefined ? parseInt(envCount, 10) : DEFAULT_BACKUP_COUNT);
+  if (!Number.isInteger(keep) || keep < 0) {
+    throw new Error(`Invalid backup count: ${options.backupCount ?? envCount}. Must be a non-negative integer.`);
+  }
+  return {
+    directory: dir ? path.resolve(dir) : path.dirname(dataFilePath),
+    keep,
+  };
+}
+
+function backupPrefix(dataFilePath: string): string {
+  return `${path.basename(dataFilePath, path.extname(dataFilePath))}.backup-`;
+}
+
+// "2026-10-19T18:30:07.123Z" -> "2026-10-19T18-30-07-123Z", which sorts chronologically
+function timestampSuffix(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, "-");
+}
+
+function parseTimestampSuffix(suffix: string): string {
+  const match = suffix.match(/^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z/);
+  return match ? `${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z` : suffix;
+}
+
+// Newest first
+export async function listBackups(dataFilePath: string, settings: BackupSettings): Promise<BackupInfo[]> {
+  const prefix = backupPrefix(dataFilePath);
+  let names: string[];
+  try {
+    names = await fs.readdir(settings.directory);
+  } catch {
+    return [];
+  }
+
+  const backups: BackupInfo[] = [];
+  for (const name of names.filter((n) => n.startsWith(prefix) && n.endsWith(".json")).sort().reverse()) {
+    const filePath = path.join(settings.directory, name);
+    const stat = await fs.stat(filePath);
+    backups.push({
+      name,
+      path: filePath,
+      createdAt: parseTimestampSuffix(name.slice(prefix.length)),
+      size: stat.size,
+    });
+  }
+  return backups;
+}
+
+// Copy the current export file into a new backup and prune old ones.
+// Returns the backup name, or null if backups are disabled or there is nothing to copy.
+export async function createBackup(dataFilePath: string, settings: BackupSettings): Promise<string | null> {
+  if (settings.keep === 0) return null;
+  await fs.mkdir(settings.directory, { recursive: true });
+
+  const base = `${backupPrefix(dataFilePath)}${timestampSuffix(new Date())}`;
+  let name = `${base}.json`;
+  for (let n = 1; ; n++) {
+    try {
+      await fs.copyFile(dataFilePath, path.join(settings.directory, name), fs.constants.COPYFILE_EXCL);
+      break;
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === "ENOENT") return null;
+      if (code !== "EEXIST") throw error;
+      name = `${base}_${n}.json`;
+    }
+  }
+
+  const backups = await listBackups(dataFilePath, settings);
+  for (const old of backups.slice(settings.keep)) {
+    await fs.rm(old.path, { force: true });
+  }
+  return name;
+}
+
+export async function readBackup(dataFilePath: string, settings: BackupSettings, name: string): Promise<string> {
+  const backup = (await listBackups(dataFilePath, settings)).find((b) => b.name === name);
+  if (!backup) {
+    throw new Error(`Backup not found: ${name}. Use list_backups to see available backups.`);
+  }
+  return fs.readFile(backup.path, "utf-8");
+}
@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { explainCashFlow } from "./cashflow.js";
+import { runProjection } from "./projection.js";
+import { ProjectionLabExport, Plan, IncomeEvent } from "./types.js";
+
+// A 65-year-old spending 80k a year, with only a 401k or with a salary as well
+function fixture(income: IncomeEvent[] = []): { data: ProjectionLabExport; plan: Plan } {
+  const always = { start: { type: "keyword", value: "now" }, end: { type: "keyword", value: "endOfPlan" } } as const;
+  const plan: Plan = {
+    id: "p1",
+    name: "Test",
+    variables: { startYear: 2025, loopYear: 2027, investmentReturn: 0, dividendRate: 0, inflation: 0, incomeTaxMode: "brackets", filingStatus: "single" },
+    income: { events: income },
+    expenses: { events: [{ id: "living", type: "living-expenses", name: "Living", amount: 80000, frequency: "yearly", ...always }] },
+  };
+  const data: ProjectionLabExport = {
+    meta: { version: "4.0.0", lastUpdated: 0 },
+    today: {
+      age: 65,
+      birthYear: 1960,
+      savingsAccounts: [],
+      investmentAccounts: [{ id: "k1", type: "401k", name: "401k", balance: 2000000, owner: "me" }],
+      debts: [],
+      assets: [],
+    },
+    plans: [plan],
+    settings: {},
+  };
+  return { data, plan };
+}
+
+test("a deficit year is covered by one withdrawal line that matches the projection", () => {
+  const { data, plan } = fixture();
+  const year = runProjection(data, plan).years[0];
+  const explanation = explainCashFlow(data, plan, 2025);
+
+  const { waterfall } = explanation;
+  assert.equal(waterfall[waterfall.length - 1].remaining, 0);
+  assert.equal(waterfall.reduce((sum, row) => sum + row.amount, 0), 0);
+  assert.ok(waterfall.some((row) => row.step === "Tax adjustment on final income"));
+  assert.equal(explanation.taxes.total, year.taxes);
+  assert.deepEqual(explanation.withdrawals.map((w) => [w.id, w.amount]), [["k1", year.withdrawals]]);
+  assert.equal(explanation.shortfall, 0);
+});
+
+test("a surplus is saved by default", () => {
+  const salary = {
+    id: "salary",
+    type: "salary",
+    name: "Salary",
+    amount: 150000,
+    frequency: "yearly",
+    start: { type: "keyword", value: "now" },
+    end: { type: "keyword", value: "endOfPlan" },
+  } as IncomeEvent;
+  const { data, plan } = fixture([salary]);
+  const explanation = explainCashFlow(data, plan, 2025);
+  assert.equal(explanation.income.total, 150000);
+  assert.deepEqual(explanation.withdrawals, []);
+  assert.equal(explanation.leftover.amount, 150000 - 80000 - explanation.taxes.total);
+  assert.equal(explanation.cashFlowDefault, "save");
+});
+
+test("years outside the plan are rejected", () => {
+  const { data, plan } = fixture();
+  assert.throws(() => explainCashFlow(data, plan, 2040));
+});
@@ -0,0 +1,251 @@
+/**
+ * Cash-flow waterfall for one projected year.
+ *
+ * Follows the order the projection moves money in: gross income, payroll
+ * priorities, taxes, expenses and debt service, then each surplus priority in
+ * plan order, with whatever is left saved or spent per cashFlowDefault (or a
+ * deficit covered by withdrawals).
+ */
+
+import { ProjectionLabExport, Plan, PriorityEvent } from "./types.js";
+import { runProjection, CashFlowStep } from "./projection.js";
+
+export interface CashFlowLine {
+  id?: string;
+  name: string;
+  type?: string;
+  amount: number;
+}
+
+export interface WaterfallRow {
+  step: string;
+  amount: number;
+  // Cash left after this step
+  remaining: number;
+}
+
+export interface PriorityFlow {
+  index: number;
+  priorityId: string;
+  name: string;
+  type: string;
+  // payroll: taken from the linked paycheck before taxes; partial: cash ran out before the full amount
+  status: "payroll" | "funded" | "partial" | "unfunded" | "inactive";
+  amount: number;
+  requested?: number;
+  employer?: number;
+  taxSaved?: number;
+  note?: string;
+}
+
+export interface CashFlowExplanation {
+  planId: string;
+  year: number;
+  age?: number;
+  spouseAge?: number;
+  inflationIndex: number;
+  cashFlowDefault: "save" | "spend";
+  waterfall: WaterfallRow[];
+  income: { total: number; items: CashFlowLine[] };
+  taxes: {
+    // Estimated on income after pre-tax payroll contributions
+    estimated: number;
+    preTaxSavings: number;
+    onWithdrawals: number;
+    // Settled on the year's final income, including withdrawals
+    adjustment: number;
+    total: number;
+    // From income events with taxWithholding, at their withhold percentage
+    withheld?: number;
+    // withheld minus total; negative means tax due at filing
+    refund?: number;
+  };
+  expenses: {
+    total: number;
+    bySpendingType: Record<string, { total: number; items: CashFlowLine[] }>;
+    debtPayments: CashFlowLine[];
+    assets: CashFlowLine[];
+  };
+  surplusBeforePriorities: number;
+  priorities: PriorityFlow[];
+  leftover: { amount: number; handling: string };
+  withdrawals: Array<CashFlowLine & { tax: number }>;
+  shortfall: number;
+  warnings: string[];
+}
+
+function round(n: number): number {
+  return Math.round(n);
+}
+
+export function explainCashFlow(data: ProjectionLabExport, plan: Plan, year: number): CashFlowExplanation {
+  const v = plan.variables ?? {};
+  const steps: CashFlowStep[] = [];
+  const projection = runProjection(data, plan, {
+    onCashFlow: (y, step) => {
+      if (y === year) steps.push(step);
+    },
+  });
+  const row = projection.years.find((y) => y.year === year);
+  if (!row) throw new Error(`Year ${year} is outside the plan (${projection.startYear}-${projection.endYear})`);
+
+  const incomes = new Map((plan.income?.events ?? []).map((e) => [e.id, e]));
+  const expenseEvents = new Map((plan.expenses?.events ?? []).map((e) => [e.id, e]));
+  const priorityEvents = plan.priorities?.events ?? [];
+  const names = new Map<string, string>();
+  for (const d of data.today.debts ?? []) names.set(d.id, d.name ?? d.title ?? d.id);
+  for (const a of [...(data.today.savingsAccounts ?? []), ...(data.today.investmentAccounts ?? [])]) names.set(a.id, a.name ?? a.id);
+  for (const a of data.today.assets ?? []) names.set(a.id, a.name ?? a.title ?? a.id);
+  for (const a of plan.assets?.events ?? []) if (a.id) names.set(a.id, a.name ?? a.title ?? a.id);
+  for (const e of expenseEvents.values()) names.set(e.id, e.name ?? e.title ?? e.id);
+  const nameOf = (id: string | undefined) => (id ? names.get(id) ?? (id === "cash" ? "Cash" : id) : "");
+  const line = (s: CashFlowStep, name: string, type?: string): CashFlowLine => ({
+    ...(s.id ? { id: s.id } : {}),
+    name,
+    ...(type ? { type } : {}),
+    amount: round(s.amount),
+  });
+  const of = (kind: CashFlowStep["kind"]) => steps.filter((s) => s.kind === kind);
+  const sum = (list: CashFlowStep[]) => list.reduce((total, s) => total + s.amount, 0);
+
+  // Income
+  const incomeLines: CashFlowLine[] = [];
+  let withheld: number | undefined;
+  for (const s of of("income")) {
+    const e = incomes.get(s.id ?? "");
+    incomeLines.push(line(s, e?.name ?? e?.title ?? s.id ?? "", e?.type));
+    if (e?.taxWithholding) withheld = (withheld ?? 0) + (s.amount * (e.withhold ?? 0)) / 100;
+  }
+  for (const s of of("rmd")) incomeLines.push(line(s, "Required minimum distributions", "rmd"));
+  for (const s of of("asset-sale").filter((s) => !s.note)) incomeLines.push(line(s, `Sale of ${nameOf(s.id)}`, "asset-sale"));
+  const incomeTotal = sum(of("income")) + sum(of("rmd")) + sum(of("asset-sale").filter((s) => !s.note));
+
+  // Priorities, in plan order
+  const byPriority = new Map<string, CashFlowStep>();
+  for (const s of [...of("payroll"), ...of("priority")]) if (s.id) byPriority.set(s.id, s);
+  const priorities: PriorityFlow[] = priorityEvents.map((p: PriorityEvent, index) => {
+    const s = byPriority.get(p.id);
+    const base = { index, priorityId: p.id, name: p.name ?? p.title ?? p.id, type: p.type };
+    if (!s) return { ...base, status: "inactive" as const, amount: 0 };
+    const requested = s.requested ?? s.amount;
+    const status: PriorityFlow["status"] =
+      s.kind === "payroll" ? "payroll" : s.amount <= 0 ? "unfunded" : s.amount < requested - 0.5 ? "partial" : "funded";
+    return {
+      ...base,
+      status,
+      amount: round(s.amount),
+      ...(s.requested !== undefined ? { requested: round(s.requested) } : {}),
+      ...(s.employer ? { employer: round(s.employer) } : {}),
+      ...(s.tax ? { taxSaved: round(s.tax) } : {}),
+      ...(s.note ? { note: s.note } : {}),
+    };
+  });
+  const payroll = sum(of("payroll"));
+
+  // Taxes
+  const estimated = sum(of("taxes"));
+  const preTaxSavings = of("priority").reduce((total, s) => total + (s.tax ?? 0), 0);
+  const onWithdrawals = of("withdrawal").reduce((total, s) => total + (s.tax ?? 0), 0);
+  const adjustment = sum(of("tax-adjustment"));
+  const taxTotal = estimated - preTaxSavings + onWithdrawals + adjustment;
+
+  // Expenses, grouped by spending type
+  const bySpendingType: CashFlowExplanation["expenses"]["bySpendingType"] = {};
+  for (const s of of("expense")) {
+    const e = expenseEvents.get(s.id ?? "");
+    const key = e?.spendingType ?? "unspecified";
+    const group = (bySpendingType[key] ??= { total: 0, items: [] });
+    group.total += round(s.amount);
+    group.items.push(line(s, nameOf(s.id), e?.type));
+  }
+  const debtPayments = of("debt-payment").map((s) => line(s, nameOf(s.id), s.note === "asset loan" ? "asset-loan" : "debt"));
+  const assetLines = [
+    ...of("asset-purchase").map((s) => line(s, `Purchase of ${nameOf(s.id)}`, "purchase")),
+    ...of("asset-costs").map((s) => line(s, `${nameOf(s.id)} property tax, maintenance, insurance and HOA`, "carrying-costs")),
+  ];
+  const expenseTotal = sum(of("expense")) + sum(of("asset-purchase")) + sum(of("asset-costs"));
+  const debtTotal = sum(of("debt-payment"));
+
+  // Waterfall
+  const waterfall: WaterfallRow[] = [];
+  let remaining = 0;
+  const add = (step: string, amount: number) => {
+    remaining += amount;
+    waterfall.push({ step, amount: round(amount), remaining: round(remaining) });
+  };
+  add("Gross income", incomeTotal);
+  if (payroll > 0) add("Payroll contributions", -payroll);
+  add("Estimated taxes", -estimated);
+  for (const [type, group] of Object.entries(bySpendingType)) add(`Expenses (${type})`, -group.total);
+  if (assetLines.length) add("Asset purchases and carrying costs", -(sum(of("asset-purchase")) + sum(of("asset-costs"))));
+  if (debtTotal > 0) add("Debt payments", -debtTotal);
+  const surplusBeforePriorities = remaining;
+  for (const p of priorities) {
+    const s = byPriority.get(p.priorityId);
+    if (!s || s.kind !== "priority" || s.amount <= 0) continue;
+    add(`Priority ${p.index + 1}: ${p.name}`, -s.amount);
+    if (s.tax) add(`Tax saved by ${p.name}`, s.tax);
+  }
+  if (Math.round(adjustment) !== 0) add("Tax adjustment on final income", -adjustment);
+  const leftoverStep = of("leftover")[0];
+  // One line per account; a deficit year can draw on the same account over several tax passes
+  const byAccount = new Map<string, CashFlowStep>();
+  for (const s of of("withdrawal")) {
+    const merged = byAccount.get(s.id ?? "");
+    if (merged) {
+      merged.amount += s.amount;
+      merged.tax = (merged.tax ?? 0) + (s.tax ?? 0);
+    } else {
+      byAccount.set(s.id ?? "", { ...s });
+    }
+  }
+  const withdrawalSteps = [...byAccount.values()];
+  const withdrawals = withdrawalSteps.map((s) => ({ ...line(s, nameOf(s.id)), tax: round(s.tax ?? 0) }));
+  const forcedSales = of("asset-sale").filter((s) => s.note);
+  for (const s of withdrawalSteps) add(`Withdrawal from ${nameOf(s.id)} (after ${round(s.tax ?? 0)} tax)`, s.amount - (s.tax ?? 0));
+  for (const s of forcedSales) add(`Sale of ${nameOf(s.id)} to cover the deficit`, s.amount);
+  const shortfall = sum(of("shortfall"));
+
+  const cashFlowDefault = v.cashFlowDefault === "spend" ? "spend" : "save";
+  const leftover = leftoverStep
+    ? {
+        amount: round(leftoverStep.amount),
+        handling: cashFlowDefault === "spend" ? "spent (cashFlowDefault: spend)" : `saved to ${nameOf(leftoverStep.id)} (cashFlowDefault: save)`,
+      }
+    : { amount: 0, handling: shortfall > 0 ? "none; the deficit was not fully covered" : "none" };
+  if (leftoverStep) add(leftover.handling.startsWith("spent") ? "Leftover spent" : `Leftover saved to ${nameOf(leftoverStep.id)}`, -leftoverStep.amount);
+
+  const warnings = [...projection.warnings];
+  if (shortfall > 0) warnings.push(`Withdrawals and asset sales fell ${round(shortfall)} short of covering ${year}`);
+
+  return {
+    planId: plan.id,
+    year,
+    ...(row.age !== undefined ? { age: row.age } : {}),
+    ...(row.spouseAge !== undefined ? { spouseAge: row.spouseAge } : {}),
+    inflationIndex: row.inflationIndex,
+    cashFlowDefault,
+    waterfall,
+    income: { total: round(incomeTotal), items: incomeLines },
+    taxes: {
+      estimated: round(estimated),
+      preTaxSavings: round(preTaxSavings),
+      onWithdrawals: round(onWithdrawals),
+      adjustment: round(adjustment),
+      total: round(taxTotal),
+      ...(withheld !== undefined ? { withheld: round(withheld), refund: round(withheld - taxTotal) } : {}),
+    },
+    expenses: {
+      total: round(expenseTotal + debtTotal),
+      bySpendingType,
+      debtPayments,
+      assets: assetLines,
+    },
+    surplusBeforePriorities: round(surplusBeforePriorities),
+    priorities,
+    leftover,
+    withdrawals,
+    shortfall: round(shortfall),
+    warnings,
+  };
+}
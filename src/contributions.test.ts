@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkContributions } from "./contributions.js";
+import { runProjection } from "./projection.js";
+import { ProjectionLabExport, Plan, PriorityEvent } from "./types.js";
+
+// A 45-year-old earning 200k in 2026, the contribution limits' table year
+function check(age: number, priorities: Array<Partial<PriorityEvent>>) {
+  const plan = {
+    id: "p1",
+    name: "Test",
+    variables: { startYear: 2026, loopYear: 2027, inflation: 0, investmentReturn: 0, dividendRate: 0 },
+    income: {
+      events: [
+        {
+          id: "salary",
+          type: "salary",
+          name: "Salary",
+          amount: 200000,
+          frequency: "yearly",
+          start: { type: "keyword", value: "now" },
+          end: { type: "keyword", value: "endOfPlan" },
+        },
+      ],
+    },
+    priorities: { events: priorities },
+  } as unknown as Plan;
+  const data = {
+    meta: { version: "4.0.0", lastUpdated: 0 },
+    today: { age, savingsAccounts: [], investmentAccounts: [], debts: [], assets: [] },
+    plans: [plan],
+    settings: {},
+  } as ProjectionLabExport;
+  return checkContributions(data, plan, runProjection(data, plan));
+}
+
+const k401 = {
+  id: "k",
+  type: "401k",
+  name: "401k",
+  incomeStreamId: "salary",
+  contributionType: "%",
+  contribution: 15,
+  employerMatch: 50,
+  employerMatchType: "%",
+  employerMatchLimit: 6,
+  yearlyLimitType: "us",
+} as Partial<PriorityEvent>;
+
+test("deferrals over the limit on a capped priority are an error", () => {
+  const report = check(45, [k401]);
+  assert.deepEqual(
+    report.priorities.map((p) => [p.salary, p.employee, p.employer]),
+    [[200000, 30000, 6000]]
+  );
+  const deferral = report.limits.find((l) => l.group === "401k-deferral")!;
+  assert.equal(deferral.limit, 24500);
+  assert.equal(deferral.excess, 5500);
+  assert.equal(deferral.severity, "error");
+  assert.equal(report.limits.find((l) => l.group === "415c-additions")!.severity, "ok");
+});
+
+test("catch-up contributions raise the limit from 50, and more at 60-63", () => {
+  assert.equal(check(50, [k401]).limits.find((l) => l.group === "401k-deferral")!.limit, 24500 + 8000);
+  const at61 = check(61, [k401]).limits.find((l) => l.group === "401k-deferral")!;
+  assert.equal(at61.limit, 24500 + 11250);
+  assert.equal(at61.excess, 0);
+});
+
+test("an uncapped IRA over the limit is a warning", () => {
+  const ira = { id: "ira", type: "roth-ira", name: "IRA", contribution: 8000, frequency: "yearly", yearlyLimitType: "none" } as Partial<PriorityEvent>;
+  const limit = check(45, [ira]).limits.find((l) => l.group === "ira")!;
+  assert.equal(limit.excess, 500);
+  assert.equal(limit.severity, "warning");
+});
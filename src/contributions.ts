@@ -0,0 +1,220 @@
+/**
+ * Contribution limit and employer match checks for account priorities.
+ *
+ * Works out each priority's annual contribution the way the projection does,
+ * adds up contributions that share a statutory limit (401k deferrals, IRAs,
+ * HSAs, Section 415(c) additions) per person, and flags any that go over,
+ * including catch-up contributions by age.
+ */
+
+import { ProjectionLabExport, Plan, PriorityEvent } from "./types.js";
+import { ProjectionResult, priorityContribution } from "./projection.js";
+import { CONTRIBUTION_LIMITS, CONTRIBUTION_LIMITS_YEAR } from "./tax-tables.js";
+import { filingStatusOf } from "./taxes.js";
+
+export type LimitGroup = "401k-deferral" | "415c-additions" | "ira" | "hsa" | "espp" | "529-gift";
+
+export interface PriorityContributionCheck {
+  priorityId: string;
+  name: string;
+  type: string;
+  owner: "me" | "spouse";
+  age?: number;
+  // Salary of the linked income stream
+  salary: number;
+  employee: number;
+  employer: number;
+  // Contribution depends on the surplus left that year (desiredContribution "%-remaining")
+  dependsOnSurplus: boolean;
+  yearlyLimitType: string;
+  limitGroups: LimitGroup[];
+}
+
+export interface LimitCheck {
+  group: LimitGroup;
+  owner: "me" | "spouse";
+  age?: number;
+  priorityIds: string[];
+  contributions: number;
+  limit: number;
+  // Catch-up included in limit
+  catchUp: number;
+  excess: number;
+  // "error": a priority with yearlyLimitType "us" goes over, which ProjectionLab silently caps
+  severity: "ok" | "info" | "warning" | "error";
+  message?: string;
+}
+
+export interface ContributionReport {
+  planId: string;
+  year: number;
+  limitsYear: number;
+  priorities: PriorityContributionCheck[];
+  limits: LimitCheck[];
+  warnings: string[];
+}
+
+export interface ContributionCheckOptions {
+  year?: number;
+  // HSA coverage (default: family for couples, self-only otherwise)
+  hsaCoverage?: "self" | "family";
+}
+
+const CHECKED_TYPES = ["401k", "roth-ira", "traditional-ira", "hsa", "mega-backdoor", "espp", "529"];
+
+function limitGroupsOf(type: PriorityEvent["type"]): LimitGroup[] {
+  switch (type) {
+    case "401k":
+      return ["401k-deferral", "415c-additions"];
+    case "mega-backdoor":
+      return ["415c-additions"];
+    case "roth-ira":
+    case "traditional-ira":
+      return ["ira"];
+    case "hsa":
+      return ["hsa"];
+    case "espp":
+      return ["espp"];
+    case "529":
+      return ["529-gift"];
+    default:
+      return [];
+  }
+}
+
+// Statutory limit and catch-up for one person's contributions to a limit group
+function statutoryLimit(group: LimitGroup, age: number | undefined, hsaFamily: boolean, scale: number): { base: number; catchUp: number } {
+  const l = CONTRIBUTION_LIMITS;
+  const a = age ?? 0;
+  switch (group) {
+    case "401k-deferral":
+      return { base: l.electiveDeferral * scale, catchUp: (a >= 60 && a <= 63 ? l.catchUp60to63 : a >= 50 ? l.catchUp50 : 0) * scale };
+    case "415c-additions":
+      // Catch-up contributions are not counted toward the 415(c) limit
+      return { base: l.totalAdditions * scale, catchUp: (a >= 60 && a <= 63 ? l.catchUp60to63 : a >= 50 ? l.catchUp50 : 0) * scale };
+    case "ira":
+      return { base: l.ira * scale, catchUp: (a >= 50 ? l.iraCatchUp50 : 0) * scale };
+    case "hsa":
+      return { base: (hsaFamily ? l.hsaFamily : l.hsaSelf) * scale, catchUp: (a >= 55 ? l.hsaCatchUp55 : 0) * scale };
+    case "espp":
+      return { base: l.espp * scale, catchUp: 0 };
+    case "529-gift":
+      return { base: l.giftExclusion * scale, catchUp: 0 };
+  }
+}
+
+export function checkContributions(
+  data: ProjectionLabExport,
+  plan: Plan,
+  projection: ProjectionResult,
+  options: ContributionCheckOptions = {}
+): ContributionReport {
+  const v = plan.variables ?? {};
+  const warnings: string[] = [];
+  const year = options.year ?? projection.startYear;
+  const row = projection.years.find((y) => y.year === year);
+  if (!row) throw new Error(`Year ${year} is outside the plan (${projection.startYear}-${projection.endYear})`);
+  if (year < CONTRIBUTION_LIMITS_YEAR) warnings.push(`Limits are from ${CONTRIBUTION_LIMITS_YEAR}; earlier years had lower limits`);
+  // Limits are indexed from the table year with the plan's inflation
+  const scale = Math.pow(1 + (v.inflation ?? 3) / 100, Math.max(0, year - CONTRIBUTION_LIMITS_YEAR));
+  const couple = data.today.partnerStatus === "couple";
+  const hsaFamily = (options.hsaCoverage ?? (couple ? "family" : "self")) === "family";
+
+  const priorities: PriorityContributionCheck[] = (plan.priorities?.events ?? [])
+    .filter((p) => CHECKED_TYPES.includes(p.type))
+    .map((p) => {
+      const owner = p.owner === "spouse" ? "spouse" : "me";
+      const salary = p.incomeStreamId ? row.incomes?.[p.incomeStreamId] ?? 0 : 0;
+      if (p.incomeStreamId && !plan.income?.events?.some((e) => e.id === p.incomeStreamId)) {
+        warnings.push(`${p.name ?? p.id} links to a missing income stream: ${p.incomeStreamId}`);
+      }
+      const limitGroups = limitGroupsOf(p.type);
+      let { employee, employer } = priorityContribution(p, { salary, remaining: 0, inflationIndex: row.inflationIndex });
+      // "max" with US limits contributes the statutory maximum
+      if (p.desiredContribution === "max" && p.yearlyLimitType === "us" && limitGroups.length > 0) {
+        const age = owner === "spouse" ? row.spouseAge : row.age;
+        const { base, catchUp } = statutoryLimit(limitGroups[0], age, hsaFamily, scale);
+        employee = p.type === "mega-backdoor" ? 0 : base + catchUp;
+        if (p.type === "mega-backdoor") warnings.push(`${p.name ?? p.id}: "max" mega-backdoor contributions fill whatever the 415(c) limit leaves`);
+      }
+      return {
+        priorityId: p.id,
+        name: p.name ?? p.title ?? p.id,
+        type: p.type,
+        owner,
+        age: owner === "spouse" ? row.spouseAge : row.age,
+        salary: Math.round(salary),
+        employee: Math.round(employee),
+        employer: Math.round(employer),
+        dependsOnSurplus: p.desiredContribution === "%-remaining",
+        yearlyLimitType: p.yearlyLimitType ?? "none",
+        limitGroups,
+      };
+    });
+
+  const limits: LimitCheck[] = [];
+  const groups: LimitGroup[] = ["401k-deferral", "415c-additions", "ira", "hsa", "espp", "529-gift"];
+  for (const owner of couple ? (["me", "spouse"] as const) : (["me"] as const)) {
+    const age = owner === "spouse" ? row.spouseAge : row.age;
+    for (const group of groups) {
+      const members = priorities.filter((p) => p.owner === owner && p.limitGroups.includes(group));
+      if (members.length === 0) continue;
+      const contributions = members.reduce((sum, p) => {
+        if (group === "415c-additions") return sum + p.employee + p.employer;
+        // Employer HSA contributions count toward the HSA limit
+        if (group === "hsa") return sum + p.employee + p.employer;
+        return sum + p.employee;
+      }, 0);
+      const { base, catchUp } = statutoryLimit(group, age, hsaFamily, scale);
+      // Catch-up deferrals (those above the base deferral limit) sit outside 415(c)
+      const deferrals = members.filter((p) => p.type === "401k").reduce((sum, p) => sum + p.employee, 0);
+      const catchUpUsed = Math.min(catchUp, Math.max(0, deferrals - CONTRIBUTION_LIMITS.electiveDeferral * scale));
+      const counted = group === "415c-additions" ? contributions - catchUpUsed : contributions;
+      const limit = group === "415c-additions" ? base : base + catchUp;
+      const excess = Math.max(0, counted - limit);
+      const capped = members.some((p) => p.yearlyLimitType === "us");
+      let severity: LimitCheck["severity"] = "ok";
+      let message: string | undefined;
+      if (excess > 0 && group === "529-gift") {
+        severity = "info";
+        message = `529 contributions above the ${Math.round(limit)} annual gift tax exclusion need a gift tax return (or 5-year election); there is no federal contribution limit`;
+      } else if (excess > 0) {
+        severity = capped ? "error" : "warning";
+        message = capped
+          ? `${Math.round(excess)} over the limit; ProjectionLab caps these contributions at the limit, so the plan contributes less than entered`
+          : `${Math.round(excess)} over the statutory limit, and yearlyLimitType is not "us", so ProjectionLab will not cap it`;
+      }
+      limits.push({
+        group,
+        owner,
+        age,
+        priorityIds: members.map((p) => p.priorityId),
+        contributions: Math.round(counted),
+        limit: Math.round(limit),
+        catchUp: group === "415c-additions" ? 0 : Math.round(catchUp),
+        excess: Math.round(excess),
+        severity,
+        ...(message ? { message } : {}),
+      });
+    }
+
+    // Roth IRA eligibility phases out with income
+    const roth = priorities.filter((p) => p.owner === owner && p.type === "roth-ira" && p.employee > 0);
+    if (roth.length > 0) {
+      const joint = filingStatusOf(v) === "joint";
+      const [from, to] = CONTRIBUTION_LIMITS.rothPhaseOut[joint ? "joint" : "single"].map((n) => n * scale);
+      const magi = row.taxableIncome + row.capitalGains;
+      if (magi > from) {
+        warnings.push(
+          `Projected income of ${Math.round(magi)} in ${year} is ${magi >= to ? "above" : "inside"} the Roth IRA phase-out (${Math.round(from)}-${Math.round(to)}); ` +
+            `${roth.map((p) => p.name).join(", ")} may need to be a backdoor Roth contribution`
+        );
+      }
+    }
+  }
+  if (priorities.some((p) => p.dependsOnSurplus)) {
+    warnings.push('Priorities with desiredContribution "%-remaining" depend on each year\'s surplus and are counted as 0');
+  }
+
+  return { planId: plan.id, year, limitsYear: CONTRIBUTION_LIMITS_YEAR, priorities, limits, warnings };
+}
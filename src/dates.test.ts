@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseYear, createDateContext, resolveDateReference, eventWindow, isActiveInYear, lastActiveYear } from "./dates.js";
+import { ProjectionLabExport, Plan } from "./types.js";
+
+function context(milestones: Plan["milestones"] = []) {
+  const plan: Plan = { id: "p", name: "P", variables: { startYear: 2025, loopYear: 2070 }, milestones };
+  const data = { today: { age: 40 }, plans: [plan] } as unknown as ProjectionLabExport;
+  return createDateContext(data, plan);
+}
+
+test("parseYear reads the leading year of a date string", () => {
+  assert.equal(parseYear("2059-06-01"), 2059);
+  assert.equal(parseYear(2040.7), 2040);
+  assert.equal(parseYear("soon"), null);
+});
+
+test("keywords, years and offsets resolve against the plan", () => {
+  const ctx = context();
+  assert.equal(ctx.birthYear, 1985);
+  assert.equal(resolveDateReference({ type: "keyword", value: "now" }, ctx), 2025);
+  assert.equal(resolveDateReference({ type: "keyword", value: "endOfPlan" }, ctx), 2070);
+  assert.equal(resolveDateReference({ type: "year", value: "2040-01-01", modifier: 2 }, ctx), 2042);
+});
+
+test("milestones chain through other milestones", () => {
+  const ctx = context([
+    { id: "retire", name: "Retire", criteria: [{ type: "year", value: "2050-01-01" }] },
+    { id: "later", name: "Later", criteria: [{ type: "milestone", value: "retire" }, { type: "year", value: "2052-01-01", logic: "and" }] },
+    { id: "rich", name: "Rich", criteria: [{ type: "netWorth", value: 1000000 }] },
+  ]);
+  assert.equal(resolveDateReference({ type: "milestone", value: "retire", modifier: -1 }, ctx), 2049);
+  assert.equal(ctx.milestoneYears.get("later"), 2052);
+  // Balance criteria need a projection
+  assert.equal(ctx.milestoneYears.get("rich"), null);
+});
+
+test("events ending at a milestone stop the year before it", () => {
+  const ctx = context([{ id: "retire", name: "Retire", criteria: [{ type: "year", value: "2050-01-01" }] }]);
+  const w = eventWindow({ type: "keyword", value: "now" }, { type: "milestone", value: "retire" }, ctx);
+  assert.ok(isActiveInYear(w, 2049));
+  assert.ok(!isActiveInYear(w, 2050));
+  assert.equal(lastActiveYear(w, ctx), 2049);
+});
@@ -0,0 +1,229 @@
+/**
+ * Resolution of DateReference values into calendar years and ages.
+ *
+ * Shared by the projection engine and the resolve_dates tool so that
+ * "when does this happen?" has a single answer everywhere.
+ */
+
+import { ProjectionLabExport, Plan, DateReference, Milestone } from "./types.js";
+
+export interface DateContext {
+  startYear: number;
+  endYear: number;
+  birthYear?: number;
+  spouseBirthYear?: number;
+  // Resolved milestone years; null means the milestone is never reached
+  milestoneYears: Map<string, number | null>;
+}
+
+export interface ResolvedDate {
+  year: number | null;
+  age?: number;
+  spouseAge?: number;
+}
+
+// Active range of an event; end is Infinity for events that never end
+export interface EventWindow {
+  start: number | null;
+  end: number;
+  endInclusive: boolean;
+}
+
+export interface TimelineEntry {
+  kind: "income" | "expense" | "priority" | "asset";
+  id: string;
+  name: string;
+  startYear: number | null;
+  startAge?: number;
+  startSpouseAge?: number;
+  endYear: number | null;
+  endAge?: number;
+  endSpouseAge?: number;
+  lastActiveYear: number | null;
+  start: string;
+  end: string;
+}
+
+// Parse the leading 4-digit year out of a "2059" or "2059-01-01" string
+export function parseYear(value: unknown): number | null {
+  if (typeof value === "number") return Math.trunc(value);
+  if (typeof value !== "string") return null;
+  const match = value.match(/^(\d{4})/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+export function createDateContext(data: ProjectionLabExport, plan: Plan, warnings: string[] = []): DateContext {
+  const v = plan.variables ?? {};
+  const today = data.today;
+
+  const startYear = v.startYear ?? new Date().getFullYear();
+  let endYear = v.loopYear ?? startYear + 50;
+  if (v.loopYear === undefined) {
+    warnings.push(`Plan has no loopYear; assuming the plan ends in ${endYear}`);
+  }
+  if (endYear < startYear) endYear = startYear;
+
+  const birthYear = today.birthYear ?? (today.age !== undefined ? startYear - today.age : undefined);
+  const spouseBirthYear =
+    today.partnerStatus === "couple"
+      ? today.spouseBirthYear ?? (today.spouseAge !== undefined ? startYear - today.spouseAge : undefined)
+      : undefined;
+
+  const ctx: DateContext = { startYear, endYear, birthYear, spouseBirthYear, milestoneYears: new Map() };
+  ctx.milestoneYears = resolveStaticMilestones(plan, ctx, warnings);
+  return ctx;
+}
+
+// Resolve the calendar-based years of every milestone. Milestones whose criteria
+// depend on simulated balances cannot be resolved without a projection.
+function resolveStaticMilestones(plan: Plan, ctx: DateContext, warnings: string[]): Map<string, number | null> {
+  const all: Milestone[] = [...(plan.milestones ?? []), ...(plan.computedMilestones ?? [])];
+  const byId = new Map(all.map((m) => [m.id, m]));
+  const resolved = new Map<string, number | null>();
+
+  const settle = (id: string, year: number | null): number | null => {
+    resolved.set(id, year);
+    return year;
+  };
+
+  const resolve = (id: string, seen: Set<string>): number | null => {
+    if (resolved.has(id)) return resolved.get(id)!;
+    const milestone = byId.get(id);
+    if (!milestone) return null;
+    if (seen.has(id)) {
+      warnings.push(`Milestone "${milestone.name}" has a circular milestone reference`);
+      return null;
+    }
+    seen.add(id);
+
+    let year: number | null = null;
+    let first = true;
+    for (const c of milestone.criteria ?? []) {
+      let cYear: number | null = null;
+      if (c.type === "year" || c.type === "date") {
+        cYear = parseYear(c.value);
+        if (cYear !== null && c.modifier === "exclude") cYear += 1;
+      } else if (c.type === "milestone") {
+        cYear = resolve(String(c.refId ?? c.value), seen);
+        if (cYear === null) return settle(id, null);
+      } else {
+        // Financial criteria (netWorth, account, debt) need a projection; see milestones.ts
+        return settle(id, null);
+      }
+      if (first) {
+        year = cYear;
+        first = false;
+      } else if (c.logic === "or") {
+        year = year === null ? cYear : cYear === null ? year : Math.min(year, cYear);
+      } else {
+        year = year === null || cYear === null ? null : Math.max(year, cYear);
+      }
+    }
+    return settle(id, year);
+  };
+
+  for (const m of all) resolve(m.id, new Set());
+  return resolved;
+}
+
+// Convert a DateReference into a calendar year; null means "never"
+export function resolveDateReference(ref: DateReference | undefined, ctx: DateContext): number | null {
+  if (!ref) return null;
+  let year: number | null = null;
+  switch (ref.type) {
+    case "keyword":
+      if (ref.value === "now") year = ctx.startYear;
+      else if (ref.value === "endOfPlan") year = ctx.endYear;
+      else if (ref.value === "beforeCurrentYear") year = ctx.startYear - 1;
+      break;
+    case "year":
+    case "date":
+      year = parseYear(ref.value);
+      break;
+    case "milestone":
+      year = ctx.milestoneYears.get(ref.value) ?? null;
+      break;
+  }
+  if (year !== null && typeof ref.modifier === "number") year += ref.modifier;
+  return year;
+}
+
+export function resolveDate(ref: DateReference | undefined, ctx: DateContext): ResolvedDate {
+  const year = resolveDateReference(ref, ctx);
+  return withAges(year, ctx);
+}
+
+export function withAges(year: number | null, ctx: DateContext): ResolvedDate {
+  if (year === null) return { year };
+  return {
+    year,
+    age: ctx.birthYear === undefined ? undefined : year - ctx.birthYear,
+    spouseAge: ctx.spouseBirthYear === undefined ? undefined : year - ctx.spouseBirthYear,
+  };
+}
+
+// Start is inclusive unless excluded. Milestone ends are exclusive by default
+// (a salary ending at retirement stops that year); other ends are inclusive.
+export function eventWindow(start: DateReference | undefined, end: DateReference | undefined, ctx: DateContext): EventWindow {
+  let s = start ? resolveDateReference(start, ctx) : ctx.startYear;
+  if (s !== null && start?.modifier === "exclude") s += 1;
+  const e = end ? resolveDateReference(end, ctx) : ctx.endYear;
+  const endInclusive = end?.modifier === "include" || (end?.type !== "milestone" && end?.modifier !== "exclude");
+  return { start: s, end: e ?? Number.POSITIVE_INFINITY, endInclusive };
+}
+
+export function isActiveInYear(w: EventWindow, year: number): boolean {
+  if (w.start === null || year < w.start) return false;
+  return w.endInclusive ? year <= w.end : year < w.end;
+}
+
+// Last year an event is active within the plan, or null if it never is
+export function lastActiveYear(w: EventWindow, ctx: DateContext): number | null {
+  if (w.start === null || w.start > ctx.endYear) return null;
+  const last = Math.min(ctx.endYear, w.endInclusive ? w.end : w.end - 1);
+  return last < w.start ? null : last;
+}
+
+// Human-readable form of a DateReference, e.g. "milestone:retirement+2"
+export function describeDateReference(ref: DateReference | undefined): string {
+  if (!ref) return "default";
+  const modifier = typeof ref.modifier === "number"
+    ? (ref.modifier >= 0 ? `+${ref.modifier}` : `${ref.modifier}`)
+    : ref.modifier ? ` (${ref.modifier})` : "";
+  return `${ref.type}:${ref.value}${modifier}`;
+}
+
+// Start/end timeline for every income, expense, priority and plan asset
+export function buildTimeline(plan: Plan, ctx: DateContext): TimelineEntry[] {
+  const entries: TimelineEntry[] = [];
+  const add = (
+    kind: TimelineEntry["kind"],
+    e: { id?: string; name?: string; title?: string; start?: DateReference; end?: DateReference }
+  ) => {
+    const w = eventWindow(e.start, e.end, ctx);
+    const start = withAges(w.start, ctx);
+    const end = withAges(Number.isFinite(w.end) ? w.end : null, ctx);
+    entries.push({
+      kind,
+      id: e.id ?? "",
+      name: e.name ?? e.title ?? e.id ?? "",
+      startYear: start.year,
+      startAge: start.age,
+      startSpouseAge: start.spouseAge,
+      endYear: end.year,
+      endAge: end.age,
+      endSpouseAge: end.spouseAge,
+      lastActiveYear: lastActiveYear(w, ctx),
+      start: describeDateReference(e.start),
+      end: describeDateReference(e.end),
+    });
+  };
+
+  for (const e of plan.income?.events ?? []) add("income", e);
+  for (const e of plan.expenses?.events ?? []) add("expense", e);
+  for (const p of plan.priorities?.events ?? []) add("priority", p);
+  for (const a of plan.assets?.events ?? []) {
+    add("asset", a as { id?: string; name?: string; start?: DateReference; end?: DateReference });
+  }
+  return entries;
+}
@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { loanSchedule, planDebtPayoff } from "./debts.js";
+import { ProjectionLabExport, Plan } from "./types.js";
+
+const start = new Date(Date.UTC(2025, 0, 1));
+
+test("a 30-year mortgage at its level payment is paid off in 360 payments", () => {
+  const r = 0.06 / 12;
+  const payment = (100000 * r) / (1 - Math.pow(1 + r, -360));
+  const schedule = loanSchedule({ amount: 100000, payment, interestRate: 6, start });
+  assert.equal(schedule.payments, 360);
+  assert.equal(schedule.payoffDate, "2055-01-01");
+  assert.deepEqual(schedule.schedule[0], { period: 1, date: "2025-02-01", payment: 599.55, interest: 500, principal: 99.55, balance: 99900.45 });
+  assert.ok(Math.abs(schedule.totalInterest - 115838) < 2);
+  assert.equal(schedule.yearly[0].year, 2025);
+});
+
+test("a payment below the interest never shrinks the balance", () => {
+  const schedule = loanSchedule({ amount: 100000, payment: 400, interestRate: 6, start });
+  assert.equal(schedule.payoffDate, null);
+  assert.match(schedule.warnings[0], /does not cover the 500 of interest/);
+});
+
+test("forgiveness stops the schedule and reports the forgiven balance", () => {
+  const schedule = loanSchedule({ amount: 1200, payment: 100, start, forgiveAt: new Date(Date.UTC(2025, 6, 1)) });
+  assert.deepEqual(schedule.forgiven, { date: "2025-07-01", amount: 700 });
+  assert.equal(schedule.payoffDate, null);
+});
+
+test("avalanche pays the expensive card first and snowball the small loan", () => {
+  const plan: Plan = { id: "p1", name: "Test", variables: { startYear: 2025, loopYear: 2060 } };
+  const data = {
+    today: {
+      age: 40,
+      debts: [
+        { id: "card", name: "Card", amount: 8000, interestRate: 20, monthlyPayment: 200 },
+        { id: "loan", name: "Loan", amount: 3000, interestRate: 5, monthlyPayment: 100 },
+      ],
+    },
+    plans: [plan],
+  } as unknown as ProjectionLabExport;
+
+  const payoff = planDebtPayoff(data, plan, { extraPayment: 300 });
+  const [avalanche, snowball] = payoff.strategies;
+  assert.deepEqual(avalanche.order, ["card", "loan"]);
+  assert.deepEqual(snowball.order, ["loan", "card"]);
+  assert.equal(payoff.recommended, "avalanche");
+  assert.ok(avalanche.totalInterest < snowball.totalInterest);
+  assert.ok(snowball.totalInterest < payoff.minimumOnly.totalInterest);
+  assert.equal(avalanche.interestSaved, payoff.minimumOnly.totalInterest - avalanche.totalInterest);
+  // The card's freed-up 500 rolls over to the loan
+  assert.equal(avalanche.debts.find((d) => d.debtId === "loan")!.monthlyExtra, 500);
+});
+
+test("allocations are checked against the debts and the budget", () => {
+  const plan: Plan = { id: "p1", name: "Test", variables: { startYear: 2025 } };
+  const data = { today: { debts: [{ id: "card", amount: 1000, interestRate: 10, monthlyPayment: 50 }] }, plans: [plan] } as unknown as ProjectionLabExport;
+  assert.throws(() => planDebtPayoff(data, plan, { allocations: [{ debtId: "nope", amount: 10 }] }), /Debt not found/);
+  assert.throws(() => planDebtPayoff(data, plan, { extraPayment: 10, allocations: [{ debtId: "card", amount: 20 }] }), /more than the extraPayment/);
+});
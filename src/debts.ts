@@ -0,0 +1,560 @@
+/**
+ * Debt amortization and payoff planning.
+ *
+ * Schedules follow each debt's own terms: payments of `monthlyPayment` every
+ * `frequency` period, interest compounded per `compounding` (or accrued on the
+ * principal only for simple-interest loans), and any remaining balance forgiven
+ * at `forgiveAt`. The payoff planner steps all of today's debts month by month
+ * and points an extra monthly budget at them in avalanche, snowball or custom order.
+ */
+
+import { ProjectionLabExport, Plan, Debt, DateReference } from "./types.js";
+import { annualMultiplier } from "./projection.js";
+import { createDateContext, resolveDateReference, DateContext } from "./dates.js";
+
+export interface AmortizationPayment {
+  period: number;
+  date: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number;
+}
+
+export interface AmortizationYear {
+  year: number;
+  payments: number;
+  interest: number;
+  principal: number;
+  endingBalance: number;
+}
+
+export interface Amortization {
+  debtId: string;
+  name: string;
+  balance: number;
+  interestRate: number;
+  interestType: "simple" | "compound";
+  compounding: "daily" | "monthly" | "yearly";
+  frequency: string;
+  payment: number;
+  extraPayment: number;
+  startDate: string;
+  // null when the payment never retires the balance
+  payoffDate: string | null;
+  payments: number;
+  totalPaid: number;
+  totalInterest: number;
+  forgiven: { date: string; amount: number } | null;
+  yearly: AmortizationYear[];
+  schedule?: AmortizationPayment[];
+  warnings: string[];
+}
+
+export interface InterestTerms {
+  interestRate?: number;
+  interestType?: "simple" | "compound";
+  compounding?: "daily" | "monthly" | "yearly";
+}
+
+export interface LoanTerms extends InterestTerms {
+  amount: number;
+  // Paid every `frequency` period (default: monthly)
+  payment: number;
+  frequency?: string;
+  start: Date;
+  forgiveAt?: Date | null;
+}
+
+export interface LoanSchedule {
+  payoffDate: string | null;
+  payments: number;
+  totalPaid: number;
+  totalInterest: number;
+  forgiven: { date: string; amount: number } | null;
+  yearly: AmortizationYear[];
+  schedule: AmortizationPayment[];
+  warnings: string[];
+}
+
+export interface AmortizationOptions {
+  // Added to every scheduled payment
+  extraPayment?: number;
+  includeSchedule?: boolean;
+}
+
+export type PayoffStrategy = "avalanche" | "snowball" | "custom";
+
+export const PAYOFF_STRATEGIES: PayoffStrategy[] = ["avalanche", "snowball", "custom"];
+
+export interface PayoffAllocation {
+  debtId: string;
+  // Monthly extra payment for this debt
+  amount: number;
+}
+
+export interface PayoffOptions {
+  // Monthly budget on top of the minimum payments
+  extraPayment?: number;
+  // Fixed monthly extra per debt for the custom strategy; its order is also the rollover order
+  allocations?: PayoffAllocation[];
+  // Put payments freed by paid-off debts toward the next debt (default: true)
+  rollover?: boolean;
+}
+
+export interface PayoffDebtResult {
+  debtId: string;
+  name: string;
+  // First month the debt receives extra payments
+  focusStart: string | null;
+  // Largest monthly extra it receives
+  monthlyExtra: number;
+  // Runs of calendar years with the same monthly extra (toYear null: until paid off)
+  phases: PayoffPhase[];
+  payoffDate: string | null;
+  interestPaid: number;
+}
+
+export interface PayoffPhase {
+  fromYear: number;
+  toYear: number | null;
+  monthlyExtra: number;
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy | "minimum";
+  order: string[];
+  debtFreeDate: string | null;
+  months: number | null;
+  totalPaid: number;
+  totalInterest: number;
+  interestSaved: number;
+  monthsSaved: number | null;
+  debts: PayoffDebtResult[];
+}
+
+export interface PayoffComparison {
+  startDate: string;
+  extraPayment: number;
+  rollover: boolean;
+  minimumOnly: PayoffPlan;
+  strategies: PayoffPlan[];
+  recommended: PayoffStrategy;
+  warnings: string[];
+}
+
+// Nothing is scheduled past 100 years
+const MAX_MONTHS = 1200;
+const DAYS_PER_PERIOD: Record<string, number> = { "bi-weekly": 14, weekly: 7 };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function isoDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function monthLabel(start: Date, month: number): string {
+  return isoDate(new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + month, 1))).slice(0, 7);
+}
+
+// First day of the month a debt starts in. "now" is the current month when the plan starts this year.
+export function startDateOf(ref: DateReference | undefined, ctx: DateContext): Date {
+  if (ref?.type === "date" && typeof ref.modifier !== "number") {
+    const match = ref.value.match(/^(\d{4})-(\d{2})/);
+    if (match) return new Date(Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1, 1));
+  }
+  const year = resolveDateReference(ref, ctx) ?? ctx.startYear;
+  const now = new Date();
+  const month = year === now.getFullYear() && (!ref || ref.type === "keyword") ? now.getMonth() : 0;
+  return new Date(Date.UTC(year, month, 1));
+}
+
+function forgiveDateOf(debt: Debt, ctx: DateContext): Date | null {
+  if (!debt.hasForgiveness || !debt.forgiveAt) return null;
+  if (debt.forgiveAt.type === "date" && typeof debt.forgiveAt.modifier !== "number") {
+    const parsed = new Date(`${debt.forgiveAt.value.slice(0, 10)}T00:00:00Z`);
+    if (!isNaN(parsed.getTime())) return parsed;
+  }
+  const year = resolveDateReference(debt.forgiveAt, ctx);
+  return year === null ? null : new Date(Date.UTC(year, 0, 1));
+}
+
+function paymentDate(start: Date, period: number, frequency: string): Date {
+  const days = DAYS_PER_PERIOD[frequency];
+  if (days !== undefined) return new Date(start.getTime() + period * days * 86400000);
+  const months = 12 / annualMultiplier(frequency);
+  return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + period * months, 1));
+}
+
+// Interest rate per payment period, from the annual rate and compounding
+function periodicRate(terms: InterestTerms, periodsPerYear: number): number {
+  const r = (terms.interestRate ?? 0) / 100;
+  if (terms.interestType === "simple") return r / periodsPerYear;
+  let effective: number;
+  switch (terms.compounding ?? "monthly") {
+    case "daily":
+      effective = Math.pow(1 + r / 365, 365);
+      break;
+    case "yearly":
+      effective = 1 + r;
+      break;
+    default:
+      effective = Math.pow(1 + r / 12, 12);
+  }
+  return Math.pow(effective, 1 / periodsPerYear) - 1;
+}
+
+// Balance of a loan between payments. Payments settle accrued interest before
+// principal; simple-interest loans never charge interest on unpaid interest.
+interface LoanBalance {
+  principal: number;
+  accrued: number;
+  rate: number;
+  simple: boolean;
+}
+
+function openLoan(amount: number, terms: InterestTerms, periodsPerYear: number): LoanBalance {
+  return { principal: amount, accrued: 0, rate: periodicRate(terms, periodsPerYear), simple: terms.interestType === "simple" };
+}
+
+function owed(loan: LoanBalance): number {
+  return loan.principal + loan.accrued;
+}
+
+function accrue(loan: LoanBalance): number {
+  const interest = loan.principal * loan.rate;
+  loan.accrued += interest;
+  return interest;
+}
+
+function pay(loan: LoanBalance, amount: number): { paid: number; principal: number } {
+  const paid = Math.min(amount, owed(loan));
+  const toInterest = Math.min(loan.accrued, paid);
+  const toPrincipal = paid - toInterest;
+  loan.accrued -= toInterest;
+  loan.principal -= toPrincipal;
+  if (!loan.simple) {
+    // Unpaid interest compounds
+    loan.principal += loan.accrued;
+    loan.accrued = 0;
+  }
+  if (owed(loan) < 0.005) {
+    loan.principal = 0;
+    loan.accrued = 0;
+  }
+  return { paid, principal: toPrincipal };
+}
+
+export function findDebt(data: ProjectionLabExport, debtId: string): Debt {
+  const debt = data.today.debts?.find((d) => d.id === debtId);
+  if (!debt) throw new Error(`Debt not found: ${debtId}`);
+  return debt;
+}
+
+// Payment-by-payment schedule of a loan from its terms
+export function loanSchedule(terms: LoanTerms): LoanSchedule {
+  const warnings: string[] = [];
+  const frequency = terms.frequency ?? "monthly";
+  const periodsPerYear = annualMultiplier(frequency);
+  const { payment, start } = terms;
+  const forgiveAt = terms.forgiveAt ?? null;
+  const loan = openLoan(terms.amount, terms, periodsPerYear);
+
+  const schedule: AmortizationPayment[] = [];
+  const yearly = new Map<number, AmortizationYear>();
+  let totalPaid = 0;
+  let totalInterest = 0;
+  let forgiven: LoanSchedule["forgiven"] = null;
+  let payoffDate: string | null = null;
+
+  const maxPeriods = Math.ceil((MAX_MONTHS / 12) * periodsPerYear);
+  for (let period = 1; period <= maxPeriods && owed(loan) > 0; period++) {
+    const date = paymentDate(start, period, frequency);
+    if (forgiveAt && date >= forgiveAt) {
+      forgiven = { date: isoDate(forgiveAt), amount: round2(owed(loan)) };
+      break;
+    }
+    const interest = accrue(loan);
+    if (period === 1 && payment <= interest) {
+      warnings.push(`The payment of ${payment} does not cover the ${round2(interest)} of interest charged each period; the balance never shrinks`);
+      break;
+    }
+    const { paid, principal } = pay(loan, payment);
+    totalPaid += paid;
+    totalInterest += interest;
+    const row = {
+      period,
+      date: isoDate(date),
+      payment: round2(paid),
+      interest: round2(interest),
+      principal: round2(principal),
+      balance: round2(owed(loan)),
+    };
+    schedule.push(row);
+
+    const year = date.getUTCFullYear();
+    const y = yearly.get(year) ?? { year, payments: 0, interest: 0, principal: 0, endingBalance: 0 };
+    y.payments = round2(y.payments + paid);
+    y.interest = round2(y.interest + interest);
+    y.principal = round2(y.principal + principal);
+    y.endingBalance = row.balance;
+    yearly.set(year, y);
+
+    if (owed(loan) === 0) payoffDate = row.date;
+  }
+  if (!payoffDate && !forgiven && schedule.length === maxPeriods) {
+    warnings.push(`Not paid off within ${MAX_MONTHS / 12} years`);
+  }
+
+  return {
+    payoffDate,
+    payments: schedule.length,
+    totalPaid: round2(totalPaid),
+    totalInterest: round2(totalInterest),
+    forgiven,
+    yearly: [...yearly.values()],
+    schedule,
+    warnings,
+  };
+}
+
+export function amortize(data: ProjectionLabExport, plan: Plan, debt: Debt, options: AmortizationOptions = {}): Amortization {
+  const warnings: string[] = [];
+  const ctx = createDateContext(data, plan);
+  const extra = options.extraPayment ?? 0;
+  if (extra < 0) throw new Error("extraPayment cannot be negative");
+  const start = startDateOf(debt.start, ctx);
+  const forgiveAt = forgiveDateOf(debt, ctx);
+  if (debt.hasForgiveness && !forgiveAt) warnings.push("hasForgiveness is set but forgiveAt does not resolve to a date; forgiveness ignored");
+  if (debt.monthlyPaymentType === "today$" || debt.yearlyChange) {
+    warnings.push("Payments are scheduled at a fixed nominal amount; monthlyPaymentType today$ and yearlyChange are not applied");
+  }
+  const { schedule, ...result } = loanSchedule({
+    ...debt,
+    payment: (debt.monthlyPayment ?? 0) + extra,
+    start,
+    forgiveAt,
+  });
+
+  return {
+    debtId: debt.id,
+    name: debt.name ?? debt.title ?? debt.id,
+    balance: debt.amount,
+    interestRate: debt.interestRate ?? 0,
+    interestType: debt.interestType ?? "compound",
+    compounding: debt.compounding ?? "monthly",
+    frequency: debt.frequency ?? "monthly",
+    payment: debt.monthlyPayment ?? 0,
+    extraPayment: extra,
+    startDate: isoDate(start),
+    ...result,
+    ...(options.includeSchedule === false ? {} : { schedule }),
+    warnings: [...warnings, ...result.warnings],
+  };
+}
+
+interface PayoffDebt {
+  debt: Debt;
+  name: string;
+  loan: LoanBalance;
+  // Monthly equivalent of the scheduled payment
+  minimum: number;
+  // Month index from which the debt is forgiven
+  forgiveMonth: number | null;
+  interestPaid: number;
+  payoffMonth: number | null;
+  focusStart: number | null;
+  monthlyExtra: number;
+  // Largest monthly extra in each calendar year, leaving out the final partial payment
+  extraByYear: Map<number, number>;
+}
+
+function simulatePayoff(
+  debts: Debt[],
+  ctx: DateContext,
+  start: Date,
+  order: string[],
+  budget: { extra: number; allocations: Map<string, number>; rollover: boolean }
+): { months: number | null; totalPaid: number; totalInterest: number; debts: PayoffDebt[] } {
+  const state: PayoffDebt[] = debts.map((d) => {
+    const forgiveAt = forgiveDateOf(d, ctx);
+    return {
+      debt: d,
+      name: d.name ?? d.title ?? d.id,
+      loan: openLoan(d.amount, d, 12),
+      minimum: ((d.monthlyPayment ?? 0) * annualMultiplier(d.frequency ?? "monthly")) / 12,
+      forgiveMonth: forgiveAt
+        ? (forgiveAt.getUTCFullYear() - start.getUTCFullYear()) * 12 + forgiveAt.getUTCMonth() - start.getUTCMonth()
+        : null,
+      interestPaid: 0,
+      payoffMonth: null,
+      focusStart: null,
+      monthlyExtra: 0,
+      extraByYear: new Map(),
+    };
+  });
+  const byId = new Map(state.map((s) => [s.debt.id, s]));
+  const ordered = order.map((id) => byId.get(id)!);
+  let totalPaid = 0;
+  let totalInterest = 0;
+
+  const close = (s: PayoffDebt, month: number) => {
+    if (s.payoffMonth === null) s.payoffMonth = month;
+  };
+
+  let month = 0;
+  for (month = 1; month <= MAX_MONTHS && state.some((s) => s.payoffMonth === null); month++) {
+    let pool = budget.extra - [...budget.allocations.values()].reduce((sum, a) => sum + a, 0);
+    const given = new Map<PayoffDebt, number>();
+    const give = (s: PayoffDebt, amount: number) => {
+      const { paid } = pay(s.loan, amount);
+      totalPaid += paid;
+      if (paid > 0) given.set(s, (given.get(s) ?? 0) + paid);
+      if (owed(s.loan) === 0) close(s, month);
+      return paid;
+    };
+
+    for (const s of state) {
+      if (s.payoffMonth !== null) {
+        if (budget.rollover) pool += s.minimum + (budget.allocations.get(s.debt.id) ?? 0);
+        continue;
+      }
+      if (s.forgiveMonth !== null && month > s.forgiveMonth) {
+        close(s, month);
+        pay(s.loan, owed(s.loan));
+        continue;
+      }
+      const interest = accrue(s.loan);
+      s.interestPaid += interest;
+      totalInterest += interest;
+    }
+    for (const s of state) {
+      if (s.payoffMonth !== null) continue;
+      const paid = pay(s.loan, s.minimum).paid;
+      totalPaid += paid;
+      if (owed(s.loan) === 0) close(s, month);
+      if (budget.rollover) pool += s.minimum - paid;
+    }
+    for (const [id, amount] of budget.allocations) {
+      const s = byId.get(id)!;
+      if (s.payoffMonth !== null) {
+        if (s.payoffMonth === month && budget.rollover) pool += amount;
+        continue;
+      }
+      const paid = give(s, amount);
+      if (budget.rollover) pool += amount - paid;
+    }
+    for (const s of ordered) {
+      if (pool <= 0.005) break;
+      if (s.payoffMonth !== null) continue;
+      pool -= give(s, pool);
+    }
+    for (const [s, amount] of given) {
+      if (s.focusStart === null) s.focusStart = month;
+      s.monthlyExtra = Math.max(s.monthlyExtra, amount);
+      if (s.payoffMonth !== month) {
+        const year = start.getUTCFullYear() + Math.floor((start.getUTCMonth() + month - 1) / 12);
+        s.extraByYear.set(year, Math.max(s.extraByYear.get(year) ?? 0, amount));
+      }
+    }
+  }
+  const months = state.every((s) => s.payoffMonth !== null) ? Math.max(...state.map((s) => s.payoffMonth!)) : null;
+  return { months, totalPaid, totalInterest, debts: state };
+}
+
+function phasesOf(extraByYear: Map<number, number>): PayoffPhase[] {
+  const phases: PayoffPhase[] = [];
+  for (const [year, extra] of [...extraByYear].sort((a, b) => a[0] - b[0])) {
+    const amount = Math.round(extra);
+    const last = phases[phases.length - 1];
+    if (last && last.monthlyExtra === amount && last.toYear === year - 1) {
+      last.toYear = year;
+      continue;
+    }
+    phases.push({ fromYear: year, toYear: year, monthlyExtra: amount });
+  }
+  if (phases.length > 0) phases[phases.length - 1].toYear = null;
+  return phases;
+}
+
+export function planDebtPayoff(data: ProjectionLabExport, plan: Plan, options: PayoffOptions = {}): PayoffComparison {
+  const debts = (data.today.debts ?? []).filter((d) => d.amount > 0);
+  if (debts.length === 0) throw new Error("There are no debts with a balance to pay off");
+  const warnings: string[] = [];
+  const ctx = createDateContext(data, plan);
+  const start = startDateOf(undefined, ctx);
+  const rollover = options.rollover ?? true;
+
+  const allocations = new Map<string, number>();
+  for (const a of options.allocations ?? []) {
+    if (!debts.some((d) => d.id === a.debtId)) throw new Error(`Debt not found (or already paid off): ${a.debtId}`);
+    if (typeof a.amount !== "number" || a.amount < 0) throw new Error(`allocations amount for ${a.debtId} must be a non-negative number`);
+    allocations.set(a.debtId, (allocations.get(a.debtId) ?? 0) + a.amount);
+  }
+  const allocated = [...allocations.values()].reduce((sum, a) => sum + a, 0);
+  const extra = options.extraPayment ?? allocated;
+  if (extra < 0) throw new Error("extraPayment cannot be negative");
+  if (allocated > extra) throw new Error(`allocations add up to ${allocated}, more than the extraPayment of ${extra}`);
+
+  for (const d of debts) {
+    const minimum = ((d.monthlyPayment ?? 0) * annualMultiplier(d.frequency ?? "monthly")) / 12;
+    if (minimum <= d.amount * periodicRate(d, 12)) {
+      warnings.push(`The payment on ${d.name ?? d.id} does not cover its interest; it only shrinks with extra payments`);
+    }
+  }
+
+  const rate = (d: Debt) => d.interestRate ?? 0;
+  const avalanche = [...debts].sort((a, b) => rate(b) - rate(a) || a.amount - b.amount).map((d) => d.id);
+  const snowball = [...debts].sort((a, b) => a.amount - b.amount || rate(b) - rate(a)).map((d) => d.id);
+  const custom = [...allocations.keys(), ...avalanche.filter((id) => !allocations.has(id))];
+
+  const label = (month: number | null) => (month === null ? null : monthLabel(start, month - 1));
+  const run = (strategy: PayoffPlan["strategy"], order: string[], budget: { extra: number; allocations: Map<string, number> }) => {
+    const result = simulatePayoff(debts, ctx, start, order, { ...budget, rollover: strategy !== "minimum" && rollover });
+    return {
+      strategy,
+      order,
+      debtFreeDate: label(result.months),
+      months: result.months,
+      totalPaid: Math.round(result.totalPaid),
+      totalInterest: Math.round(result.totalInterest),
+      interestSaved: 0,
+      monthsSaved: null,
+      debts: result.debts.map((s) => ({
+        debtId: s.debt.id,
+        name: s.name,
+        focusStart: label(s.focusStart),
+        monthlyExtra: round2(s.monthlyExtra),
+        phases: phasesOf(s.extraByYear),
+        payoffDate: label(s.payoffMonth),
+        interestPaid: Math.round(s.interestPaid),
+      })),
+    } as PayoffPlan;
+  };
+
+  const minimumOnly = run("minimum", avalanche, { extra: 0, allocations: new Map() });
+  const strategies = [
+    run("avalanche", avalanche, { extra, allocations: new Map() }),
+    run("snowball", snowball, { extra, allocations: new Map() }),
+  ];
+  if (allocations.size > 0) strategies.push(run("custom", custom, { extra, allocations }));
+  for (const s of strategies) {
+    s.interestSaved = minimumOnly.totalInterest - s.totalInterest;
+    s.monthsSaved = s.months !== null && minimumOnly.months !== null ? minimumOnly.months - s.months : null;
+  }
+  if (extra === 0) warnings.push("No extraPayment given; every strategy pays only the minimums");
+  if (minimumOnly.months === null) warnings.push(`Minimum payments alone do not pay off every debt within ${MAX_MONTHS / 12} years`);
+
+  const best = strategies.reduce((a, b) =>
+    b.totalInterest < a.totalInterest || (b.totalInterest === a.totalInterest && (b.months ?? Infinity) < (a.months ?? Infinity)) ? b : a
+  );
+  return {
+    startDate: isoDate(start),
+    extraPayment: extra,
+    rollover,
+    minimumOnly,
+    strategies,
+    recommended: best.strategy as PayoffStrategy,
+    warnings,
+  };
+}
@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { writeFileAtomic } from "./files.js";
+
+test("writeFileAtomic replaces the file, keeps its mode and leaves no temp file", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "pl-files-"));
+  try {
+    const file = path.join(dir, "export.json");
+    await fs.writeFile(file, "old");
+    await fs.chmod(file, 0o600);
+    await writeFileAtomic(file, "new");
+    assert.equal(await fs.readFile(file, "utf-8"), "new");
+    assert.equal((await fs.stat(file)).mode & 0o777, 0o600);
+    assert.deepEqual(await fs.readdir(dir), ["export.json"]);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("writeFileAtomic cleans up when the target cannot be replaced", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "pl-files-"));
+  try {
+    // Renaming a file over a directory fails
+    const target = path.join(dir, "export.json");
+    await fs.mkdir(target);
+    await assert.rejects(writeFileAtomic(target, "new"));
+    assert.deepEqual(await fs.readdir(dir), ["export.json"]);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,29 @@
+/**
+ * File helpers shared by the export, journal and backup writers.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { randomBytes } from "crypto";
+
+// Write to a temporary file in the same directory and rename it over the target,
+// so readers (and ProjectionLab re-imports) never see a half-written file
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`
+  );
+  try {
+    await fs.writeFile(tempPath, content, "utf-8");
+    try {
+      const { mode } = await fs.stat(filePath);
+      await fs.chmod(tempPath, mode);
+    } catch {
+      // New file; keep the default mode
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -30,10 +30,72 @@ import {
   WithdrawalStrategy,
   MonteCarloSettings,
 } from "./types.js";
+import { runProjection, toTodayDollars } from "./projection.js";
+import { runMonteCarlo } from "./montecarlo.js";
+import { backtestPlan } from "./backtest.js";
+import { checkContributions } from "./contributions.js";
+import { explainCashFlow } from "./cashflow.js";
+import { comparePlans } from "./plan-diff.js";
+import { compareScenarios } from "./scenarios.js";
+import { SENSITIVITY_INPUTS, SENSITIVITY_METRICS, SensitivityInput, SensitivityMetric, analyzeSensitivity } from "./sensitivity.js";
+import { SOLVE_TARGETS, SOLVE_VARIABLES, SolveTargetKind, SolveVariableKind, applySolveValue, solveFor } from "./solver.js";
+import { optimizeRothConversions } from "./roth.js";
+import { rmdSchedule } from "./rmd.js";
+import { RENTAL_FIELDS, analyzeAsset, applyRentalSettings, findPlanAsset, rentalReport } from "./assets.js";
+import { PAYOFF_STRATEGIES, PayoffAllocation, PayoffStrategy, amortize, findDebt, planDebtPayoff } from "./debts.js";
+import {
+  STRATEGIES,
+  STRATEGY_PARAMETERS,
+  StrategyName,
+  WithdrawalSimulationOptions,
+  isStrategyName,
+  simulateWithdrawals,
+  validateStrategyParameters,
+} from "./withdrawals.js";
+import { EarningsRecord, EARLIEST_CLAIMING_AGE, LATEST_CLAIMING_AGE, estimateSocialSecurity } from "./social-security.js";
+import { estimateTaxes } from "./taxes.js";
+import { createDateContext, resolveDate, buildTimeline } from "./dates.js";
+import { describeCriteria } from "./milestones.js";
+import {
+  Journal,
+  loadJournal,
+  saveJournal,
+  hashContent,
+  recordChange,
+  undoChanges,
+  redoChanges,
+  summarizeEntry,
+} from "./journal.js";
+import { diffJson, applyPatch, clone, PatchOperation } from "./json-patch.js";
+import { writeFileAtomic } from "./files.js";
+import {
+  lintReferences,
+  Severity,
+  EntityKind,
+  DeleteMode,
+  referencesTo,
+  previewImpact,
+  repairReferences,
+} from "./references.js";
+import { SchemaViolation, validateExport, newViolations, formatViolations } from "./validation.js";
+import { BackupSettings, backupSettings, createBackup, listBackups, readBackup } from "./backups.js";
 
 // Global state
 let dataFilePath: string | null = null;
 let data: ProjectionLabExport | null = null;
+// Contents last read from or written to disk, used to compute journal patches
+// and to detect changes made to the file outside the server
+let savedContent: string | null = null;
+let savedMtimeMs: number | null = null;
+// Schema violations already present in the saved file; saves may not add new ones
+let savedViolations: SchemaViolation[] = [];
+let journal: Journal | null = null;
+let backups: BackupSettings | null = null;
+// Tool call currently being handled, recorded in the change journal
+let currentCall: { tool: string; args: Record<string, unknown> } | null = null;
+// Tool calls whose save was refused because the file changed on disk, oldest first;
+// reload_data_file with keepChanges replays them as separate journal entries
+let unsavedCalls: Array<{ tool: string; args: Record<string, unknown>; patch: PatchOperation[] }> = [];
 
 async function loadData(): Promise<ProjectionLabExport> {
   if (!dataFilePath) {
@@ -41,16 +103,97 @@ async function loadData(): Promise<ProjectionLabExport> {
   }
   const content = await fs.readFile(dataFilePath, "utf-8");
   data = JSON.parse(content) as ProjectionLabExport;
+  savedContent = content;
+  savedMtimeMs = (await fs.stat(dataFilePath)).mtimeMs;
+  savedViolations = await validateExport(data);
+  journal = await loadJournal(dataFilePath, content);
+  unsavedCalls = [];
   return data;
 }
 
-async function saveData(): Promise<void> {
+// The saved document with the refused calls' changes applied, i.e. `data` as of the last refused save
+function unsavedBase(): ProjectionLabExport {
+  let doc = JSON.parse(savedContent!) as ProjectionLabExport;
+  for (const c of unsavedCalls) doc = applyPatch(doc, c.patch);
+  return doc;
+}
+
+function unsavedPatch(before: unknown, after: unknown): PatchOperation[] {
+  return diffJson(before, after).filter((op) => op.path !== "/meta/lastUpdated");
+}
+
+// Throw if the data file was modified on disk (e.g., re-exported from ProjectionLab)
+// since it was last loaded or written, so a save does not clobber the new contents
+async function assertUnchangedOnDisk(): Promise<void> {
+  if (!dataFilePath || savedContent === null) return;
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.stat(dataFilePath)).mtimeMs;
+  } catch {
+    // Deleted or moved away; writing recreates it without losing anything
+    return;
+  }
+  if (mtimeMs === savedMtimeMs) return;
+
+  // Touched but not necessarily changed
+  const content = await fs.readFile(dataFilePath, "utf-8");
+  if (hashContent(content) === hashContent(savedContent)) {
+    savedMtimeMs = mtimeMs;
+    return;
+  }
+  throw new Error(
+    `${dataFilePath} was changed outside the server since it was loaded; refusing to overwrite it. ` +
+      "Use reload_data_file to load the new contents (with keepChanges to re-apply unsaved changes on top)."
+  );
+}
+
+// Write the in-memory data to disk without recording a journal entry
+async function writeData(): Promise<void> {
   if (!dataFilePath || !data) {
     throw new Error("No data loaded to save.");
   }
   // Update lastUpdated timestamp
   data.meta.lastUpdated = Date.now();
-  await fs.writeFile(dataFilePath, JSON.stringify(data, null, 2), "utf-8");
+  await assertUnchangedOnDisk();
+  const content = JSON.stringify(data, null, 2);
+  if (backups) {
+    await createBackup(dataFilePath, backups);
+  }
+  await writeFileAtomic(dataFilePath, content);
+  savedContent = content;
+  savedMtimeMs = (await fs.stat(dataFilePath)).mtimeMs;
+  savedViolations = await validateExport(data);
+  if (journal) {
+    journal.fileHash = hashContent(content);
+    await saveJournal(dataFilePath, journal);
+  }
+}
+
+async function saveData(): Promise<void> {
+  if (!dataFilePath || !data) {
+    throw new Error("No data loaded to save.");
+  }
+  // Check before journaling so a refused save leaves no entry behind
+  try {
+    await assertUnchangedOnDisk();
+  } catch (error) {
+    if (currentCall && savedContent !== null) {
+      const patch = unsavedPatch(unsavedBase(), data);
+      if (patch.length > 0) unsavedCalls.push({ ...currentCall, patch });
+    }
+    throw error;
+  }
+  const added = newViolations(savedViolations, await validateExport(data));
+  if (added.length > 0) {
+    // Roll back the in-memory change so it does not leak into later saves
+    if (savedContent !== null) data = JSON.parse(savedContent) as ProjectionLabExport;
+    unsavedCalls = [];
+    throw new Error(`Change rejected because the export would no longer match the ProjectionLab schema: ${formatViolations(added)}`);
+  }
+  if (journal && savedContent !== null && currentCall) {
+    recordChange(journal, currentCall.tool, currentCall.args, JSON.parse(savedContent), data);
+  }
+  await writeData();
 }
 
 function getData(): ProjectionLabExport {
@@ -191,6 +334,45 @@ function validateDateReference(ref: unknown, fieldName: string): void {
   }
 }
 
+// Delete an entity after dealing with everything that references it: "preview"
+// lists the references, "cascade" removes or repairs them, "detach" resets them
+// to safe defaults. Without a mode, deletion is refused while references exist.
+async function deleteReferenced(
+  target: { kind: EntityKind; id: string; planId?: string },
+  mode: DeleteMode | undefined,
+  remove: () => string,
+  milestoneYear: number | null = null
+) {
+  const d = getData();
+  const refs = referencesTo(d, target);
+  if (mode !== undefined && !["preview", "cascade", "detach"].includes(mode)) {
+    throw new Error(`Invalid mode: ${mode}. Must be one of: preview, cascade, detach`);
+  }
+
+  if (mode === "preview") {
+    return {
+      content: [{
+        type: "text",
+        text: encode({ target, references: refs.length, impact: previewImpact(d, refs, milestoneYear) }),
+      }],
+    };
+  }
+  if (refs.length > 0 && mode === undefined) {
+    throw new Error(
+      `${target.kind} ${target.id} is referenced ${refs.length} time(s). ` +
+        'Use mode "preview" to list the references, then "cascade" or "detach" to delete it.'
+    );
+  }
+
+  const changes = refs.length > 0 ? repairReferences(d, refs, mode as "cascade" | "detach", milestoneYear) : [];
+  const message = remove();
+  await saveData();
+  if (changes.length === 0) {
+    return { content: [{ type: "text", text: message }] };
+  }
+  return { content: [{ type: "text", text: `${message}\n${encode({ mode, changes })}` }] };
+}
+
 // Create MCP Server
 const server = new Server(
   {
@@ -205,6 +387,13 @@ const server = new Server(
   }
 );
 
+const DELETE_MODE_PROPERTY = {
+  type: "string",
+  enum: ["preview", "cascade", "detach"],
+  description:
+    "How to handle priorities, expenses, milestone criteria and dates that reference it: preview (list them, delete nothing), cascade (remove or repair them) or detach (reset them to safe defaults). Required when references exist.",
+};
+
 // Define all tools
 const tools = [
   // ==========================================================================
@@ -217,11 +406,34 @@ const tools = [
       type: "object" as const,
       properties: {
         path: { type: "string", description: "Absolute path to the ProjectionLab export JSON file" },
+        backupCount: {
+          type: "number",
+          description: "Number of rotating backups to keep, taken before every write; 0 disables backups (default: PROJECTIONLAB_BACKUP_COUNT or 10)",
+        },
+        backupDir: {
+          type: "string",
+          description: "Directory for backups (default: PROJECTIONLAB_BACKUP_DIR or the export file's directory)",
+        },
       },
       required: ["path"],
     },
   },
 
+  {
+    name: "reload_data_file",
+    description:
+      "Reload the export file from disk, e.g. after re-exporting from ProjectionLab. Saves are refused while the file has changed on disk since it was loaded.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        keepChanges: {
+          type: "boolean",
+          description: "Re-apply in-memory changes that were not saved on top of the reloaded file, one undoable journal entry per original tool call (default: false, discard them)",
+        },
+      },
+    },
+  },
+
   // ==========================================================================
   // Overview / Read Tools
   // ==========================================================================
@@ -400,6 +612,52 @@ const tools = [
       required: ["name", "debtType", "amount"],
     },
   },
+  {
+    name: "get_amortization",
+    description:
+      "Payment-by-payment amortization schedule for a debt, from its balance, interest rate, interest type (simple or compound), compounding, payment and payment frequency. Reports the payoff date, total interest, yearly totals and any balance forgiven at forgiveAt. The plan resolves milestone-based start and forgiveness dates.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The plan ID" },
+        debtId: { type: "string", description: "The debt ID" },
+        extraPayment: { type: "number", description: "Extra amount added to every payment (default: 0)" },
+        includeSchedule: { type: "boolean", description: "Include every payment, not just yearly totals (default: true)" },
+      },
+      required: ["planId", "debtId"],
+    },
+  },
+  {
+    name: "plan_debt_payoff",
+    description:
+      "Compare paying off all debts with an extra monthly budget using avalanche (highest rate first), snowball (smallest balance first) and, when allocations are given, a custom split, against minimum payments only. Payments freed by paid-off debts roll over to the next one. Reports debt-free dates, total interest and interest saved. With apply, writes matching debt priorities (pay-extra, fixed monthly contribution, starting the year each debt becomes the focus) into the plan, replacing its existing debt priorities for those debts.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The plan ID" },
+        extraPayment: { type: "number", description: "Monthly amount to pay on top of the minimum payments (default: the sum of allocations)" },
+        allocations: {
+          type: "array",
+          description: "Custom strategy: fixed monthly extra per debt, in rollover order",
+          items: {
+            type: "object",
+            properties: {
+              debtId: { type: "string" },
+              amount: { type: "number" },
+            },
+            required: ["debtId", "amount"],
+          },
+        },
+        rollover: { type: "boolean", description: "Put payments freed by paid-off debts toward the next debt (default: true)" },
+        apply: {
+          type: "string",
+          enum: ["avalanche", "snowball", "custom"],
+          description: "Write the chosen strategy's debt priorities into the plan",
+        },
+      },
+      required: ["planId"],
+    },
+  },
 
   // ==========================================================================
   // Today Asset Tools (current snapshot)
@@ -533,6 +791,7 @@ const tools = [
         taxRate: { type: "number", description: "Annual tax rate (property tax, etc.)" },
         maintenanceRate: { type: "number", description: "Annual maintenance rate as percentage of value" },
         insuranceRate: { type: "number", description: "Annual insurance rate as percentage of value" },
+        monthlyHOA: { type: "number", description: "Monthly HOA dues" },
         // Sale-related fields
         brokersFee: { type: "number", description: "Broker's fee percentage when selling" },
         sellIfNeeded: { type: "boolean", description: "Whether this asset can be sold if needed for expenses" },
@@ -599,6 +858,7 @@ const tools = [
         taxRate: { type: "number", description: "Annual tax rate (property tax, etc.)" },
         maintenanceRate: { type: "number", description: "Annual maintenance rate as percentage of value" },
         insuranceRate: { type: "number", description: "Annual insurance rate as percentage of value" },
+        monthlyHOA: { type: "number", description: "Monthly HOA dues" },
         // Sale-related fields
         brokersFee: { type: "number", description: "Broker's fee percentage when selling" },
         sellIfNeeded: { type: "boolean", description: "Whether this asset can be sold if needed for expenses" },
@@ -618,6 +878,69 @@ const tools = [
       required: ["planId", "assetId"],
     },
   },
+  {
+    name: "analyze_asset",
+    description:
+      "Analyze a plan asset (e.g. a home bought with add_plan_asset): the loan schedule of a financed purchase, yearly carrying costs (property tax, maintenance, insurance, HOA), value and equity over time, and the net proceeds of selling at its end date after the broker's fee and loan payoff. Pass rentExpenseId or monthlyRent for a rent-vs-buy comparison, where the renter invests the down payment and whichever side spends less each year invests the difference.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The plan ID" },
+        assetId: { type: "string", description: "The plan asset event ID" },
+        rentExpenseId: { type: "string", description: "Rent expense in the plan to compare buying against" },
+        monthlyRent: { type: "number", description: "Monthly rent in today's dollars to compare against, if there is no rent expense" },
+        rentChange: {
+          type: "object",
+          description: "Yearly change of monthlyRent (default: match inflation)",
+          properties: {
+            type: { type: "string", enum: ["none", "match-inflation", "inflation+", "increase", "decrease", "custom"] },
+            amount: { type: "number" },
+            amountType: { type: "string", enum: ["today$", "%"] },
+          },
+        },
+        investmentReturn: { type: "number", description: "Return % on money not spent on the home (default: the plan's investment return)" },
+        includeLoanSchedule: { type: "boolean", description: "Include the loan's yearly principal and interest (default: true)" },
+      },
+      required: ["planId", "assetId"],
+    },
+  },
+  {
+    name: "update_rental_settings",
+    description:
+      "Configure the rental fields of a real-estate asset: rental income, share rented, management and improvement costs, HOA, building value for depreciation, classification and tax treatment. With planId, updates that plan's asset event; without it, updates the asset in today's snapshot.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The plan ID, to update a plan asset event" },
+        assetId: { type: "string", description: "The asset ID (plan asset event ID when planId is given)" },
+        ...Object.fromEntries(
+          Object.entries(RENTAL_FIELDS).map(([field, spec]) => [
+            field,
+            spec.type === "rateType"
+              ? { type: "string", enum: ["%", "today$"], description: spec.description }
+              : spec.type === "classification"
+                ? { type: "string", enum: ["residential", "commercial"], description: spec.description }
+                : { type: spec.type === "boolean" ? "boolean" : "number", description: spec.description },
+          ])
+        ),
+      },
+      required: ["assetId"],
+    },
+  },
+  {
+    name: "rental_report",
+    description:
+      "Yearly rental report for a real-estate asset (a plan asset event or a today asset): gross rent, operating expenses, NOI, cap rate, cash flow after debt service and improvements, cash-on-cash return, straight-line depreciation (27.5 years residential, 39 commercial, on initialBuildingValue), and estimated taxable rental income after deductions, passive loss carryforwards and the QBI deduction.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The plan ID" },
+        assetId: { type: "string", description: "Plan asset event ID or today asset ID" },
+        placedInService: { type: "number", description: "Year the building was placed in service (default: purchase year, or the plan start for assets owned today)" },
+      },
+      required: ["planId", "assetId"],
+    },
+  },
 
   // ==========================================================================
   // Plan Income Tools
@@ -717,6 +1040,46 @@ const tools = [
       required: ["planId", "type", "name", "amount"],
     },
   },
+  {
+    name: "estimate_social_security",
+    description:
+      "Estimate Social Security retirement benefits (AIME and PIA) for each person and compare claiming at every age from 62 through 70, including spousal benefits for couples. Earnings come from the given history or are inferred from the plan's salary income events. With claimingAge, rewrites that person's social-security income event (amount as a monthly today's-dollar benefit and start year) for that claiming age.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The plan ID" },
+        earnings: {
+          type: "array",
+          description: "Earnings history before the plan start, e.g. from an SSA statement",
+          items: {
+            type: "object",
+            properties: {
+              year: { type: "number", description: "Calendar year" },
+              amount: { type: "number", description: "Earnings subject to Social Security tax that year (nominal dollars)" },
+            },
+            required: ["year", "amount"],
+          },
+        },
+        spouseEarnings: {
+          type: "array",
+          description: "The spouse's earnings history before the plan start",
+          items: {
+            type: "object",
+            properties: {
+              year: { type: "number", description: "Calendar year" },
+              amount: { type: "number", description: "Earnings subject to Social Security tax that year (nominal dollars)" },
+            },
+            required: ["year", "amount"],
+          },
+        },
+        careerStartAge: { type: "number", description: "Age work started, used to back-fill earnings when no history is given (default: 22)" },
+        claimingAge: { type: "number", description: "Claiming age (62-70) to write into the social-security income event" },
+        owner: { type: "string", enum: ["me", "spouse"], description: "Whose income event claimingAge applies to (default: me)" },
+        incomeId: { type: "string", description: "The social-security income event to rewrite (default: the owner's social-security event)" },
+      },
+      required: ["planId"],
+    },
+  },
 
   // ==========================================================================
   // Plan Expense Tools
@@ -963,6 +1326,21 @@ const tools = [
       required: ["planId", "priorityId"],
     },
   },
+  {
+    name: "check_contributions",
+    description:
+      "Check a plan's retirement, HSA, ESPP and 529 priorities for one year: the annual contribution each implies, the employer match against the linked income stream's salary, and whether contributions that share a statutory limit (401k deferrals, Section 415(c) total additions, IRAs, HSA, ESPP) go over it for each person, with catch-up contributions by age (50+, 60-63 for 401k, 55+ for HSA). Breaches on priorities with yearlyLimitType \"us\" are errors because ProjectionLab silently caps them. Also warns when projected income is in the Roth IRA phase-out.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The plan ID" },
+        year: { type: "number", description: "Year to check (default: plan start year)" },
+        hsaCoverage: { type: "string", enum: ["self", "family"], description: "HSA coverage (default: family for couples, self-only otherwise)" },
+      },
+      required: ["planId"],
+    },
+  },
+
   {
     name: "reorder_priority",
     description: "Move a priority to a new position in the priority list. Lower positions are processed first.",
@@ -982,11 +1360,44 @@ const tools = [
   // ==========================================================================
   {
     name: "list_milestones",
-    description: "List all milestones in a plan (retirement, FIRE, etc.) including computed milestones derived from goals",
+    description: "List all milestones in a plan (retirement, FIRE, etc.) including computed milestones derived from goals, optionally with the year each is estimated to be reached by a local projection",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The plan ID" },
+        estimate: { type: "boolean", description: "Add estimatedYear/estimatedAge from a local projection (default: false)" },
+      },
+      required: ["planId"],
+    },
+  },
+  {
+    name: "evaluate_milestones",
+    description: "Evaluate every milestone's criteria against a local projection and report the year each is reached, or that it is never reached (e.g., FIRE never reached)",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The plan ID" },
+      },
+      required: ["planId"],
+    },
+  },
+  {
+    name: "resolve_dates",
+    description: "Resolve DateReferences into concrete calendar years and ages for you and your spouse. Returns milestone years and the start/end timeline of every income, expense, priority and plan asset",
     inputSchema: {
       type: "object" as const,
       properties: {
         planId: { type: "string", description: "The plan ID" },
+        date: {
+          type: "object",
+          description: "Optional DateReference to resolve in addition to the plan timeline",
+          properties: {
+            type: { type: "string", enum: ["keyword", "milestone", "date", "year"], description: "Type of date reference" },
+            value: { type: "string", description: "The value (year, keyword, milestone ID, or ISO date)" },
+            modifier: { oneOf: [{ type: "string" }, { type: "number" }], description: "Offset in years or include/exclude" },
+          },
+          required: ["type", "value"],
+        },
       },
       required: ["planId"],
     },
@@ -1122,6 +1533,7 @@ const tools = [
       properties: {
         planId: { type: "string", description: "The plan ID" },
         milestoneId: { type: "string", description: "The milestone ID to delete" },
+        mode: DELETE_MODE_PROPERTY,
       },
       required: ["planId", "milestoneId"],
     },
@@ -1155,6 +1567,59 @@ const tools = [
         filingStatus: { type: "string", enum: ["single", "joint", "married-separate", "head-of-household"], description: "Tax filing status" },
         effectiveIncomeTaxRate: { type: "number", description: "Effective income tax rate %" },
         capGainsTaxRate: { type: "number", description: "Capital gains tax rate %" },
+        incomeTaxMode: { type: "string", enum: ["fixed", "brackets", "custom"], description: "fixed (effectiveIncomeTaxRate), brackets (bundled federal brackets) or custom (plan brackets)" },
+        localIncomeTaxRate: { type: "number", description: "Flat local income tax rate %" },
+        capGainsMode: { type: "string", enum: ["fixed", "brackets", "income"], description: "How long-term capital gains are taxed" },
+        dividendTaxMode: { type: "string", enum: ["fixed", "capGains", "income", "brackets"], description: "How qualified dividends are taxed" },
+        dividendTaxRate: { type: "number", description: "Dividend tax rate % (dividendTaxMode fixed)" },
+        tcjaReversion: { type: "boolean", description: "Model federal brackets reverting to pre-TCJA rates from 2026" },
+      },
+      required: ["planId"],
+    },
+  },
+  {
+    name: "estimate_taxes",
+    description:
+      "Estimate federal, extra (state) and local income taxes for a plan and year, with marginal and effective rates. Uses the plan's tax settings (incomeTaxMode, filingStatus, capGainsMode, dividendTaxMode, tcjaReversion) and a bundled bracket table. Income defaults to the local projection's figures for that year.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The plan ID" },
+        year: { type: "number", description: "Tax year (default: plan start year)" },
+        ordinaryIncome: { type: "number", description: "Ordinary income after pre-tax contributions (default: projected)" },
+        capitalGains: { type: "number", description: "Realized long-term capital gains (default: projected)" },
+        qualifiedDividends: { type: "number", description: "Qualified dividends (default: 0)" },
+      },
+      required: ["planId"],
+    },
+  },
+  {
+    name: "optimize_roth_conversions",
+    description:
+      "Propose yearly Roth conversions that fill ordinary income up to the top of a target federal bracket, moving money from 401k/traditional IRA accounts into a Roth IRA. By default only converts from retirement through the year RMDs start, and never converts into income taxed above the marginal rate the money is projected to meet later in RMD years or at the end of the plan (laterRate). Accounts for RMDs (rmdType \"us\") and, when avoidIrmaa is set or the plan models IRMAA, keeps income within the current Medicare IRMAA tier from age 63. Reports lifetime taxes and IRMAA versus doing nothing, in today's dollars. With apply, saves the schedule to the plan's meta.rothConversions, which run_projection honors (ProjectionLab itself does not read it); a schedule that is not worthwhile (lower after-tax net worth or earlier depletion) is never saved.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The plan ID" },
+        targetRate: { type: "number", description: "Federal bracket rate % to fill, e.g. 12, 22 or 24 (default: 22)" },
+        fromYear: { type: "number", description: "First year to convert (default: the retirement year)" },
+        toYear: { type: "number", description: "Last year to convert (default: the year the primary person's RMDs start)" },
+        maxAnnual: { type: "number", description: "Cap on each year's conversion, in today's dollars" },
+        avoidIrmaa: { type: "boolean", description: "Stay within the current IRMAA tier (default: the plan's irmaa setting)" },
+        apply: { type: "boolean", description: "Save the proposed conversions to the plan, replacing any saved schedule (default: false)" },
+      },
+      required: ["planId"],
+    },
+  },
+  {
+    name: "get_rmd_schedule",
+    description:
+      "Year-by-year required minimum distributions for every 401k/traditional IRA account with rmdType \"us\", per account and owner. Uses the owners' birth years, the IRS uniform lifetime table and SECURE 2.0 starting ages (73 for births 1951-1959, 75 from 1960), applied to each prior year-end balance from the local projection.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The plan ID" },
+        todayDollars: { type: "boolean", description: "Report amounts in today's dollars (default: false)" },
       },
       required: ["planId"],
     },
@@ -1176,13 +1641,46 @@ const tools = [
   },
   {
     name: "update_withdrawal_strategy",
-    description: "Update the withdrawal strategy",
+    description: `Update the withdrawal strategy and its settings. parameters are merged into the settings block of the strategy being set (or the current one). Parameters by strategy: ${STRATEGIES.map(
+      (s) => `${s}: ${Object.keys(STRATEGY_PARAMETERS[s]).join(", ") || "none"}`
+    ).join("; ")}`,
     inputSchema: {
       type: "object" as const,
       properties: {
         planId: { type: "string", description: "The plan ID" },
-        strategy: { type: "string", enum: ["initial-%", "fixed-%", "fixed-amount", "1/N", "vpw", "kitces-ratchet", "clyatt-95%", "guyton-klinger"], description: "Strategy type" },
+        strategy: { type: "string", enum: STRATEGIES, description: "Strategy type" },
         enabled: { type: "boolean", description: "Enable/disable withdrawal strategy" },
+        start: {
+          type: "object",
+          description: "When withdrawals start (DateReference, e.g. type='milestone' with value='retirement')",
+          properties: {
+            type: { type: "string", enum: ["keyword", "milestone", "date", "year"], description: "Type of date reference" },
+            value: { type: "string", description: "The value (year like '2059', keyword like 'now', milestone ID, or ISO date)" },
+            modifier: { oneOf: [{ type: "string" }, { type: "number" }], description: "Offset in years (number) or 'include'/'exclude'" },
+          },
+          required: ["type", "value"],
+        },
+        spendMode: { type: "string", enum: ["withdraw", "spend"], description: "Whether the strategy sets withdrawals or total spending" },
+        parameters: { type: "object", description: "Strategy settings to change, e.g. { amount: 5, guardrail: 20, adjustment: 10 } for guyton-klinger" },
+      },
+      required: ["planId"],
+    },
+  },
+  {
+    name: "simulate_withdrawals",
+    description:
+      "Simulate withdrawal strategies on the plan's projected portfolio from the year withdrawals start to the end of the plan, showing yearly spending, portfolio value, withdrawal rate and guardrail triggers in today's dollars. Runs against the plan's fixed returns or bundled 1928-2024 US history (one start year, or every start year with success rates). Pass several strategies to compare them side by side. Only the portfolio is modeled, not other income or expenses.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The plan ID" },
+        strategies: { type: "array", items: { type: "string", enum: STRATEGIES }, description: "Strategies to simulate (default: the plan's strategy)" },
+        parameters: { type: "object", description: "Parameter overrides keyed by strategy, e.g. { \"guyton-klinger\": { \"guardrail\": 25 } }" },
+        returns: { type: "string", enum: ["fixed", "historical"], description: "Return assumptions (default: fixed)" },
+        historicalStartYear: { type: "number", description: "First historical year of the sequence; omit with historical returns to test every start year" },
+        startYear: { type: "number", description: "First withdrawal year (default: the strategy's start, else retirement)" },
+        portfolio: { type: "number", description: "Starting portfolio in today's dollars (default: projected liquid assets)" },
+        includeYears: { type: "boolean", description: "Include the year-by-year table (default: true)" },
       },
       required: ["planId"],
     },
@@ -1211,68 +1709,169 @@ const tools = [
         planId: { type: "string", description: "The plan ID" },
         trials: { type: "number", description: "Number of simulation trials" },
         mode: { type: "string", enum: ["custom", "historical", "normal"], description: "Simulation mode" },
+        sampling: {
+          type: "string",
+          enum: ["backtest-sequential", "backtest-random-restart", "normal"],
+          description: "How historical mode samples market history: one trial per start year, or blocks of consecutive years from random start years",
+        },
+        blockSize: { type: "number", description: "Consecutive historical years per block for backtest-random-restart (default: 10)" },
+        investmentReturnMean: { type: "number", description: "Mean yearly investment return %" },
+        investmentReturnStdDev: { type: "number", description: "Standard deviation of yearly investment return %" },
+        bondReturnMean: { type: "number", description: "Mean yearly bond return %" },
+        bondReturnStdDev: { type: "number", description: "Standard deviation of yearly bond return %" },
+        dividendRateMean: { type: "number", description: "Mean yearly dividend rate %" },
+        dividendRateStdDev: { type: "number", description: "Standard deviation of yearly dividend rate %" },
+        inflationMean: { type: "number", description: "Mean yearly inflation %" },
+        inflationStdDev: { type: "number", description: "Standard deviation of yearly inflation %" },
       },
       required: ["planId"],
     },
   },
-
-  // ==========================================================================
-  // Progress Tracking Tools
-  // ==========================================================================
-  {
-    name: "get_progress",
-    description: "Get historical net worth tracking data",
-    inputSchema: { type: "object" as const, properties: {} },
-  },
   {
-    name: "add_progress_snapshot",
-    description: "Add a new progress snapshot",
+    name: "run_montecarlo",
+    description: "Run a local Monte Carlo simulation of a plan using its Monte Carlo settings (normal sampling, or replaying 1928-2024 market history in historical mode). Reports success rate, percentile net worth bands per year and the distribution of depletion ages",
     inputSchema: {
       type: "object" as const,
       properties: {
-        netWorth: { type: "number", description: "Total net worth" },
-        savings: { type: "number", description: "Total in savings accounts" },
-        taxable: { type: "number", description: "Total in taxable accounts" },
-        taxDeferred: { type: "number", description: "Total in tax-deferred accounts (401k, Traditional IRA)" },
-        taxFree: { type: "number", description: "Total in tax-free accounts (Roth)" },
-        debt: { type: "number", description: "Total debt" },
+        planId: { type: "string", description: "The plan ID" },
+        trials: { type: "number", description: "Number of trials (defaults to the plan's montecarlo.trials, or 1000; max 10000)" },
+        seed: { type: "number", description: "Random seed for reproducible results (default: 1)" },
+        todayDollars: { type: "boolean", description: "Report net worth in today's dollars instead of future (nominal) dollars (default: false)" },
       },
-      required: ["netWorth"],
+      required: ["planId"],
     },
   },
-
-  // ==========================================================================
-  // Delete Operations
-  // ==========================================================================
   {
-    name: "delete_account",
-    description: "Delete a savings or investment account",
+    name: "backtest_plan",
+    description:
+      "Backtest a plan against bundled 1928-2024 US market history: run the projection once per historical starting year with that sequence of stock and bond returns and inflation, and report the success rate, the cohorts whose liquid assets ran out, ending net worth percentiles, and the worst-case sequence year by year",
     inputSchema: {
       type: "object" as const,
       properties: {
-        accountId: { type: "string", description: "The account ID to delete" },
+        planId: { type: "string", description: "The plan ID" },
+        fromYear: { type: "number", description: "First historical start year to try (default: 1928)" },
+        toYear: { type: "number", description: "Last historical start year to try (default: 2024)" },
+        todayDollars: { type: "boolean", description: "Report net worth in today's dollars instead of future (nominal) dollars (default: false)" },
+        includeAll: { type: "boolean", description: "List every cohort, not only the failures (default: false)" },
       },
-      required: ["accountId"],
+      required: ["planId"],
     },
   },
   {
-    name: "delete_debt",
-    description: "Delete a debt",
+    name: "sensitivity_analysis",
+    description:
+      "Vary one or two plan inputs (investment return, inflation, an income or expense amount, retirement year) across a grid and report how a target metric (ending net worth, FIRE year or Monte Carlo success rate) changes. Returns heat-map cells and a tornado ranking of which input moves the metric most. The plan itself is not modified",
     inputSchema: {
       type: "object" as const,
       properties: {
-        debtId: { type: "string", description: "The debt ID to delete" },
-      },
-      required: ["debtId"],
-    },
-  },
-  {
-    name: "delete_today_asset",
+        planId: { type: "string", description: "The plan ID" },
+        inputs: {
+          type: "array",
+          description: "One or two inputs to vary",
+          items: {
+            type: "object",
+            properties: {
+              input: { type: "string", enum: [...SENSITIVITY_INPUTS], description: "Input to vary" },
+              id: { type: "string", description: "Income or expense event ID (for income and expense inputs)" },
+              values: {
+                type: "array",
+                items: { type: "number" },
+                description:
+                  "Values to try: percent for investmentReturn and inflation, the event amount for income and expense, a calendar year for retirementYear (default: five steps around the current value)",
+              },
+            },
+            required: ["input"],
+          },
+        },
+        metric: { type: "string", enum: [...SENSITIVITY_METRICS], description: "Outcome to measure (default: endingNetWorth)" },
+        todayDollars: { type: "boolean", description: "Measure ending net worth in today's dollars (default: false)" },
+        trials: { type: "number", description: "Monte Carlo trials per cell for successRate (default: 200)" },
+      },
+      required: ["planId", "inputs"],
+    },
+  },
+  {
+    name: "solve_for",
+    description:
+      "Goal-seek one plan input: find the smallest priority contribution, the largest expense amount, the earliest retirement year, or the highest withdrawal rate (of the plan's withdrawal strategy) that still meets a target: net worth never dropping below 0 (noDepletion), FIRE by a year (fireBy), or a Monte Carlo success rate (successRate). With apply, writes the solution into the plan",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The plan ID" },
+        variable: { type: "string", enum: [...SOLVE_VARIABLES], description: "Input to solve for" },
+        id: { type: "string", description: "Priority ID (priorityContribution) or expense ID (expenseAmount)" },
+        target: { type: "string", enum: [...SOLVE_TARGETS], description: "Target to meet" },
+        year: { type: "number", description: "Year FIRE must be reached by (fireBy)" },
+        rate: { type: "number", description: "Minimum success rate in percent (successRate), e.g. 90" },
+        min: { type: "number", description: "Lower bound of the search (default depends on the variable)" },
+        max: { type: "number", description: "Upper bound of the search (default depends on the variable)" },
+        trials: { type: "number", description: "Monte Carlo trials per evaluation for successRate (default: 500). Search steps use fewer when needed to stay under 20000 simulations in total; the solution is then confirmed with this many" },
+        apply: { type: "boolean", description: "Write the solution into the plan (default: false)" },
+      },
+      required: ["planId", "variable", "target"],
+    },
+  },
+
+  // ==========================================================================
+  // Progress Tracking Tools
+  // ==========================================================================
+  {
+    name: "get_progress",
+    description: "Get historical net worth tracking data",
+    inputSchema: { type: "object" as const, properties: {} },
+  },
+  {
+    name: "add_progress_snapshot",
+    description: "Add a new progress snapshot",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        netWorth: { type: "number", description: "Total net worth" },
+        savings: { type: "number", description: "Total in savings accounts" },
+        taxable: { type: "number", description: "Total in taxable accounts" },
+        taxDeferred: { type: "number", description: "Total in tax-deferred accounts (401k, Traditional IRA)" },
+        taxFree: { type: "number", description: "Total in tax-free accounts (Roth)" },
+        debt: { type: "number", description: "Total debt" },
+      },
+      required: ["netWorth"],
+    },
+  },
+
+  // ==========================================================================
+  // Delete Operations
+  // ==========================================================================
+  {
+    name: "delete_account",
+    description: "Delete a savings or investment account",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        accountId: { type: "string", description: "The account ID to delete" },
+        mode: DELETE_MODE_PROPERTY,
+      },
+      required: ["accountId"],
+    },
+  },
+  {
+    name: "delete_debt",
+    description: "Delete a debt",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        debtId: { type: "string", description: "The debt ID to delete" },
+        mode: DELETE_MODE_PROPERTY,
+      },
+      required: ["debtId"],
+    },
+  },
+  {
+    name: "delete_today_asset",
     description: "Delete an asset from the today snapshot",
     inputSchema: {
       type: "object" as const,
       properties: {
         assetId: { type: "string", description: "The asset ID to delete" },
+        mode: DELETE_MODE_PROPERTY,
       },
       required: ["assetId"],
     },
@@ -1285,6 +1884,7 @@ const tools = [
       properties: {
         planId: { type: "string", description: "The plan ID" },
         incomeId: { type: "string", description: "The income event ID to delete" },
+        mode: DELETE_MODE_PROPERTY,
       },
       required: ["planId", "incomeId"],
     },
@@ -1328,6 +1928,157 @@ const tools = [
       required: ["planId"],
     },
   },
+  {
+    name: "compare_plans",
+    description:
+      "Show what differs between two plans, e.g. a scenario made with duplicate_plan and its original: income, expense, priority, asset and milestone events added, removed or changed (matched by id, then by name and type) with field-level changes, priority order, and changed variables, withdrawalStrategy and montecarlo settings",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The base plan ID" },
+        otherPlanId: { type: "string", description: "The plan ID to compare against the base plan" },
+      },
+      required: ["planId", "otherPlanId"],
+    },
+  },
+  {
+    name: "compare_scenarios",
+    description:
+      "Project two or more plans (e.g. scenarios made with duplicate_plan, such as retiring at 55 vs 60) and tabulate their outcomes side by side: retirement and FIRE milestone years, net worth at selected ages, lifetime taxes, years liquid assets run short, and ending estate (net worth in the plan's final year), with differences from the first plan",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planIds: { type: "array", items: { type: "string" }, description: "Plan IDs to compare (at least two); the first is the baseline" },
+        ages: { type: "array", items: { type: "number" }, description: "Ages to report net worth at (default: 50, 60, 70, 80, 90)" },
+        todayDollars: { type: "boolean", description: "Report amounts in today's dollars instead of future (nominal) dollars (default: false)" },
+      },
+      required: ["planIds"],
+    },
+  },
+
+  // ==========================================================================
+  // Validation Tools
+  // ==========================================================================
+  {
+    name: "validate_data",
+    description:
+      "Validate the loaded data against the bundled ProjectionLab export JSON Schema and list violations with their JSON paths",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        limit: { type: "number", description: "Maximum violations to return (default: 100)" },
+      },
+    },
+  },
+  {
+    name: "lint_data",
+    description:
+      "Check referential integrity across all plans: priorities, expenses, milestone criteria, plan accounts/assets and milestone DateReferences that point at entities which no longer exist. Reports severity and a suggested fix for each issue.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "Only check this plan (default: all plans)" },
+        severity: {
+          type: "string",
+          enum: ["error", "warning", "info"],
+          description: "Minimum severity to report (default: info)",
+        },
+      },
+    },
+  },
+
+  // ==========================================================================
+  // Change History Tools
+  // ==========================================================================
+  {
+    name: "list_backups",
+    description: "List rotating backups of the export file, newest first. A backup is taken before every write.",
+    inputSchema: { type: "object" as const, properties: {} },
+  },
+  {
+    name: "diff_backup",
+    description: "Show the changes (as JSON patch operations) needed to go from the current data back to a backup",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        name: { type: "string", description: "Backup file name from list_backups" },
+        limit: { type: "number", description: "Maximum operations to return (default: 100)" },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "restore_backup",
+    description: "Replace the current data with a backup. The restore is itself recorded in the change journal and can be undone.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        name: { type: "string", description: "Backup file name from list_backups" },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "list_changes",
+    description: "List changes recorded by mutating tools, most recent first, showing which can be undone or redone",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        limit: { type: "number", description: "Maximum number of changes to return (default: 20)" },
+        includePatch: { type: "boolean", description: "Include the JSON patch of each change (default: false)" },
+      },
+    },
+  },
+  {
+    name: "undo",
+    description: "Undo the most recent change(s) made through mutating tools and save the file",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        steps: { type: "number", description: "Number of changes to undo (default: 1)" },
+      },
+    },
+  },
+  {
+    name: "redo",
+    description: "Redo change(s) previously reverted with undo and save the file",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        steps: { type: "number", description: "Number of changes to redo (default: 1)" },
+      },
+    },
+  },
+
+  // ==========================================================================
+  // Projection Tools
+  // ==========================================================================
+  {
+    name: "run_projection",
+    description: "Run a local, approximate year-by-year projection of a plan from startYear to loopYear. Applies income, expenses, priorities, yearlyChange, investment returns and inflation, and returns balances, cash flow and net worth per year",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The plan ID" },
+        todayDollars: { type: "boolean", description: "Report amounts in today's dollars instead of future (nominal) dollars (default: false)" },
+        includeAccounts: { type: "boolean", description: "Include per-account balances for each year (default: false)" },
+      },
+      required: ["planId"],
+    },
+  },
+  {
+    name: "explain_cash_flow",
+    description:
+      "Explain where a plan's money goes in one year, as a waterfall in the order the projection applies it: gross income, payroll priorities, estimated taxes (and withholding from income events with taxWithholding), expenses grouped by spendingType, debt and asset costs, then each priority in plan order (funded, partial, unfunded or inactive), with the leftover saved or spent per cashFlowDefault, or a deficit covered by withdrawals",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        planId: { type: "string", description: "The plan ID" },
+        year: { type: "number", description: "Calendar year to explain" },
+      },
+      required: ["planId", "year"],
+    },
+  },
 ];
 
 // Handle list tools request
@@ -1338,6 +2089,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
 // Handle tool calls
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
   const { name, arguments: args } = request.params;
+  currentCall = { tool: name, args: (args ?? {}) as Record<string, unknown> };
 
   try {
     switch (name) {
@@ -1347,10 +2099,72 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case "set_data_file": {
         const filePath = args?.path as string;
         const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(filePath);
+        const settings = backupSettings(absolutePath, {
+          backupCount: args?.backupCount as number | undefined,
+          backupDir: args?.backupDir as string | undefined,
+        });
         dataFilePath = absolutePath;
+        backups = settings;
+        await loadData();
+        const backupNote = settings.keep > 0
+          ? `Keeping ${settings.keep} backups in: ${settings.directory}`
+          : "Backups disabled";
+        const schemaNote = savedViolations.length > 0
+          ? `\nWarning: file has ${savedViolations.length} schema violation(s); use validate_data for details`
+          : "";
+        return {
+          content: [{ type: "text", text: `Data loaded from: ${absolutePath}\n${backupNote}${schemaNote}` }],
+        };
+      }
+
+      case "reload_data_file": {
+        getData();
+        // In-memory changes that did not make it to disk (e.g., a refused save)
+        const unsaved = unsavedPatch(JSON.parse(savedContent!), data);
+        // Each refused call is replayed as its own change; anything else is kept as one more
+        const replay = [...unsavedCalls];
+        const rest = unsavedPatch(unsavedBase(), data);
+        if (rest.length > 0) replay.push({ tool: "reload_data_file", args: args ?? {}, patch: rest });
+        const previousContent = savedContent;
         await loadData();
+        const changedOnDisk = savedContent !== previousContent;
+
+        if (args?.keepChanges && unsaved.length > 0) {
+          const steps: Array<{ tool: string; args: Record<string, unknown>; before: unknown; after: unknown }> = [];
+          let doc = JSON.parse(savedContent!) as ProjectionLabExport;
+          try {
+            for (const c of replay) {
+              const before = clone(doc);
+              doc = applyPatch(doc, c.patch);
+              steps.push({ tool: c.tool, args: c.args, before, after: clone(doc) });
+            }
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new Error(`Reloaded ${dataFilePath}, but unsaved changes could not be re-applied: ${message}`);
+          }
+          const added = newViolations(savedViolations, await validateExport(doc));
+          if (added.length > 0) {
+            throw new Error(`Reloaded ${dataFilePath}, but unsaved changes would break the ProjectionLab schema: ${formatViolations(added)}`);
+          }
+          data = doc;
+          if (journal) {
+            for (const step of steps) recordChange(journal, step.tool, step.args, step.before, step.after);
+          }
+          await writeData();
+        }
+
         return {
-          content: [{ type: "text", text: `Data loaded from: ${absolutePath}` }],
+          content: [{
+            type: "text",
+            text: encode({
+              path: dataFilePath,
+              changedOnDisk,
+              unsavedOperations: unsaved.length,
+              unsavedChanges: unsaved.length === 0 ? "none" : args?.keepChanges ? "re-applied" : "discarded",
+              ...(args?.keepChanges && unsaved.length > 0 ? { journalEntries: replay.map((c) => c.tool) } : {}),
+              schemaViolations: savedViolations.length,
+            }),
+          }],
         };
       }
 
@@ -1611,6 +2425,76 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         return { content: [{ type: "text", text: encode(newDebt) }] };
       }
 
+      case "get_amortization": {
+        const plan = findPlan(args?.planId as string);
+        const debt = findDebt(getData(), args?.debtId as string);
+        const result = amortize(getData(), plan, debt, {
+          extraPayment: args?.extraPayment as number | undefined,
+          includeSchedule: args?.includeSchedule as boolean | undefined,
+        });
+        return { content: [{ type: "text", text: encode(result) }] };
+      }
+
+      case "plan_debt_payoff": {
+        const plan = findPlan(args?.planId as string);
+        const apply = args?.apply as PayoffStrategy | undefined;
+        if (apply !== undefined && !PAYOFF_STRATEGIES.includes(apply)) {
+          throw new Error(`apply must be one of: ${PAYOFF_STRATEGIES.join(", ")}`);
+        }
+        const result = planDebtPayoff(getData(), plan, {
+          extraPayment: args?.extraPayment as number | undefined,
+          allocations: args?.allocations as PayoffAllocation[] | undefined,
+          rollover: args?.rollover as boolean | undefined,
+        });
+        if (apply === undefined) {
+          return { content: [{ type: "text", text: encode(result) }] };
+        }
+
+        const chosen = result.strategies.find((s) => s.strategy === apply);
+        if (!chosen) throw new Error("The custom strategy needs allocations");
+        const phases = chosen.debts
+          .flatMap((d) => d.phases.map((phase) => ({ debt: d, phase })))
+          .filter(({ phase }) => phase.monthlyExtra > 0)
+          .sort((a, b) => a.phase.fromYear - b.phase.fromYear || chosen.order.indexOf(a.debt.debtId) - chosen.order.indexOf(b.debt.debtId));
+        if (phases.length === 0) throw new Error("The chosen strategy makes no extra payments; pass extraPayment or allocations");
+
+        if (!plan.priorities) plan.priorities = { events: [] };
+        if (!plan.priorities.events) plan.priorities.events = [];
+        const events = plan.priorities.events;
+        const debtIds = new Set(chosen.debts.map((d) => d.debtId));
+        const replaced = (p: PriorityEvent) => p.type === "debt" && p.debtId !== undefined && debtIds.has(p.debtId);
+        const at = events.findIndex(replaced);
+        const kept = events.filter((p) => !replaced(p));
+        const stamp = Date.now();
+        const added: PriorityEvent[] = phases.map(({ debt, phase }, i) => ({
+          id: `priority-${stamp}-${i}`,
+          type: "debt",
+          name: `Pay off ${debt.name}${debt.phases.length > 1 ? ` (from ${phase.fromYear})` : ""}`,
+          owner: getData().today.debts?.find((d) => d.id === debt.debtId)?.owner ?? "me",
+          debtId: debt.debtId,
+          goalIntent: "pay-extra",
+          mode: "contribution",
+          contribution: phase.monthlyExtra,
+          contributionType: "today$",
+          contributionsAreFixed: true,
+          frequency: "monthly",
+          start: { type: "year", value: String(phase.fromYear) },
+          end: phase.toYear === null ? { type: "keyword", value: "endOfPlan" } : { type: "year", value: String(phase.toYear) },
+        }));
+        const insertAt = at === -1 ? kept.length : events.slice(0, at).filter((p) => !replaced(p)).length;
+        kept.splice(insertAt, 0, ...added);
+        plan.priorities.events = kept;
+        await saveData();
+        return {
+          content: [
+            {
+              type: "text",
+              text: encode({ ...result, applied: apply, priorities: added, removedPriorities: events.length - (kept.length - added.length) }),
+            },
+          ],
+        };
+      }
+
       // ========================================================================
       // Today Assets
       // ========================================================================
@@ -1700,6 +2584,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         if (args?.taxRate !== undefined) asset.taxRate = args.taxRate as number;
         if (args?.maintenanceRate !== undefined) asset.maintenanceRate = args.maintenanceRate as number;
         if (args?.insuranceRate !== undefined) asset.insuranceRate = args.insuranceRate as number;
+        if (args?.monthlyHOA !== undefined) asset.monthlyHOA = args.monthlyHOA as number;
         // Sale-related fields
         if (args?.brokersFee !== undefined) asset.brokersFee = args.brokersFee as number;
         if (args?.sellIfNeeded !== undefined) asset.sellIfNeeded = args.sellIfNeeded as boolean;
@@ -1764,6 +2649,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           newAsset.insuranceRate = args.insuranceRate as number;
           newAsset.insuranceRateType = "%";
         }
+        if (args?.monthlyHOA !== undefined) newAsset.monthlyHOA = args.monthlyHOA as number;
         // Sale-related fields
         if (args?.brokersFee !== undefined) newAsset.brokersFee = args.brokersFee as number;
         if (args?.sellIfNeeded !== undefined) newAsset.sellIfNeeded = args.sellIfNeeded as boolean;
@@ -1785,6 +2671,48 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         return { content: [{ type: "text", text: `Deleted plan asset: ${deleted.name}` }] };
       }
 
+      case "analyze_asset": {
+        const plan = findPlan(args?.planId as string);
+        const asset = findPlanAsset(plan, args?.assetId as string);
+        const result = analyzeAsset(getData(), plan, asset, {
+          rentExpenseId: args?.rentExpenseId as string | undefined,
+          monthlyRent: args?.monthlyRent as number | undefined,
+          rentChange: args?.rentChange as YearlyChange | undefined,
+          investmentReturn: args?.investmentReturn as number | undefined,
+        });
+        if (args?.includeLoanSchedule === false) delete result.loanYears;
+        return { content: [{ type: "text", text: encode(result) }] };
+      }
+
+      case "update_rental_settings": {
+        const assetId = args?.assetId as string;
+        let asset: Record<string, unknown>;
+        if (args?.planId !== undefined) {
+          const plan = findPlan(args.planId as string);
+          const event = findPlanAsset(plan, assetId);
+          const base = event.assetId ? getData().today.assets?.find((t) => t.id === event.assetId) : undefined;
+          if ((event.type ?? base?.type) !== "real-estate") throw new Error(`Plan asset ${assetId} is not real estate`);
+          asset = event;
+        } else {
+          const todayAsset = getData().today.assets?.find((a) => a.id === assetId);
+          if (!todayAsset) throw new Error(`Asset not found: ${assetId}`);
+          if (todayAsset.type !== "real-estate") throw new Error(`Asset ${assetId} is not real estate`);
+          asset = todayAsset as unknown as Record<string, unknown>;
+        }
+        const changed = applyRentalSettings(asset, (args ?? {}) as Record<string, unknown>);
+        if (changed.length === 0) throw new Error(`No rental settings given; expected any of: ${Object.keys(RENTAL_FIELDS).join(", ")}`);
+        await saveData();
+        return { content: [{ type: "text", text: encode(asset) }] };
+      }
+
+      case "rental_report": {
+        const plan = findPlan(args?.planId as string);
+        const result = rentalReport(getData(), plan, args?.assetId as string, {
+          placedInService: args?.placedInService as number | undefined,
+        });
+        return { content: [{ type: "text", text: encode(result) }] };
+      }
+
       // ========================================================================
       // Income
       // ========================================================================
@@ -1850,6 +2778,48 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         return { content: [{ type: "text", text: encode(newIncome) }] };
       }
 
+      case "estimate_social_security": {
+        const plan = findPlan(args?.planId as string);
+        const projection = runProjection(getData(), plan);
+        const estimate = estimateSocialSecurity(getData(), plan, projection, {
+          earnings: args?.earnings as EarningsRecord[] | undefined,
+          spouseEarnings: args?.spouseEarnings as EarningsRecord[] | undefined,
+          careerStartAge: args?.careerStartAge as number | undefined,
+        });
+        if (args?.claimingAge === undefined) {
+          return { content: [{ type: "text", text: encode(estimate) }] };
+        }
+
+        const claimingAge = args.claimingAge as number;
+        if (!Number.isInteger(claimingAge) || claimingAge < EARLIEST_CLAIMING_AGE || claimingAge > LATEST_CLAIMING_AGE) {
+          throw new Error(`claimingAge must be a whole number from ${EARLIEST_CLAIMING_AGE} to ${LATEST_CLAIMING_AGE}`);
+        }
+        const owner = (args?.owner as string) ?? "me";
+        const person = estimate.people.find((p) => p.person === owner);
+        if (!person) throw new Error(`No Social Security estimate for ${owner}`);
+        const income = args?.incomeId
+          ? plan.income?.events?.find((i) => i.id === args.incomeId)
+          : plan.income?.events?.find(
+              (i) => i.type === "social-security" && (owner === "spouse" ? i.owner === "spouse" : i.owner !== "spouse")
+            );
+        if (!income) {
+          throw new Error(
+            args?.incomeId
+              ? `Income not found: ${args.incomeId}`
+              : `No social-security income event for ${owner}; add one with add_income first`
+          );
+        }
+        if (income.type !== "social-security") throw new Error(`Income ${income.id} is not a social-security income event`);
+
+        const option = person.claimingOptions.find((o) => o.age === claimingAge)!;
+        income.amount = option.monthlyBenefit;
+        income.amountType = "today$";
+        income.frequency = "monthly";
+        income.start = { type: "year", value: String(option.year) };
+        await saveData();
+        return { content: [{ type: "text", text: encode({ ...estimate, updated: income }) }] };
+      }
+
       // ========================================================================
       // Expenses
       // ========================================================================
@@ -2028,11 +2998,72 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       // ========================================================================
       case "list_milestones": {
         const plan = findPlan(args?.planId as string);
-        const milestones = plan.milestones ?? [];
-        const computedMilestones = plan.computedMilestones ?? [];
+        if (!args?.estimate) {
+          return { content: [{ type: "text", text: encode({ milestones: plan.milestones ?? [], computedMilestones: plan.computedMilestones ?? [] }) }] };
+        }
+        const projected = new Map(runProjection(getData(), plan).milestones.map((m) => [m.id, m]));
+        const withEstimate = (m: Milestone) => ({
+          ...m,
+          estimatedYear: projected.get(m.id)?.year ?? null,
+          estimatedAge: projected.get(m.id)?.age,
+        });
+        const milestones = (plan.milestones ?? []).map(withEstimate);
+        const computedMilestones = (plan.computedMilestones ?? []).map(withEstimate);
         return { content: [{ type: "text", text: encode({ milestones, computedMilestones }) }] };
       }
 
+      case "evaluate_milestones": {
+        const plan = findPlan(args?.planId as string);
+        const result = runProjection(getData(), plan);
+        const ctx = createDateContext(getData(), plan);
+        const projected = new Map(result.milestones.map((m) => [m.id, m]));
+
+        const milestones = [...(plan.milestones ?? []), ...(plan.computedMilestones ?? [])].map((m) => {
+          const year = projected.get(m.id)?.year ?? null;
+          return {
+            id: m.id,
+            name: m.name,
+            criteria: describeCriteria(m.criteria ?? []),
+            reached: year !== null,
+            ...resolveDate(year === null ? undefined : { type: "year", value: String(year) }, ctx),
+          };
+        });
+        const warnings = [
+          ...result.warnings,
+          ...milestones
+            .filter((m) => !m.reached)
+            .map((m) => `Milestone "${m.name}" is never reached by the end of the plan (${result.endYear})`),
+        ];
+        return { content: [{ type: "text", text: encode({ milestones, warnings }) }] };
+      }
+
+      case "resolve_dates": {
+        const plan = findPlan(args?.planId as string);
+        if (args?.date !== undefined) validateDateReference(args.date, "date");
+
+        const warnings: string[] = [];
+        const ctx = createDateContext(getData(), plan, warnings);
+        // Milestones with financial criteria are only known once the plan is projected
+        for (const m of runProjection(getData(), plan).milestones) ctx.milestoneYears.set(m.id, m.year);
+        const milestones = [...(plan.milestones ?? []), ...(plan.computedMilestones ?? [])].map((m) => ({
+          id: m.id,
+          name: m.name,
+          ...resolveDate({ type: "milestone", value: m.id }, ctx),
+        }));
+
+        const result = {
+          startYear: ctx.startYear,
+          endYear: ctx.endYear,
+          birthYear: ctx.birthYear,
+          spouseBirthYear: ctx.spouseBirthYear,
+          ...(args?.date !== undefined ? { date: resolveDate(args.date as DateReference, ctx) } : {}),
+          milestones,
+          timeline: buildTimeline(plan, ctx),
+          warnings: [...new Set(warnings)],
+        };
+        return { content: [{ type: "text", text: encode(result) }] };
+      }
+
       case "get_milestone": {
         const plan = findPlan(args?.planId as string);
         const milestone = plan.milestones?.find((m) => m.id === args?.milestoneId)
@@ -2101,11 +3132,69 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         if (args?.filingStatus !== undefined) plan.variables.filingStatus = args.filingStatus as PlanVariables["filingStatus"];
         if (args?.effectiveIncomeTaxRate !== undefined) plan.variables.effectiveIncomeTaxRate = args.effectiveIncomeTaxRate as number;
         if (args?.capGainsTaxRate !== undefined) plan.variables.capGainsTaxRate = args.capGainsTaxRate as number;
+        if (args?.incomeTaxMode !== undefined) plan.variables.incomeTaxMode = args.incomeTaxMode as PlanVariables["incomeTaxMode"];
+        if (args?.localIncomeTaxRate !== undefined) plan.variables.localIncomeTaxRate = args.localIncomeTaxRate as number;
+        if (args?.capGainsMode !== undefined) plan.variables.capGainsMode = args.capGainsMode as PlanVariables["capGainsMode"];
+        if (args?.dividendTaxMode !== undefined) plan.variables.dividendTaxMode = args.dividendTaxMode as PlanVariables["dividendTaxMode"];
+        if (args?.dividendTaxRate !== undefined) plan.variables.dividendTaxRate = args.dividendTaxRate as number;
+        if (args?.tcjaReversion !== undefined) plan.variables.tcjaReversion = args.tcjaReversion as boolean;
 
         await saveData();
         return { content: [{ type: "text", text: encode(plan.variables) }] };
       }
 
+      case "estimate_taxes": {
+        const plan = findPlan(args?.planId as string);
+        const projection = runProjection(getData(), plan);
+        const year = (args?.year as number) ?? projection.startYear;
+        const projected = projection.years.find((y) => y.year === year);
+        if (!projected && args?.ordinaryIncome === undefined) {
+          throw new Error(
+            `Year ${year} is outside the plan (${projection.startYear}-${projection.endYear}); pass ordinaryIncome to estimate it anyway`
+          );
+        }
+
+        const estimate = estimateTaxes(plan.variables ?? {}, {
+          year,
+          ordinaryIncome: (args?.ordinaryIncome as number) ?? projected!.taxableIncome,
+          capitalGains: (args?.capitalGains as number) ?? projected?.capitalGains ?? 0,
+          qualifiedDividends: (args?.qualifiedDividends as number) ?? 0,
+          inflationIndex: projected?.inflationIndex,
+        });
+        return { content: [{ type: "text", text: encode(estimate) }] };
+      }
+
+      case "optimize_roth_conversions": {
+        const plan = findPlan(args?.planId as string);
+        const result = optimizeRothConversions(getData(), plan, {
+          targetRate: args?.targetRate as number | undefined,
+          fromYear: args?.fromYear as number | undefined,
+          toYear: args?.toYear as number | undefined,
+          maxAnnual: args?.maxAnnual as number | undefined,
+          avoidIrmaa: args?.avoidIrmaa as boolean | undefined,
+        });
+        // A schedule that leaves the plan worse off is reported but never saved
+        const apply = args?.apply === true && (result.conversions.length === 0 || result.worthwhile);
+        if (args?.apply && !apply) result.warnings.push("Not applied: the proposed conversions do not pay off");
+        if (apply) {
+          if (!plan.meta) plan.meta = {};
+          if (result.conversions.length > 0) {
+            plan.meta.rothConversions = result.conversions;
+          } else {
+            delete plan.meta.rothConversions;
+          }
+          await saveData();
+        }
+        return { content: [{ type: "text", text: encode({ ...result, applied: apply }) }] };
+      }
+
+      case "get_rmd_schedule": {
+        const plan = findPlan(args?.planId as string);
+        const projection = runProjection(getData(), plan);
+        const result = rmdSchedule(getData(), plan, projection, args?.todayDollars === true);
+        return { content: [{ type: "text", text: encode(result) }] };
+      }
+
       // ========================================================================
       // Withdrawal Strategy
       // ========================================================================
@@ -2116,15 +3205,48 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case "update_withdrawal_strategy": {
         const plan = findPlan(args?.planId as string);
-        if (!plan.withdrawalStrategy) plan.withdrawalStrategy = {};
 
-        if (args?.strategy !== undefined) plan.withdrawalStrategy.strategy = args.strategy as WithdrawalStrategy["strategy"];
+        // Validate every argument before touching the plan, so a rejected call changes nothing
+        if (args?.strategy !== undefined && !isStrategyName(args.strategy)) {
+          throw new Error(`Unknown withdrawal strategy: ${args.strategy}`);
+        }
+        if (args?.start !== undefined) validateDateReference(args.start, "start");
+        const strategy = (args?.strategy as StrategyName | undefined) ?? plan.withdrawalStrategy?.strategy;
+        const parameters = args?.parameters as Record<string, unknown> | undefined;
+        if (parameters !== undefined) {
+          if (!strategy) throw new Error("Set a strategy before its parameters");
+          validateStrategyParameters(strategy, parameters);
+        }
+
+        if (!plan.withdrawalStrategy) plan.withdrawalStrategy = {};
+        if (args?.strategy !== undefined) plan.withdrawalStrategy.strategy = strategy;
         if (args?.enabled !== undefined) plan.withdrawalStrategy.enabled = args.enabled as boolean;
+        if (args?.start !== undefined) plan.withdrawalStrategy.start = args.start as DateReference;
+        if (args?.spendMode !== undefined) plan.withdrawalStrategy.spendMode = args.spendMode as WithdrawalStrategy["spendMode"];
+        if (parameters !== undefined && strategy) {
+          const block = (plan.withdrawalStrategy[strategy] ?? {}) as Record<string, unknown>;
+          (plan.withdrawalStrategy as Record<string, unknown>)[strategy] = { ...block, ...parameters };
+        }
 
         await saveData();
         return { content: [{ type: "text", text: encode(plan.withdrawalStrategy) }] };
       }
 
+      case "simulate_withdrawals": {
+        const plan = findPlan(args?.planId as string);
+        const projection = runProjection(getData(), plan);
+        const result = simulateWithdrawals(getData(), plan, projection, {
+          strategies: args?.strategies as StrategyName[] | undefined,
+          parameters: args?.parameters as WithdrawalSimulationOptions["parameters"],
+          returns: args?.returns as WithdrawalSimulationOptions["returns"],
+          historicalStartYear: args?.historicalStartYear as number | undefined,
+          startYear: args?.startYear as number | undefined,
+          portfolio: args?.portfolio as number | undefined,
+          includeYears: args?.includeYears as boolean | undefined,
+        });
+        return { content: [{ type: "text", text: encode(result) }] };
+      }
+
       // ========================================================================
       // Monte Carlo
       // ========================================================================
@@ -2139,11 +3261,71 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
         if (args?.trials !== undefined) plan.montecarlo.trials = args.trials as number;
         if (args?.mode !== undefined) plan.montecarlo.mode = args.mode as MonteCarloSettings["mode"];
+        if (args?.sampling !== undefined) plan.montecarlo.sampling = args.sampling as MonteCarloSettings["sampling"];
+        if (args?.blockSize !== undefined) plan.montecarlo.blockSize = args.blockSize as number;
+        if (args?.investmentReturnMean !== undefined) plan.montecarlo.investmentReturnMean = args.investmentReturnMean as number;
+        if (args?.investmentReturnStdDev !== undefined) plan.montecarlo.investmentReturnStdDev = args.investmentReturnStdDev as number;
+        if (args?.bondReturnMean !== undefined) plan.montecarlo.bondReturnMean = args.bondReturnMean as number;
+        if (args?.bondReturnStdDev !== undefined) plan.montecarlo.bondReturnStdDev = args.bondReturnStdDev as number;
+        if (args?.dividendRateMean !== undefined) plan.montecarlo.dividendRateMean = args.dividendRateMean as number;
+        if (args?.dividendRateStdDev !== undefined) plan.montecarlo.dividendRateStdDev = args.dividendRateStdDev as number;
+        if (args?.inflationMean !== undefined) plan.montecarlo.inflationMean = args.inflationMean as number;
+        if (args?.inflationStdDev !== undefined) plan.montecarlo.inflationStdDev = args.inflationStdDev as number;
 
         await saveData();
         return { content: [{ type: "text", text: encode(plan.montecarlo) }] };
       }
 
+      case "run_montecarlo": {
+        const plan = findPlan(args?.planId as string);
+        const result = runMonteCarlo(getData(), plan, {
+          trials: args?.trials as number | undefined,
+          seed: args?.seed as number | undefined,
+          todayDollars: args?.todayDollars as boolean | undefined,
+        });
+        return { content: [{ type: "text", text: encode(result) }] };
+      }
+
+      case "backtest_plan": {
+        const plan = findPlan(args?.planId as string);
+        const result = backtestPlan(getData(), plan, {
+          fromYear: args?.fromYear as number | undefined,
+          toYear: args?.toYear as number | undefined,
+          todayDollars: args?.todayDollars as boolean | undefined,
+          includeAll: args?.includeAll as boolean | undefined,
+        });
+        return { content: [{ type: "text", text: encode(result) }] };
+      }
+
+      case "sensitivity_analysis": {
+        const plan = findPlan(args?.planId as string);
+        const result = analyzeSensitivity(getData(), plan, (args?.inputs as SensitivityInput[] | undefined) ?? [], {
+          metric: args?.metric as SensitivityMetric | undefined,
+          todayDollars: args?.todayDollars as boolean | undefined,
+          trials: args?.trials as number | undefined,
+        });
+        return { content: [{ type: "text", text: encode(result) }] };
+      }
+
+      case "solve_for": {
+        const plan = findPlan(args?.planId as string);
+        const variable = { variable: args?.variable as SolveVariableKind, id: args?.id as string | undefined };
+        const result = solveFor(
+          getData(),
+          plan,
+          variable,
+          { target: args?.target as SolveTargetKind, year: args?.year as number | undefined, rate: args?.rate as number | undefined },
+          { min: args?.min as number | undefined, max: args?.max as number | undefined, trials: args?.trials as number | undefined }
+        );
+        let applied = false;
+        if (args?.apply && result.solution !== null) {
+          applySolveValue(plan, variable, result.solution);
+          await saveData();
+          applied = true;
+        }
+        return { content: [{ type: "text", text: encode({ ...result, applied }) }] };
+      }
+
       // ========================================================================
       // Progress
       // ========================================================================
@@ -2181,20 +3363,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const d = getData();
 
         const savingsIdx = d.today.savingsAccounts?.findIndex((a) => a.id === accountId) ?? -1;
-        if (savingsIdx >= 0) {
-          const deleted = d.today.savingsAccounts!.splice(savingsIdx, 1)[0];
-          await saveData();
-          return { content: [{ type: "text", text: `Deleted savings account: ${deleted.name}` }] };
-        }
-
         const investmentIdx = d.today.investmentAccounts?.findIndex((a) => a.id === accountId) ?? -1;
-        if (investmentIdx >= 0) {
-          const deleted = d.today.investmentAccounts!.splice(investmentIdx, 1)[0];
-          await saveData();
-          return { content: [{ type: "text", text: `Deleted investment account: ${deleted.name}` }] };
-        }
+        if (savingsIdx < 0 && investmentIdx < 0) throw new Error(`Account not found: ${accountId}`);
 
-        throw new Error(`Account not found: ${accountId}`);
+        return await deleteReferenced({ kind: "account", id: accountId }, args?.mode as DeleteMode | undefined, () => {
+          if (savingsIdx >= 0) {
+            const deleted = d.today.savingsAccounts!.splice(savingsIdx, 1)[0];
+            return `Deleted savings account: ${deleted.name}`;
+          }
+          const deleted = d.today.investmentAccounts!.splice(investmentIdx, 1)[0];
+          return `Deleted investment account: ${deleted.name}`;
+        });
       }
 
       case "delete_debt": {
@@ -2204,9 +3383,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const idx = d.today.debts?.findIndex((debt) => debt.id === debtId) ?? -1;
         if (idx < 0) throw new Error(`Debt not found: ${debtId}`);
 
-        const deleted = d.today.debts!.splice(idx, 1)[0];
-        await saveData();
-        return { content: [{ type: "text", text: `Deleted debt: ${deleted.name}` }] };
+        return await deleteReferenced({ kind: "debt", id: debtId }, args?.mode as DeleteMode | undefined, () => {
+          const deleted = d.today.debts!.splice(idx, 1)[0];
+          return `Deleted debt: ${deleted.name}`;
+        });
       }
 
       case "delete_today_asset": {
@@ -2216,9 +3396,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const idx = d.today.assets?.findIndex((asset) => asset.id === assetId) ?? -1;
         if (idx < 0) throw new Error(`Asset not found: ${assetId}`);
 
-        const deleted = d.today.assets!.splice(idx, 1)[0];
-        await saveData();
-        return { content: [{ type: "text", text: `Deleted asset: ${deleted.name}` }] };
+        return await deleteReferenced({ kind: "asset", id: assetId }, args?.mode as DeleteMode | undefined, () => {
+          const deleted = d.today.assets!.splice(idx, 1)[0];
+          return `Deleted asset: ${deleted.name}`;
+        });
       }
 
       case "delete_income": {
@@ -2228,9 +3409,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const idx = plan.income?.events?.findIndex((i) => i.id === incomeId) ?? -1;
         if (idx < 0) throw new Error(`Income not found: ${incomeId}`);
 
-        const deleted = plan.income!.events!.splice(idx, 1)[0];
-        await saveData();
-        return { content: [{ type: "text", text: `Deleted income: ${deleted.name}` }] };
+        return await deleteReferenced({ kind: "income", id: incomeId, planId: plan.id }, args?.mode as DeleteMode | undefined, () => {
+          const deleted = plan.income!.events!.splice(idx, 1)[0];
+          return `Deleted income: ${deleted.name}`;
+        });
       }
 
       case "delete_expense": {
@@ -2257,6 +3439,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         return { content: [{ type: "text", text: `Deleted priority: ${deleted.name}` }] };
       }
 
+      case "check_contributions": {
+        const plan = findPlan(args?.planId as string);
+        const projection = runProjection(getData(), plan);
+        const result = checkContributions(getData(), plan, projection, {
+          year: args?.year as number | undefined,
+          hsaCoverage: args?.hsaCoverage as "self" | "family" | undefined,
+        });
+        return { content: [{ type: "text", text: encode(result) }] };
+      }
+
       case "reorder_priority": {
         const plan = findPlan(args?.planId as string);
         const priorityId = args?.priorityId as string;
@@ -2290,9 +3482,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const idx = plan.milestones?.findIndex((m) => m.id === milestoneId) ?? -1;
         if (idx < 0) throw new Error(`Milestone not found: ${milestoneId}`);
 
-        const deleted = plan.milestones!.splice(idx, 1)[0];
-        await saveData();
-        return { content: [{ type: "text", text: `Deleted milestone: ${deleted.name}` }] };
+        // Cascade pins dates that used the milestone to the year it is projected to be reached
+        const mode = args?.mode as DeleteMode | undefined;
+        const milestoneYear = mode === "cascade" || mode === "preview"
+          ? runProjection(getData(), plan).milestones.find((m) => m.id === milestoneId)?.year ?? null
+          : null;
+        return await deleteReferenced({ kind: "milestone", id: milestoneId, planId: plan.id }, mode, () => {
+          const deleted = plan.milestones!.splice(idx, 1)[0];
+          return `Deleted milestone: ${deleted.name}`;
+        }, milestoneYear);
       }
 
       // ========================================================================
@@ -2335,6 +3533,175 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         return { content: [{ type: "text", text: `Deleted plan: ${deleted.name}` }] };
       }
 
+      case "compare_plans": {
+        const base = findPlan(args?.planId as string);
+        const other = findPlan(args?.otherPlanId as string);
+        return { content: [{ type: "text", text: encode(comparePlans(base, other)) }] };
+      }
+
+      case "compare_scenarios": {
+        const plans = ((args?.planIds as string[] | undefined) ?? []).map((id) => findPlan(id));
+        const result = compareScenarios(getData(), plans, {
+          ages: args?.ages as number[] | undefined,
+          todayDollars: args?.todayDollars as boolean | undefined,
+        });
+        return { content: [{ type: "text", text: encode(result) }] };
+      }
+
+      // ========================================================================
+      // Validation
+      // ========================================================================
+      case "validate_data": {
+        const violations = await validateExport(getData());
+        const limit = (args?.limit as number) ?? 100;
+        return {
+          content: [{
+            type: "text",
+            text: encode({
+              valid: violations.length === 0,
+              violationCount: violations.length,
+              violations: violations.slice(0, limit),
+            }),
+          }],
+        };
+      }
+
+      case "lint_data": {
+        const d = getData();
+        if (args?.planId) findPlan(args.planId as string);
+        const levels: Severity[] = ["error", "warning", "info"];
+        const minimum = levels.indexOf((args?.severity as Severity) ?? "info");
+        if (minimum < 0) throw new Error(`Invalid severity: ${args?.severity}. Must be one of: ${levels.join(", ")}`);
+
+        const issues = lintReferences(d).filter(
+          (i) => (!args?.planId || i.planId === args.planId) && levels.indexOf(i.severity) <= minimum
+        );
+        const count = (severity: Severity) => issues.filter((i) => i.severity === severity).length;
+        return {
+          content: [{
+            type: "text",
+            text: encode({
+              clean: issues.length === 0,
+              errors: count("error"),
+              warnings: count("warning"),
+              info: count("info"),
+              issues,
+            }),
+          }],
+        };
+      }
+
+      // ========================================================================
+      // Change History
+      // ========================================================================
+      case "list_backups": {
+        getData();
+        const list = await listBackups(dataFilePath!, backups!);
+        return {
+          content: [{
+            type: "text",
+            text: encode({
+              directory: backups!.directory,
+              keep: backups!.keep,
+              backups: list.map(({ name, createdAt, size }) => ({ name, createdAt, size })),
+            }),
+          }],
+        };
+      }
+
+      case "diff_backup": {
+        const d = getData();
+        const backup = JSON.parse(await readBackup(dataFilePath!, backups!, args?.name as string));
+        const limit = (args?.limit as number) ?? 100;
+        const operations = diffJson(d, backup).filter((op) => op.path !== "/meta/lastUpdated");
+        return {
+          content: [{
+            type: "text",
+            text: encode({
+              name: args?.name,
+              totalOperations: operations.length,
+              truncated: operations.length > limit,
+              operations: operations.slice(0, limit).map((op) => ({
+                op: op.op,
+                path: op.path,
+                value: op.value === undefined ? undefined : JSON.stringify(op.value),
+              })),
+            }),
+          }],
+        };
+      }
+
+      case "restore_backup": {
+        getData();
+        const content = await readBackup(dataFilePath!, backups!, args?.name as string);
+        data = JSON.parse(content) as ProjectionLabExport;
+        await saveData();
+        return { content: [{ type: "text", text: `Restored backup: ${args?.name}` }] };
+      }
+
+      case "list_changes": {
+        getData();
+        const limit = (args?.limit as number) ?? 20;
+        const entries = journal?.entries ?? [];
+        const cursor = journal?.cursor ?? 0;
+        const changes = entries
+          .map((entry, i) => ({
+            ...summarizeEntry(entry, i < cursor),
+            ...(args?.includePatch ? { patch: entry.patch } : {}),
+          }))
+          .reverse()
+          .slice(0, limit);
+        return {
+          content: [{
+            type: "text",
+            text: encode({ canUndo: cursor, canRedo: entries.length - cursor, changes }),
+          }],
+        };
+      }
+
+      case "undo": {
+        getData();
+        if (!journal) throw new Error("No change journal available");
+        await assertUnchangedOnDisk();
+        const { doc, undone } = undoChanges(journal, data!, (args?.steps as number) ?? 1);
+        if (undone.length === 0) throw new Error("Nothing to undo");
+        data = doc;
+        await writeData();
+        return { content: [{ type: "text", text: encode({ undone: undone.map((e) => summarizeEntry(e, false)) }) }] };
+      }
+
+      case "redo": {
+        getData();
+        if (!journal) throw new Error("No change journal available");
+        await assertUnchangedOnDisk();
+        const { doc, redone } = redoChanges(journal, data!, (args?.steps as number) ?? 1);
+        if (redone.length === 0) throw new Error("Nothing to redo");
+        data = doc;
+        await writeData();
+        return { content: [{ type: "text", text: encode({ redone: redone.map((e) => summarizeEntry(e, true)) }) }] };
+      }
+
+      // ========================================================================
+      // Projection
+      // ========================================================================
+      case "run_projection": {
+        const plan = findPlan(args?.planId as string);
+        const result = runProjection(getData(), plan);
+        const years = result.years.map((y) => {
+          const row = args?.todayDollars ? toTodayDollars(y) : { ...y };
+          if (!args?.includeAccounts) delete row.accounts;
+          delete row.incomes;
+          return row;
+        });
+        return { content: [{ type: "text", text: encode({ ...result, years }) }] };
+      }
+
+      case "explain_cash_flow": {
+        const plan = findPlan(args?.planId as string);
+        const result = explainCashFlow(getData(), plan, args?.year as number);
+        return { content: [{ type: "text", text: encode(result) }] };
+      }
+
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { emptyJournal, recordChange, undoChanges, redoChanges } from "./journal.js";
+
+// Three versions of a document, journaled as two changes
+function history() {
+  const v0 = { meta: { lastUpdated: 1 }, plans: [{ id: "a", amount: 1 }] };
+  const v1 = { meta: { lastUpdated: 2 }, plans: [{ id: "a", amount: 2 }] };
+  const v2 = { meta: { lastUpdated: 3 }, plans: [{ id: "a", amount: 2 }, { id: "b", amount: 5 }] };
+  const journal = emptyJournal("hash");
+  recordChange(journal, "update", { amount: 2 }, v0, v1);
+  recordChange(journal, "add", { id: "b" }, v1, v2);
+  return { journal, v0, v1, v2 };
+}
+
+test("changes that only touch ignored paths are not recorded", () => {
+  const journal = emptyJournal("hash");
+  assert.equal(recordChange(journal, "noop", {}, { meta: { lastUpdated: 1 } }, { meta: { lastUpdated: 2 } }), null);
+  assert.equal(journal.entries.length, 0);
+});
+
+test("undo and redo round-trip a document", () => {
+  const { journal, v0, v1, v2 } = history();
+  assert.equal(journal.cursor, 2);
+
+  const once = undoChanges(journal, structuredClone(v2), 1);
+  assert.deepEqual(once.undone.map((e) => e.tool), ["add"]);
+  assert.deepEqual(once.doc.plans, v1.plans);
+  assert.equal(journal.cursor, 1);
+
+  const all = undoChanges(journal, once.doc, 5);
+  assert.deepEqual(all.doc.plans, v0.plans);
+  assert.equal(journal.cursor, 0);
+  assert.equal(undoChanges(journal, all.doc, 1).undone.length, 0);
+
+  const redone = redoChanges(journal, all.doc, 2);
+  assert.deepEqual(redone.redone.map((e) => e.tool), ["update", "add"]);
+  assert.deepEqual(redone.doc.plans, v2.plans);
+  assert.equal(journal.cursor, 2);
+});
+
+test("a new change discards undone entries", () => {
+  const { journal, v1, v2 } = history();
+  const { doc } = undoChanges(journal, structuredClone(v2), 1);
+  recordChange(journal, "other", {}, v1, { ...v1, plans: [] });
+  assert.deepEqual(journal.entries.map((e) => e.tool), ["update", "other"]);
+  assert.equal(redoChanges(journal, doc, 1).redone.length, 0);
+});
+
+test("a failing step leaves the document and cursor untouched", () => {
+  const { journal, v2 } = history();
+  journal.entries[0].inverse = [{ op: "replace", path: "/missing/amount", value: 1 }];
+  const doc = structuredClone(v2);
+
+  assert.throws(() => undoChanges(journal, doc, 2), /Patch path not found/);
+  assert.equal(journal.cursor, 2);
+  assert.deepEqual(doc, v2);
+});
@@ -0,0 +1,119 @@
+/**
+ * Undo/redo journal of changes made through mutating tools.
+ *
+ * Each entry stores the tool call plus forward and inverse JSON patches. The
+ * journal lives in memory and is mirrored to "<data file>.journal.json" so it
+ * survives server restarts, as long as the data file has not changed since.
+ */
+
+import * as fs from "fs/promises";
+import { createHash } from "crypto";
+import { diffJson, applyPatch, clone, PatchOperation } from "./json-patch.js";
+import { writeFileAtomic } from "./files.js";
+
+export interface JournalEntry {
+  id: number;
+  timestamp: number;
+  tool: string;
+  args: Record<string, unknown>;
+  patch: PatchOperation[];
+  inverse: PatchOperation[];
+}
+
+export interface Journal {
+  // Hash of the data file contents the journal is consistent with
+  fileHash: string;
+  // Number of entries currently applied; entries past the cursor can be redone
+  cursor: number;
+  nextId: number;
+  entries: JournalEntry[];
+}
+
+export const MAX_JOURNAL_ENTRIES = 200;
+
+// Paths that change on every save and are not meaningful to undo
+const IGNORED_PATHS = new Set(["/meta/lastUpdated"]);
+
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+export function journalPath(dataFilePath: string): string {
+  return `${dataFilePath}.journal.json`;
+}
+
+export function emptyJournal(fileHash: string): Journal {
+  return { fileHash, cursor: 0, nextId: 1, entries: [] };
+}
+
+// Load the journal for a data file, starting fresh if it is missing or stale
+export async function loadJournal(dataFilePath: string, content: string): Promise<Journal> {
+  const fileHash = hashContent(content);
+  try {
+    const journal = JSON.parse(await fs.readFile(journalPath(dataFilePath), "utf-8")) as Journal;
+    if (journal.fileHash === fileHash && Array.isArray(journal.entries)) {
+      return journal;
+    }
+  } catch {
+    // No usable journal on disk
+  }
+  return emptyJournal(fileHash);
+}
+
+export async function saveJournal(dataFilePath: string, journal: Journal): Promise<void> {
+  await writeFileAtomic(journalPath(dataFilePath), JSON.stringify(journal));
+}
+
+// Record a change, discarding any undone entries that can no longer be redone.
+// Returns null when the call did not change anything.
+export function recordChange(
+  journal: Journal,
+  tool: string,
+  args: Record<string, unknown>,
+  before: unknown,
+  after: unknown
+): JournalEntry | null {
+  const patch = diffJson(before, after).filter((op) => !IGNORED_PATHS.has(op.path));
+  if (patch.length === 0) return null;
+  const inverse = diffJson(after, before).filter((op) => !IGNORED_PATHS.has(op.path));
+
+  const entry: JournalEntry = { id: journal.nextId++, timestamp: Date.now(), tool, args, patch, inverse };
+  journal.entries = journal.entries.slice(0, journal.cursor);
+  journal.entries.push(entry);
+  if (journal.entries.length > MAX_JOURNAL_ENTRIES) {
+    journal.entries = journal.entries.slice(-MAX_JOURNAL_ENTRIES);
+  }
+  journal.cursor = journal.entries.length;
+  return entry;
+}
+
+// Revert up to `steps` applied entries, most recent first. Patches are applied to a
+// copy and the cursor only moves once every step succeeds, so a failure leaves
+// both the journal and `doc` untouched.
+export function undoChanges<T>(journal: Journal, doc: T, steps: number): { doc: T; undone: JournalEntry[] } {
+  const undone = journal.entries.slice(Math.max(0, journal.cursor - steps), journal.cursor).reverse();
+  let result = clone(doc);
+  for (const entry of undone) result = applyPatch(result, entry.inverse);
+  journal.cursor -= undone.length;
+  return { doc: undone.length ? result : doc, undone };
+}
+
+// Re-apply up to `steps` undone entries, oldest first, with the same all-or-nothing guarantee
+export function redoChanges<T>(journal: Journal, doc: T, steps: number): { doc: T; redone: JournalEntry[] } {
+  const redone = journal.entries.slice(journal.cursor, journal.cursor + Math.max(0, steps));
+  let result = clone(doc);
+  for (const entry of redone) result = applyPatch(result, entry.patch);
+  journal.cursor += redone.length;
+  return { doc: redone.length ? result : doc, redone };
+}
+
+export function summarizeEntry(entry: JournalEntry, applied: boolean) {
+  return {
+    id: entry.id,
+    timestamp: new Date(entry.timestamp).toISOString(),
+    tool: entry.tool,
+    applied,
+    operations: entry.patch.length,
+    args: JSON.stringify(entry.args),
+  };
+}
@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { diffJson, applyPatch, clone } from "./json-patch.js";
+
+test("a diff applied to the original reproduces the new document", () => {
+  const before = { a: 1, b: { c: [1, 2, 3] }, gone: true, "x/y": "~" };
+  const after = { a: 2, b: { c: [1, 3, 4] }, added: { d: null }, "x/y": "~~" };
+  const ops = diffJson(before, after);
+  assert.deepEqual(applyPatch(clone(before), ops), after);
+  assert.ok(ops.some((op) => op.path === "/x~1y"));
+});
+
+test("inserting into an array of entities is a single add", () => {
+  const before = { plans: [{ id: "a" }, { id: "b" }, { id: "c" }] };
+  const after = { plans: [{ id: "new" }, { id: "a" }, { id: "b" }, { id: "c" }] };
+  assert.deepEqual(diffJson(before, after), [{ op: "add", path: "/plans/0", value: { id: "new" } }]);
+  assert.deepEqual(diffJson(after, before), [{ op: "remove", path: "/plans/0" }]);
+});
+
+test("changes inside a moved-up element patch its new index", () => {
+  const before = { plans: [{ id: "a" }, { id: "b", amount: 1 }] };
+  const after = { plans: [{ id: "b", amount: 2 }] };
+  const ops = diffJson(before, after);
+  assert.deepEqual(ops, [
+    { op: "remove", path: "/plans/0" },
+    { op: "replace", path: "/plans/0/amount", value: 2 },
+  ]);
+  assert.deepEqual(applyPatch(clone(before), ops), after);
+});
+
+test("identical documents have an empty diff", () => {
+  assert.deepEqual(diffJson({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] }), []);
+});
+
+test("applyPatch replaces the root and rejects unknown paths", () => {
+  assert.deepEqual(applyPatch({ a: 1 }, [{ op: "replace", path: "", value: { b: 2 } }]), { b: 2 });
+  assert.throws(() => applyPatch({ a: 1 }, [{ op: "add", path: "/x/y", value: 1 }]), /Patch path not found/);
+});
@@ -0,0 +1,153 @@
+/**
+ * Minimal JSON Patch (RFC 6902) support: diffing two documents and applying
+ * add/remove/replace operations.
+ */
+
+export interface PatchOperation {
+  op: "add" | "remove" | "replace";
+  path: string;
+  value?: unknown;
+}
+
+function escapeSegment(segment: string | number): string {
+  return String(segment).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function unescapeSegment(segment: string): string {
+  return segment.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// Arrays longer than this (in combined cells) are diffed by index instead of aligned
+const MAX_ALIGNMENT_CELLS = 4_000_000;
+
+// Identity of an array element: its id when it has one, otherwise its contents
+function elementKey(value: unknown): string {
+  if (isObject(value) && typeof value.id === "string") return `id:${value.id}`;
+  return `json:${JSON.stringify(value)}`;
+}
+
+function diffArraysByIndex(before: unknown[], after: unknown[], path: string): PatchOperation[] {
+  const ops: PatchOperation[] = [];
+  const common = Math.min(before.length, after.length);
+  for (let i = 0; i < common; i++) {
+    ops.push(...diffJson(before[i], after[i], `${path}/${i}`));
+  }
+  for (let i = before.length - 1; i >= after.length; i--) {
+    ops.push({ op: "remove", path: `${path}/${i}` });
+  }
+  for (let i = before.length; i < after.length; i++) {
+    ops.push({ op: "add", path: `${path}/${i}`, value: clone(after[i]) });
+  }
+  return ops;
+}
+
+// Align elements with a longest common subsequence so that inserting or deleting
+// one entry produces a single add/remove instead of shifting every later index
+function diffArrays(before: unknown[], after: unknown[], path: string): PatchOperation[] {
+  const n = before.length;
+  const m = after.length;
+  if ((n + 1) * (m + 1) > MAX_ALIGNMENT_CELLS) return diffArraysByIndex(before, after, path);
+
+  const a = before.map(elementKey);
+  const b = after.map(elementKey);
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  // Walk the alignment, tracking the index in the partially patched array
+  const ops: PatchOperation[] = [];
+  let i = 0;
+  let j = 0;
+  let index = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[i] === b[j]) {
+      ops.push(...diffJson(before[i], after[j], `${path}/${index}`));
+      i++;
+      j++;
+      index++;
+    } else if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      ops.push({ op: "add", path: `${path}/${index}`, value: clone(after[j]) });
+      j++;
+      index++;
+    } else {
+      ops.push({ op: "remove", path: `${path}/${index}` });
+      i++;
+    }
+  }
+  return ops;
+}
+
+// Operations that transform `before` into `after`, applied in order
+export function diffJson(before: unknown, after: unknown, path = ""): PatchOperation[] {
+  if (before === after) return [];
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return diffArrays(before, after, path);
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const ops: PatchOperation[] = [];
+    for (const key of Object.keys(before)) {
+      const childPath = `${path}/${escapeSegment(key)}`;
+      if (!(key in after) || after[key] === undefined) {
+        if (before[key] !== undefined) ops.push({ op: "remove", path: childPath });
+      } else {
+        ops.push(...diffJson(before[key], after[key], childPath));
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if ((!(key in before) || before[key] === undefined) && after[key] !== undefined) {
+        ops.push({ op: "add", path: `${path}/${escapeSegment(key)}`, value: clone(after[key]) });
+      }
+    }
+    return ops;
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{ op: "replace", path, value: clone(after) }];
+}
+
+// Apply operations in place. A replace at the root path returns the new document.
+export function applyPatch<T>(doc: T, ops: PatchOperation[]): T {
+  let root: unknown = doc;
+  for (const op of ops) {
+    if (op.path === "") {
+      if (op.op === "remove") throw new Error("Cannot remove the document root");
+      root = clone(op.value);
+      continue;
+    }
+
+    const segments = op.path.split("/").slice(1).map(unescapeSegment);
+    const last = segments.pop()!;
+    let parent: unknown = root;
+    for (const segment of segments) {
+      parent = Array.isArray(parent) ? parent[Number(segment)] : (parent as Record<string, unknown>)?.[segment];
+      if (parent === undefined || parent === null) {
+        throw new Error(`Patch path not found: ${op.path}`);
+      }
+    }
+
+    if (Array.isArray(parent)) {
+      const index = last === "-" ? parent.length : Number(last);
+      if (op.op === "add") parent.splice(index, 0, clone(op.value));
+      else if (op.op === "remove") parent.splice(index, 1);
+      else parent[index] = clone(op.value);
+    } else {
+      const obj = parent as Record<string, unknown>;
+      if (op.op === "remove") delete obj[last];
+      else obj[last] = clone(op.value);
+    }
+  }
+  return root as T;
+}
@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateCriteria, resolveMilestonesForYear, setMilestoneYear, MilestoneState } from "./milestones.js";
+import { Milestone } from "./types.js";
+
+function state(year: number, netWorth: number): MilestoneState {
+  const snapshot = { netWorth: 100000, totalDebt: 50000, accounts: new Map(), debts: new Map() };
+  return {
+    ...snapshot,
+    year,
+    netWorth,
+    inflationIndex: 2,
+    annualExpenses: 40000,
+    initial: snapshot,
+    reached: new Map(),
+  };
+}
+
+test("value types scale the target amount", () => {
+  const s = state(2030, 1000000);
+  assert.ok(evaluateCriteria([{ type: "netWorth", value: 25, valueType: "expenses" }], s));
+  assert.ok(!evaluateCriteria([{ type: "netWorth", value: 600000, valueType: "today$" }], s));
+  assert.ok(evaluateCriteria([{ type: "netWorth", value: 1000, valueType: "%" }], s));
+  // Debt is reached by going down to the target
+  assert.ok(evaluateCriteria([{ type: "totalDebt", value: 50000 }], s));
+});
+
+test("criteria combine left to right with and/or", () => {
+  const s = state(2030, 500000);
+  const year = { type: "year" as const, value: "2030-01-01" };
+  const rich = { type: "netWorth" as const, value: 1000000 };
+  assert.ok(!evaluateCriteria([year, { ...rich, logic: "and" }], s));
+  assert.ok(evaluateCriteria([year, { ...rich, logic: "or" }], s));
+  assert.ok(!evaluateCriteria([{ ...year, modifier: "exclude" }], s));
+  assert.ok(!evaluateCriteria([], s));
+});
+
+test("chained milestones are reached in the same year", () => {
+  const s = state(2030, 0);
+  const reached = resolveMilestonesForYear(
+    [
+      { id: "second", name: "Second", criteria: [{ type: "milestone", value: "first" }] },
+      { id: "first", name: "First", criteria: [{ type: "year", value: "2030-01-01" }] },
+    ],
+    s,
+  );
+  assert.deepEqual(reached.sort(), ["first", "second"]);
+  assert.equal(s.reached.get("second"), 2030);
+});
+
+test("setMilestoneYear moves only the year criterion", () => {
+  const milestone: Milestone = {
+    id: "retirement",
+    name: "Retirement",
+    criteria: [
+      { type: "netWorth", value: 2000000 },
+      { type: "date", value: "2040-06-01", logic: "or" },
+    ],
+  };
+  setMilestoneYear(milestone, 2045);
+  assert.deepEqual(milestone.criteria, [
+    { type: "netWorth", value: 2000000 },
+    { type: "date", value: "2045-06-01", logic: "or" },
+  ]);
+
+  // "exclude" is reached the year after its value
+  const excluded: Milestone = { id: "m", name: "M", criteria: [{ type: "year", value: "2040-01-01", modifier: "exclude" }] };
+  setMilestoneYear(excluded, 2045);
+  assert.equal(excluded.criteria![0].value, "2044-01-01");
+
+  const none: Milestone = { id: "m", name: "M", criteria: [{ type: "netWorth", value: 1 }] };
+  setMilestoneYear(none, 2045);
+  assert.deepEqual(none.criteria![1], { type: "year", value: "2045-01-01" });
+});
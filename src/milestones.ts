@@ -0,0 +1,164 @@
+/**
+ * Semantics of Milestone.criteria, evaluated against projected financial state.
+ *
+ * validateCriteria/validateCriteriaReferences in index.ts check structure; this
+ * module decides whether a milestone has actually been reached in a given year.
+ */
+
+import { Milestone, MilestoneCriterion } from "./types.js";
+import { parseYear } from "./dates.js";
+
+export interface FinancialSnapshot {
+  netWorth: number;
+  totalDebt: number;
+  accounts: Map<string, number>;
+  debts: Map<string, number>;
+}
+
+export interface MilestoneState extends FinancialSnapshot {
+  year: number;
+  inflationIndex: number;
+  // Planned spending for the year, used by valueType "expenses" (e.g., 25x expenses for FIRE)
+  annualExpenses: number;
+  // Starting values, used by valueType "%"
+  initial: FinancialSnapshot;
+  // Year each milestone was reached; absent or null if not reached yet
+  reached: Map<string, number | null>;
+}
+
+// Debt criteria are satisfied by going down, everything else by going up
+function defaultOperator(type: MilestoneCriterion["type"]): NonNullable<MilestoneCriterion["operator"]> {
+  return type === "totalDebt" || type === "debt" ? "<=" : ">=";
+}
+
+function compare(actual: number, operator: NonNullable<MilestoneCriterion["operator"]>, target: number): boolean {
+  switch (operator) {
+    case ">=":
+      return actual >= target;
+    case "<=":
+      return actual <= target;
+    case ">":
+      return actual > target;
+    case "<":
+      return actual < target;
+    case "==":
+      return Math.abs(actual - target) <= Math.max(1, Math.abs(target) * 0.005);
+  }
+}
+
+// Convert a criterion's value into nominal dollars for the current year
+function targetAmount(c: MilestoneCriterion, state: MilestoneState, initial: number): number {
+  const value = typeof c.value === "number" ? c.value : parseFloat(String(c.value ?? 0));
+  switch (c.valueType) {
+    case "today$":
+      return value * state.inflationIndex;
+    case "expenses":
+      return value * state.annualExpenses;
+    case "%":
+      return (initial * value) / 100;
+    default:
+      return value;
+  }
+}
+
+export function evaluateCriterion(c: MilestoneCriterion, state: MilestoneState): boolean {
+  switch (c.type) {
+    case "year":
+    case "date": {
+      const year = parseYear(c.value);
+      if (year === null) return false;
+      return c.modifier === "exclude" ? state.year > year : state.year >= year;
+    }
+    case "milestone": {
+      const reachedYear = state.reached.get(String(c.refId ?? c.value));
+      return reachedYear !== undefined && reachedYear !== null && reachedYear <= state.year;
+    }
+    case "netWorth":
+      return compare(state.netWorth, c.operator ?? defaultOperator(c.type), targetAmount(c, state, state.initial.netWorth));
+    case "account": {
+      const balance = c.refId ? state.accounts.get(c.refId) ?? 0 : 0;
+      const initial = c.refId ? state.initial.accounts.get(c.refId) ?? 0 : 0;
+      return compare(balance, c.operator ?? defaultOperator(c.type), targetAmount(c, state, initial));
+    }
+    case "debt":
+    case "totalDebt": {
+      // A totalDebt criterion with a refId tracks that single debt
+      const balance = c.refId ? state.debts.get(c.refId) ?? 0 : state.totalDebt;
+      const initial = c.refId ? state.initial.debts.get(c.refId) ?? 0 : state.initial.totalDebt;
+      return compare(balance, c.operator ?? defaultOperator(c.type), targetAmount(c, state, initial));
+    }
+    default:
+      return false;
+  }
+}
+
+// Criteria combine left to right using each criterion's logic ("and" by default)
+export function evaluateCriteria(criteria: MilestoneCriterion[], state: MilestoneState): boolean {
+  if (criteria.length === 0) return false;
+  let result = evaluateCriterion(criteria[0], state);
+  for (const c of criteria.slice(1)) {
+    result = c.logic === "or" ? result || evaluateCriterion(c, state) : result && evaluateCriterion(c, state);
+  }
+  return result;
+}
+
+// Mark milestones reached in state.year, repeating so chained milestones resolve the same year.
+// Returns the IDs of milestones newly reached.
+export function resolveMilestonesForYear(milestones: Milestone[], state: MilestoneState): string[] {
+  const newlyReached: string[] = [];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const m of milestones) {
+      const reachedYear = state.reached.get(m.id);
+      if (reachedYear !== undefined && reachedYear !== null) continue;
+      if (evaluateCriteria(m.criteria ?? [], state)) {
+        state.reached.set(m.id, state.year);
+        newlyReached.push(m.id);
+        changed = true;
+      }
+    }
+  }
+  return newlyReached;
+}
+
+// Move a milestone's year/date criterion to `year`, keeping its other criteria (e.g., a netWorth target);
+// appends a year criterion when there is none
+export function setMilestoneYear(milestone: Milestone, year: number): void {
+  const criteria = (milestone.criteria ??= []);
+  const existing = criteria.find((c) => c.type === "year" || c.type === "date");
+  if (!existing) {
+    criteria.push({ type: "year", value: `${year}-01-01` });
+    return;
+  }
+  // "exclude" is reached the year after its value
+  const target = existing.modifier === "exclude" ? year - 1 : year;
+  if (typeof existing.value === "number") {
+    existing.value = target;
+  } else if (typeof existing.value === "string" && /^\d{4}/.test(existing.value)) {
+    existing.value = `${target}${existing.value.slice(4)}`;
+  } else {
+    existing.value = `${target}-01-01`;
+  }
+}
+
+// Human-readable summary of a criteria list, e.g. "netWorth >= 25 expenses and year 2040"
+export function describeCriteria(criteria: MilestoneCriterion[]): string {
+  return criteria
+    .map((c, i) => {
+      const prefix = i === 0 ? "" : `${c.logic ?? "and"} `;
+      switch (c.type) {
+        case "year":
+        case "date":
+          return `${prefix}${c.type} ${c.value}`;
+        case "milestone":
+          return `${prefix}milestone ${c.refId ?? c.value}`;
+        default: {
+          const target = c.refId ? `${c.type}(${c.refId})` : `${c.type}`;
+          const unit = c.valueType && c.valueType !== "$" ? ` ${c.valueType}` : "";
+          return `${prefix}${target} ${c.operator ?? defaultOperator(c.type)} ${c.value}${unit}`;
+        }
+      }
+    })
+    .join(" ");
+}
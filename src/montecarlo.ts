@@ -0,0 +1,202 @@
+/**
+ * Monte Carlo simulation of a plan driven by MonteCarloSettings.
+ *
+ * Each trial runs the deterministic projection engine with randomly sampled
+ * yearly investment returns, bond returns, dividends and inflation. In
+ * historical mode, trials instead replay the bundled 1928-2024 US market
+ * history: one trial per start year (backtest-sequential), or blocks of
+ * consecutive years from random start years (backtest-random-restart).
+ */
+
+import { ProjectionLabExport, Plan } from "./types.js";
+import { runProjection, toTodayDollars, YearRates } from "./projection.js";
+import { createRandom, sampleNormal, percentile, Random } from "./random.js";
+import { HISTORICAL_RETURNS, HistoricalYear, historicalRates, historicalSequence } from "./historical-returns.js";
+
+export interface MonteCarloOptions {
+  trials?: number;
+  seed?: number;
+  todayDollars?: boolean;
+}
+
+export interface MonteCarloBand {
+  year: number;
+  age?: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface MonteCarloResult {
+  planId: string;
+  planName: string;
+  trials: number;
+  seed: number;
+  mode: string;
+  // Historical mode only
+  sampling?: "backtest-sequential" | "backtest-random-restart";
+  successRate: number;
+  assumptions: {
+    investmentReturnMean: number;
+    investmentReturnStdDev: number;
+    bondReturnMean: number;
+    bondReturnStdDev: number;
+    dividendRateMean: number;
+    dividendRateStdDev: number;
+    inflationMean: number;
+    inflationStdDev: number;
+  };
+  medianEndingNetWorth: number;
+  bands: MonteCarloBand[];
+  depletion: {
+    failedTrials: number;
+    medianAge: number | null;
+    ages: Array<{ age: number; trials: number }>;
+  };
+  warnings: string[];
+}
+
+// Upper bound keeps a single tool call from monopolizing the server
+export const MAX_TRIALS = 10000;
+const DEFAULT_TRIALS = 1000;
+// Years replayed consecutively before backtest-random-restart jumps to a new start year
+const DEFAULT_BLOCK_SIZE = 10;
+
+// Yearly rate sampler for one trial; exported so other simulations can share the distribution
+export function normalRateSampler(
+  assumptions: MonteCarloResult["assumptions"],
+  random: Random
+): (yearIndex: number, year: number) => Partial<YearRates> {
+  return () => ({
+    investmentReturn: sampleNormal(random, assumptions.investmentReturnMean, assumptions.investmentReturnStdDev),
+    bondReturn: sampleNormal(random, assumptions.bondReturnMean, assumptions.bondReturnStdDev),
+    dividendRate: Math.max(0, sampleNormal(random, assumptions.dividendRateMean, assumptions.dividendRateStdDev)),
+    inflation: sampleNormal(random, assumptions.inflationMean, assumptions.inflationStdDev),
+  });
+}
+
+// Historical sequence built from blocks of consecutive years, each starting at a random year
+function randomRestartSequence(random: Random, length: number, blockSize: number): HistoricalYear[] {
+  const sequence: HistoricalYear[] = [];
+  while (sequence.length < length) {
+    const start = HISTORICAL_RETURNS[Math.floor(random() * HISTORICAL_RETURNS.length)].year;
+    sequence.push(...historicalSequence(start, Math.min(blockSize, length - sequence.length)));
+  }
+  return sequence;
+}
+
+// Resolve distribution parameters from MonteCarloSettings, falling back to the plan's fixed assumptions
+export function monteCarloAssumptions(plan: Plan): MonteCarloResult["assumptions"] {
+  const mc = plan.montecarlo ?? {};
+  const v = plan.variables ?? {};
+  return {
+    investmentReturnMean: mc.investmentReturnMean ?? v.investmentReturn ?? 7,
+    investmentReturnStdDev: mc.investmentReturnStdDev ?? 15,
+    bondReturnMean: mc.bondReturnMean ?? v.bondInvestmentReturn ?? 3,
+    bondReturnStdDev: mc.bondReturnStdDev ?? 6,
+    dividendRateMean: mc.dividendRateMean ?? v.dividendRate ?? 0,
+    dividendRateStdDev: mc.dividendRateStdDev ?? 0,
+    inflationMean: mc.inflationMean ?? v.inflation ?? 3,
+    inflationStdDev: mc.inflationStdDev ?? 1.5,
+  };
+}
+
+export function runMonteCarlo(
+  data: ProjectionLabExport,
+  plan: Plan,
+  options: MonteCarloOptions = {}
+): MonteCarloResult {
+  const mc = plan.montecarlo ?? {};
+  const warnings: string[] = [];
+  const seed = options.seed ?? 1;
+  let trials = Math.max(1, Math.min(MAX_TRIALS, Math.floor(options.trials ?? mc.trials ?? DEFAULT_TRIALS)));
+  if ((options.trials ?? mc.trials ?? 0) > MAX_TRIALS) {
+    warnings.push(`Trials capped at ${MAX_TRIALS}`);
+  }
+
+  const mode = mc.mode ?? "normal";
+  const sampling = mode === "historical" ? (mc.sampling === "backtest-random-restart" ? mc.sampling : "backtest-sequential") : undefined;
+  const length = sampling ? runProjection(data, plan).years.length : 0;
+  if (sampling === "backtest-sequential" && trials !== HISTORICAL_RETURNS.length) {
+    trials = HISTORICAL_RETURNS.length;
+    warnings.push(`Sequential backtests run one trial per historical start year (${trials})`);
+  }
+  const blockSize = Math.max(1, Math.floor(mc.blockSize ?? DEFAULT_BLOCK_SIZE));
+
+  const assumptions = monteCarloAssumptions(plan);
+  const random = createRandom(seed);
+  const ratesForTrial = (t: number) => {
+    if (sampling === "backtest-sequential") return historicalRates(historicalSequence(HISTORICAL_RETURNS[t].year, length));
+    if (sampling === "backtest-random-restart") return historicalRates(randomRestartSequence(random, length, blockSize));
+    return normalRateSampler(assumptions, random);
+  };
+
+  const netWorthByYear: number[][] = [];
+  const years: Array<{ year: number; age?: number }> = [];
+  const endingNetWorth: number[] = [];
+  const depletionAges: number[] = [];
+  let successes = 0;
+
+  for (let t = 0; t < trials; t++) {
+    const result = runProjection(data, plan, { rates: ratesForTrial(t) });
+    if (t === 0) {
+      warnings.push(...result.warnings);
+      for (const y of result.years) {
+        years.push({ year: y.year, age: y.age });
+        netWorthByYear.push([]);
+      }
+    }
+
+    result.years.forEach((y, i) => {
+      const row = options.todayDollars ? toTodayDollars(y) : y;
+      netWorthByYear[i].push(row.netWorth);
+    });
+    const last = result.years[result.years.length - 1];
+    endingNetWorth.push(options.todayDollars ? toTodayDollars(last).netWorth : last.netWorth);
+
+    if (result.depletedYear === null) {
+      successes++;
+    } else {
+      const depleted = result.years.find((y) => y.year === result.depletedYear);
+      if (depleted?.age !== undefined) depletionAges.push(depleted.age);
+    }
+  }
+
+  const bands = years.map((y, i) => {
+    const sorted = netWorthByYear[i].sort((a, b) => a - b);
+    return {
+      year: y.year,
+      age: y.age,
+      p10: Math.round(percentile(sorted, 10)),
+      p25: Math.round(percentile(sorted, 25)),
+      p50: Math.round(percentile(sorted, 50)),
+      p75: Math.round(percentile(sorted, 75)),
+      p90: Math.round(percentile(sorted, 90)),
+    };
+  });
+
+  const ageCounts = new Map<number, number>();
+  for (const age of depletionAges) ageCounts.set(age, (ageCounts.get(age) ?? 0) + 1);
+  depletionAges.sort((a, b) => a - b);
+
+  return {
+    planId: plan.id,
+    planName: plan.name,
+    trials,
+    seed,
+    mode,
+    ...(sampling ? { sampling } : {}),
+    successRate: Math.round((successes / trials) * 1000) / 10,
+    assumptions,
+    medianEndingNetWorth: Math.round(percentile(endingNetWorth.sort((a, b) => a - b), 50)),
+    bands,
+    depletion: {
+      failedTrials: trials - successes,
+      medianAge: depletionAges.length ? percentile(depletionAges, 50) : null,
+      ages: [...ageCounts.entries()].sort((a, b) => a[0] - b[0]).map(([age, count]) => ({ age, trials: count })),
+    },
+    warnings: [...new Set(warnings)],
+  };
+}
@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { comparePlans } from "./plan-diff.js";
+import { Plan } from "./types.js";
+
+function base(): Plan {
+  return {
+    id: "base",
+    name: "Base",
+    variables: { investmentReturn: 7, inflation: 3 },
+    income: { events: [{ id: "salary", type: "salary", name: "Salary", amount: 100000, start: { type: "keyword", value: "now" } }] },
+    expenses: { events: [{ id: "rent", type: "rent", name: "Rent", amount: 2000 }] },
+    priorities: {
+      events: [
+        { id: "k", type: "401k", name: "401k" },
+        { id: "ira", type: "roth-ira", name: "IRA" },
+      ],
+    },
+  } as unknown as Plan;
+}
+
+test("a duplicated plan is identical apart from its id and name", () => {
+  const copy = { ...structuredClone(base()), id: "copy", name: "Copy" };
+  const diff = comparePlans(base(), copy);
+  assert.ok(diff.identical);
+  assert.deepEqual(diff.summary, []);
+});
+
+test("events are matched by id, then by name and type", () => {
+  const other = structuredClone(base());
+  other.income!.events![0].amount = 120000;
+  (other.income!.events![0].start as { value: string }).value = "endOfPlan";
+  // Re-created with a new id: matched by name
+  other.expenses!.events = [{ id: "rent2", type: "rent", name: "rent", amount: 2000 } as never, { id: "car", type: "car", name: "Car" } as never];
+  other.variables!.investmentReturn = 6;
+
+  const diff = comparePlans(base(), other);
+  assert.deepEqual(diff.events.income[0].changes, [
+    { field: "amount", from: 100000, to: 120000 },
+    { field: "start.value", from: "now", to: "endOfPlan" },
+  ]);
+  assert.deepEqual(
+    diff.events.expenses.map((e) => [e.change, e.id, e.otherId]),
+    [
+      ["changed", "rent", "rent2"],
+      ["added", "car", undefined],
+    ]
+  );
+  assert.deepEqual(diff.variables, [{ field: "investmentReturn", from: 7, to: 6 }]);
+  assert.ok(diff.summary.includes("variables.investmentReturn: 7 -> 6"));
+});
+
+test("reordered priorities are reported as an order change", () => {
+  const other = structuredClone(base());
+  other.priorities!.events!.reverse();
+  const diff = comparePlans(base(), other);
+  assert.deepEqual(diff.priorityOrder, { base: ["401k", "IRA"], other: ["IRA", "401k"] });
+  assert.deepEqual(diff.events.priorities, []);
+  assert.equal(diff.summary.length, 1);
+});
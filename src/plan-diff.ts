@@ -0,0 +1,193 @@
+/**
+ * Structured diff between two plans, e.g. a plan and a scenario made from it
+ * with duplicate_plan.
+ *
+ * Events are matched by id (duplicated plans keep their event ids), then by
+ * name and type among those left over, and compared field by field.
+ */
+
+import { Plan } from "./types.js";
+
+export type PlanSection = "income" | "expenses" | "priorities" | "assets" | "milestones";
+
+export interface FieldChange {
+  // Dotted path within the event or settings object, e.g. "start.value"
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface EventDiff {
+  change: "added" | "removed" | "changed";
+  id: string;
+  // Id of the matching event in the other plan, when matched by name
+  otherId?: string;
+  name: string;
+  type?: string;
+  changes?: FieldChange[];
+}
+
+export interface PlanDiff {
+  base: { id: string; name: string };
+  other: { id: string; name: string };
+  identical: boolean;
+  // One line per difference
+  summary: string[];
+  events: Record<PlanSection, EventDiff[]>;
+  // Priorities present in both plans but funded in a different order
+  priorityOrder?: { base: string[]; other: string[] };
+  variables: FieldChange[];
+  withdrawalStrategy: FieldChange[];
+  montecarlo: FieldChange[];
+}
+
+interface NamedEvent {
+  id?: string;
+  name?: string;
+  title?: string;
+  type?: string;
+}
+
+const SECTION_LABELS: Record<PlanSection, string> = {
+  income: "Income",
+  expenses: "Expense",
+  priorities: "Priority",
+  assets: "Asset",
+  milestones: "Milestone",
+};
+
+// Bookkeeping fields that differ between copies without changing the plan
+const IGNORED_FIELDS = new Set(["id", "key", "planPath", "lastUpdated"]);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Leaf-level differences; arrays are compared whole
+function fieldChanges(before: unknown, after: unknown, prefix = ""): FieldChange[] {
+  if (isObject(before) && isObject(after)) {
+    const changes: FieldChange[] = [];
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    for (const key of keys) {
+      if (prefix === "" && IGNORED_FIELDS.has(key)) continue;
+      changes.push(...fieldChanges(before[key], after[key], prefix ? `${prefix}.${key}` : key));
+    }
+    return changes;
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [
+    {
+      field: prefix,
+      ...(before !== undefined ? { from: before } : {}),
+      ...(after !== undefined ? { to: after } : {}),
+    },
+  ];
+}
+
+function nameOf(e: NamedEvent): string {
+  return e.name ?? e.title ?? e.id ?? "(unnamed)";
+}
+
+function show(value: unknown): string {
+  if (value === undefined) return "(unset)";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function describe(changes: FieldChange[]): string {
+  return changes.map((c) => `${c.field} ${show(c.from)} -> ${show(c.to)}`).join("; ");
+}
+
+// Pair each event in `before` with its counterpart in `after`, if any
+function matchEvents<T extends NamedEvent>(before: T[], after: T[]): { pairs: Array<[T, T | undefined]>; unmatched: Set<T> } {
+  const unmatched = new Set(after);
+  const pairs: Array<[T, T | undefined]> = [];
+  for (const e of before) {
+    const match = e.id ? after.find((o) => o.id === e.id && unmatched.has(o)) : undefined;
+    if (match) unmatched.delete(match);
+    pairs.push([e, match]);
+  }
+  // Fall back to name and type for events that were re-created rather than edited
+  for (const pair of pairs) {
+    if (pair[1]) continue;
+    const key = nameOf(pair[0]).toLowerCase();
+    const match = [...unmatched].find((o) => nameOf(o).toLowerCase() === key && o.type === pair[0].type);
+    if (match) {
+      unmatched.delete(match);
+      pair[1] = match;
+    }
+  }
+  return { pairs, unmatched };
+}
+
+function diffEvents(before: NamedEvent[], after: NamedEvent[]): EventDiff[] {
+  const diffs: EventDiff[] = [];
+  const { pairs, unmatched } = matchEvents(before, after);
+  for (const [e, match] of pairs) {
+    const base = { id: e.id ?? "", name: nameOf(e), ...(e.type ? { type: e.type } : {}) };
+    if (!match) {
+      diffs.push({ change: "removed", ...base });
+      continue;
+    }
+    const changes = fieldChanges(e, match);
+    const renamedId = match.id !== e.id ? { otherId: match.id ?? "" } : {};
+    if (changes.length > 0 || match.id !== e.id) diffs.push({ change: "changed", ...base, ...renamedId, changes });
+  }
+  for (const e of unmatched) {
+    diffs.push({ change: "added", id: e.id ?? "", name: nameOf(e), ...(e.type ? { type: e.type } : {}) });
+  }
+  return diffs;
+}
+
+export function comparePlans(base: Plan, other: Plan): PlanDiff {
+  const sections: Record<PlanSection, [NamedEvent[], NamedEvent[]]> = {
+    income: [base.income?.events ?? [], other.income?.events ?? []],
+    expenses: [base.expenses?.events ?? [], other.expenses?.events ?? []],
+    priorities: [base.priorities?.events ?? [], other.priorities?.events ?? []],
+    assets: [base.assets?.events ?? [], other.assets?.events ?? []],
+    milestones: [base.milestones ?? [], other.milestones ?? []],
+  };
+  const events = {} as Record<PlanSection, EventDiff[]>;
+  const summary: string[] = [];
+  for (const [section, [before, after]] of Object.entries(sections) as Array<[PlanSection, [NamedEvent[], NamedEvent[]]]>) {
+    events[section] = diffEvents(before, after);
+    for (const d of events[section]) {
+      const label = `${SECTION_LABELS[section]} "${d.name}"`;
+      if (d.change === "changed") {
+        summary.push(`${label} changed${d.otherId ? ` (now ${d.otherId})` : ""}${d.changes?.length ? `: ${describe(d.changes)}` : ""}`);
+      } else {
+        summary.push(`${label} ${d.change}`);
+      }
+    }
+  }
+
+  // Order matters for priorities: compare the relative order of those in both plans
+  let priorityOrder: PlanDiff["priorityOrder"];
+  const otherPriorities = other.priorities?.events ?? [];
+  const { pairs } = matchEvents(base.priorities?.events ?? [], otherPriorities);
+  const matched = new Map(pairs.filter(([, o]) => o).map(([p, o]) => [o, p]));
+  const baseOrder = pairs.filter(([, o]) => o).map(([p]) => nameOf(p));
+  const otherOrder = otherPriorities.filter((o) => matched.has(o)).map((o) => nameOf(matched.get(o)!));
+  if (baseOrder.join("\n") !== otherOrder.join("\n")) {
+    priorityOrder = { base: baseOrder, other: otherOrder };
+    summary.push(`Priority order changed: ${otherOrder.join(" > ")} (was ${baseOrder.join(" > ")})`);
+  }
+
+  const settings = {
+    variables: fieldChanges(base.variables ?? {}, other.variables ?? {}),
+    withdrawalStrategy: fieldChanges(base.withdrawalStrategy ?? {}, other.withdrawalStrategy ?? {}),
+    montecarlo: fieldChanges(base.montecarlo ?? {}, other.montecarlo ?? {}),
+  };
+  for (const [group, changes] of Object.entries(settings)) {
+    for (const c of changes) summary.push(`${group}.${c.field}: ${show(c.from)} -> ${show(c.to)}`);
+  }
+
+  return {
+    base: { id: base.id, name: base.name },
+    other: { id: other.id, name: other.name },
+    identical: summary.length === 0,
+    summary,
+    events,
+    ...(priorityOrder ? { priorityOrder } : {}),
+    ...settings,
+  };
+}
@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { runProjection } from "./projection.js";
+import { estimateTaxes } from "./taxes.js";
+import { ProjectionLabExport, Plan, PlanVariables } from "./types.js";
+
+const variables: PlanVariables = {
+  startYear: 2025,
+  loopYear: 2027,
+  investmentReturn: 0,
+  dividendRate: 0,
+  inflation: 0,
+  incomeTaxMode: "brackets",
+  filingStatus: "single",
+};
+
+// A 65-year-old with only a 401k, or a salary when `salary` is given
+function fixture(salary?: number): { data: ProjectionLabExport; plan: Plan } {
+  const plan: Plan = {
+    id: "p1",
+    name: "Test",
+    variables,
+    income: {
+      events: salary
+        ? [
+            {
+              id: "sal",
+              type: "salary",
+              name: "Salary",
+              amount: salary,
+              frequency: "yearly",
+              start: { type: "keyword", value: "now" },
+              end: { type: "keyword", value: "endOfPlan" },
+            },
+          ]
+        : [],
+    },
+    expenses: {
+      events: [
+        {
+          id: "living",
+          type: "living-expenses",
+          name: "Living",
+          amount: 80000,
+          frequency: "yearly",
+          start: { type: "keyword", value: "now" },
+          end: { type: "keyword", value: "endOfPlan" },
+        },
+      ],
+    },
+  };
+  const data: ProjectionLabExport = {
+    meta: { version: "4.0.0", lastUpdated: 0 },
+    today: {
+      age: 65,
+      birthYear: 1960,
+      savingsAccounts: [],
+      investmentAccounts: [{ id: "k1", type: "401k", name: "401k", balance: 2000000, owner: "me" }],
+      debts: [],
+      assets: [],
+    },
+    plans: [plan],
+    settings: {},
+  };
+  return { data, plan };
+}
+
+test("tax-deferred withdrawals are taxed on the final income of the year", () => {
+  const { data, plan } = fixture();
+  const year = runProjection(data, plan).years[0];
+  // No other income: every dollar of taxable income is the 401k withdrawal
+  assert.equal(year.taxableIncome, year.withdrawals);
+  assert.ok(year.taxes > 0, "withdrawals above the standard deduction must be taxed");
+  const owed = estimateTaxes(variables, { year: 2025, ordinaryIncome: year.withdrawals, inflationIndex: 1 }).totalTax;
+  assert.ok(Math.abs(year.taxes - owed) <= 1, `taxes ${year.taxes} should match ${owed}`);
+  // The withdrawal is grossed up to cover spending after its own tax
+  assert.ok(Math.abs(year.withdrawals - year.taxes - 80000) <= 1);
+  assert.equal(year.shortfall, 0);
+});
+
+test("a year with a surplus is taxed on its income", () => {
+  const { data, plan } = fixture(150000);
+  const year = runProjection(data, plan).years[0];
+  const owed = estimateTaxes(variables, { year: 2025, ordinaryIncome: 150000, inflationIndex: 1 }).totalTax;
+  assert.equal(year.withdrawals, 0);
+  assert.ok(Math.abs(year.taxes - owed) <= 1);
+});
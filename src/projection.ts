@@ -0,0 +1,1141 @@
+/**
+ * Deterministic year-by-year projection engine for ProjectionLab plans.
+ *
+ * This is an approximation of ProjectionLab's simulation built on the export
+ * data model in types.ts. It is meant for reasoning about the consequences of
+ * plan edits in-conversation, not for reproducing ProjectionLab to the dollar.
+ */
+
+import {
+  ProjectionLabExport,
+  Plan,
+  PlanVariables,
+  DateReference,
+  YearlyChange,
+  IncomeEvent,
+  ExpenseEvent,
+  PriorityEvent,
+  InvestmentAccount,
+} from "./types.js";
+import { createDateContext, resolveDateReference, eventWindow, isActiveInYear, EventWindow } from "./dates.js";
+import { resolveMilestonesForYear, FinancialSnapshot, MilestoneState } from "./milestones.js";
+import { estimateTaxes } from "./taxes.js";
+import { RMD_ACCOUNT_TYPES, requiredDistribution } from "./rmd.js";
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+// Rates are percentages (e.g., 7 for 7%), matching PlanVariables
+export interface YearRates {
+  investmentReturn: number;
+  bondReturn: number;
+  dividendRate: number;
+  inflation: number;
+}
+
+export interface ProjectionOptions {
+  // Override the plan's assumptions for a given simulation year (used by Monte Carlo, backtests, etc.)
+  rates?: (yearIndex: number, year: number) => Partial<YearRates>;
+  // Roth conversion to make in a year, replacing any conversions scheduled in the plan (used by the Roth optimizer)
+  rothConversion?: (state: ConversionState) => number;
+  // Called for each movement of cash, in the order the projection makes them (used by explain_cash_flow)
+  onCashFlow?: (year: number, step: CashFlowStep) => void;
+}
+
+// One step of a year's cash-flow waterfall. Amounts are nominal dollars.
+export interface CashFlowStep {
+  kind:
+    | "rmd"
+    | "asset-purchase"
+    | "asset-sale"
+    | "income"
+    | "payroll"
+    | "roth-conversion"
+    | "expense"
+    | "debt-payment"
+    | "asset-costs"
+    | "taxes"
+    | "tax-adjustment"
+    | "priority"
+    | "leftover"
+    | "withdrawal"
+    | "shortfall";
+  // Event, priority, debt, asset or account ID
+  id?: string;
+  amount: number;
+  // Priorities: the contribution their settings ask for, before cash runs out
+  requested?: number;
+  employer?: number;
+  // Tax saved by a pre-tax priority, or paid on a withdrawal (including penalties)
+  tax?: number;
+  note?: string;
+}
+
+export interface ConversionState {
+  year: number;
+  age?: number;
+  spouseAge?: number;
+  // Ordinary income so far this year, including RMDs and after pre-tax payroll contributions
+  ordinaryIncome: number;
+  inflationIndex: number;
+  // Balance available to convert across tax-deferred accounts
+  taxDeferred: number;
+}
+
+// Roth conversions saved in plan.meta.rothConversions by optimize_roth_conversions.
+// Amounts are nominal dollars in `year`; without fromAccountId the conversion draws
+// from every tax-deferred account in order, and toAccountId defaults to the first Roth IRA.
+export interface RothConversion {
+  year: number;
+  amount: number;
+  fromAccountId?: string;
+  toAccountId?: string;
+}
+
+export function scheduledRothConversions(plan: Plan): RothConversion[] {
+  const raw = plan.meta?.rothConversions;
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (c): c is RothConversion => Boolean(c) && typeof c.year === "number" && typeof c.amount === "number" && c.amount > 0
+  );
+}
+
+export type AccountCategory = "savings" | "taxable" | "taxDeferred" | "taxFree";
+
+export interface ProjectionYear {
+  year: number;
+  age?: number;
+  spouseAge?: number;
+  income: number;
+  // Ordinary income and realized gains the year's taxes were estimated on
+  taxableIncome: number;
+  capitalGains: number;
+  // Required minimum distributions and Roth conversions, both taxed as ordinary income
+  rmd: number;
+  rothConversion: number;
+  taxes: number;
+  expenses: number;
+  debtPayments: number;
+  contributions: number;
+  employerContributions: number;
+  withdrawals: number;
+  netCashFlow: number;
+  savings: number;
+  taxable: number;
+  taxDeferred: number;
+  taxFree: number;
+  liquid: number;
+  assets: number;
+  debt: number;
+  netWorth: number;
+  shortfall: number;
+  inflationIndex: number;
+  accounts?: Record<string, number>;
+  // Gross amount of each active income event, by event ID
+  incomes?: Record<string, number>;
+}
+
+export interface ProjectionResult {
+  planId: string;
+  planName: string;
+  startYear: number;
+  endYear: number;
+  years: ProjectionYear[];
+  milestones: Array<{ id: string; name: string; year: number | null; age?: number }>;
+  depletedYear: number | null;
+  warnings: string[];
+}
+
+// =============================================================================
+// Internal Simulation State
+// =============================================================================
+
+interface SimAccount {
+  id: string;
+  name: string;
+  type: "savings" | InvestmentAccount["type"];
+  category: AccountCategory;
+  owner: string;
+  balance: number;
+  costBasis: number;
+  rmd: boolean;
+  growthType: string;
+  growthRate: number;
+  dividendType: string;
+  dividendRate: number;
+  yearlyFee: number;
+  yearlyFeeType: string;
+  withdraw: boolean;
+  withdrawFrom: number | null;
+  hasEWPenalty: boolean;
+  ewAge: number;
+  ewPenaltyRate: number;
+}
+
+interface SimDebt {
+  id: string;
+  name: string;
+  balance: number;
+  rate: number;
+  payment: number;
+  startRef?: DateReference;
+  forgiveRef?: DateReference;
+  start: number;
+  forgiveYear: number | null;
+}
+
+interface SimAsset {
+  id: string;
+  name: string;
+  value: number;
+  loan: number;
+  loanRate: number;
+  payment: number;
+  startRef?: DateReference;
+  endRef?: DateReference;
+  start: number;
+  end: number;
+  endInclusive: boolean;
+  owned: boolean;
+  acquired: boolean;
+  paymentMethod: string;
+  downPayment: number;
+  purchasePrice: number;
+  yearlyChange?: YearlyChange;
+  taxRate: number;
+  taxRateType: string;
+  maintenanceRate: number;
+  maintenanceRateType: string;
+  insuranceRate: number;
+  insuranceRateType: string;
+  monthlyHOA: number;
+  brokersFee: number;
+  sellIfNeeded: boolean;
+}
+
+interface SimEvent<T> {
+  event: T;
+  level: number;
+  window: EventWindow;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Withdraw-and-settle passes per deficit year; the extra tax shrinks by the marginal rate each pass
+const MAX_TAX_PASSES = 8;
+
+const FREQUENCY_MULTIPLIERS: Record<string, number> = {
+  yearly: 1,
+  monthly: 12,
+  "bi-weekly": 26,
+  weekly: 52,
+  quarterly: 4,
+  once: 1,
+};
+
+export function annualMultiplier(frequency: string | undefined): number {
+  return FREQUENCY_MULTIPLIERS[frequency ?? "yearly"] ?? 1;
+}
+
+export function accountCategory(type: SimAccount["type"]): AccountCategory {
+  switch (type) {
+    case "savings":
+      return "savings";
+    case "taxable":
+      return "taxable";
+    case "401k":
+    case "traditional-ira":
+      return "taxDeferred";
+    default:
+      return "taxFree";
+  }
+}
+
+// Linear interpolation over a custom curve keyed by x
+function interpolate(points: Array<{ x: number; y: number }>, x: number): number {
+  const sorted = [...points].sort((a, b) => a.x - b.x);
+  if (sorted.length === 0) return 0;
+  if (x <= sorted[0].x) return sorted[0].y;
+  for (let i = 1; i < sorted.length; i++) {
+    if (x <= sorted[i].x) {
+      const a = sorted[i - 1];
+      const b = sorted[i];
+      return a.y + ((b.y - a.y) * (x - a.x)) / (b.x - a.x);
+    }
+  }
+  return sorted[sorted.length - 1].y;
+}
+
+// Apply one year of YearlyChange to a nominal amount
+export function applyYearlyChange(
+  amount: number,
+  change: YearlyChange | undefined,
+  rates: YearRates,
+  inflationIndex: number,
+  year: number
+): number {
+  const type = change?.type ?? "match-inflation";
+  const delta = change?.amount ?? 0;
+  const isDollars = change?.amountType === "today$";
+
+  let next = amount;
+  switch (type) {
+    case "none":
+      return amount;
+    case "match-inflation":
+      next = amount * (1 + rates.inflation / 100);
+      break;
+    case "inflation+":
+      next = isDollars
+        ? amount * (1 + rates.inflation / 100) + delta * inflationIndex
+        : amount * (1 + (rates.inflation + delta) / 100);
+      break;
+    case "increase":
+    case "appreciate":
+      next = isDollars ? amount + delta * inflationIndex : amount * (1 + delta / 100);
+      break;
+    case "decrease":
+    case "depreciate":
+      next = isDollars ? amount - delta * inflationIndex : amount * (1 - delta / 100);
+      break;
+    case "custom": {
+      const points = change?.custom?.data ?? [];
+      const pct = points.length ? interpolate(points, year) : 0;
+      next = change?.custom?.type === "today$" ? amount + pct * inflationIndex : amount * (1 + pct / 100);
+      break;
+    }
+  }
+
+  if (change?.limitEnabled && change.limit !== undefined) {
+    const cap = change.limitType === "%" ? amount * (1 + change.limit / 100) : change.limit * inflationIndex;
+    next = Math.min(next, Math.max(cap, amount));
+  }
+  return Math.max(0, next);
+}
+
+// Share of the portfolio held in bonds for a given age, as a fraction
+export function bondShare(v: PlanVariables, age: number | undefined): number {
+  const points = v.bondAllocation ?? [];
+  switch (v.bondAllocationType) {
+    case "age-in-bonds":
+      return age === undefined ? 0 : Math.min(1, Math.max(0, age / 100));
+    case "custom":
+      return points.length && age !== undefined ? interpolate(points, age) / 100 : 0;
+    default:
+      return points.length ? (points[0].y ?? 0) / 100 : 0;
+  }
+}
+
+// =============================================================================
+// Projection
+// =============================================================================
+
+export function runProjection(
+  data: ProjectionLabExport,
+  plan: Plan,
+  options: ProjectionOptions = {}
+): ProjectionResult {
+  const v = plan.variables ?? {};
+  const today = data.today;
+  const warnings: string[] = [];
+
+  const ctx = createDateContext(data, plan, warnings);
+  const { startYear, endYear, spouseBirthYear, milestoneYears } = ctx;
+  const ownerAge = (owner: string | undefined, year: number): number | undefined => {
+    const by = owner === "spouse" ? spouseBirthYear : ctx.birthYear;
+    return by === undefined ? undefined : year - by;
+  };
+  const resolveYear = (ref: DateReference | undefined) => resolveDateReference(ref, ctx);
+  const windowFor = (start: DateReference | undefined, end: DateReference | undefined) => eventWindow(start, end, ctx);
+
+  // ---------------------------------------------------------------------------
+  // Accounts
+  // ---------------------------------------------------------------------------
+  const planAccountOverrides = new Map<string, Record<string, unknown>>();
+  for (const pa of plan.accounts?.events ?? []) {
+    if (pa.accountId) planAccountOverrides.set(pa.accountId, pa);
+  }
+
+  const accounts: SimAccount[] = [];
+  const addAccount = (a: Record<string, unknown> & { id: string; type: SimAccount["type"]; balance: number }) => {
+    const merged = { ...a, ...(planAccountOverrides.get(a.id) ?? {}), id: a.id, type: a.type } as Record<string, unknown>;
+    if (merged.excludeFromFinances) return;
+    const withdrawFrom = resolveYear(merged.withdrawAge as DateReference | undefined);
+    accounts.push({
+      id: a.id,
+      name: (merged.name as string) ?? (merged.title as string) ?? a.id,
+      type: a.type,
+      category: accountCategory(a.type),
+      owner: (merged.owner as string) ?? "me",
+      balance: (merged.balance as number) ?? 0,
+      costBasis: (merged.costBasis as number) ?? (merged.balance as number) ?? 0,
+      rmd: merged.rmdType === "us" && RMD_ACCOUNT_TYPES.includes(a.type),
+      growthType: (merged.investmentGrowthType as string) ?? (a.type === "savings" ? "none" : "plan"),
+      growthRate: (merged.investmentGrowthRate as number) ?? 0,
+      dividendType: (merged.dividendType as string) ?? (a.type === "savings" ? "none" : "plan"),
+      dividendRate: (merged.dividendRate as number) ?? 0,
+      yearlyFee: (merged.yearlyFee as number) ?? 0,
+      yearlyFeeType: (merged.yearlyFeeType as string) ?? "%",
+      withdraw: merged.withdraw !== false,
+      withdrawFrom: merged.withdrawAge ? withdrawFrom : null,
+      hasEWPenalty: (merged.hasEWPenalty as boolean) ?? accountCategory(a.type) === "taxDeferred",
+      ewAge: (merged.EWAge as number) ?? 59.5,
+      ewPenaltyRate: (merged.EWPenaltyRate as number) ?? 10,
+    });
+  };
+  for (const a of today.savingsAccounts ?? []) addAccount(a as unknown as Parameters<typeof addAccount>[0]);
+  for (const a of today.investmentAccounts ?? []) addAccount(a as unknown as Parameters<typeof addAccount>[0]);
+  const accountById = new Map(accounts.map((a) => [a.id, a]));
+  const ownerBirthYear = (owner: string) => (owner === "spouse" ? spouseBirthYear : ctx.birthYear);
+  if (accounts.some((a) => a.rmd && ownerBirthYear(a.owner) === undefined)) {
+    warnings.push("RMDs are skipped for accounts whose owner has no birth year");
+  }
+
+  // Where leftover cash goes when cashFlowDefault is "save"
+  let cashSink = accounts.find((a) => a.category === "savings") ?? accounts.find((a) => a.category === "taxable");
+  if (!cashSink) {
+    cashSink = {
+      id: "cash",
+      name: "Cash",
+      type: "savings",
+      category: "savings",
+      owner: "joint",
+      balance: 0,
+      costBasis: 0,
+      rmd: false,
+      growthType: "none",
+      growthRate: 0,
+      dividendType: "none",
+      dividendRate: 0,
+      yearlyFee: 0,
+      yearlyFeeType: "%",
+      withdraw: true,
+      withdrawFrom: null,
+      hasEWPenalty: false,
+      ewAge: 0,
+      ewPenaltyRate: 0,
+    };
+    accounts.push(cashSink);
+    accountById.set(cashSink.id, cashSink);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Debts (today debts, overridden or supplemented by plan debt expenses)
+  // ---------------------------------------------------------------------------
+  const debts: SimDebt[] = [];
+  const debtExpenses = new Map<string, ExpenseEvent>();
+  for (const e of plan.expenses?.events ?? []) {
+    if (e.type === "debt" && e.debtId) debtExpenses.set(e.debtId, e);
+  }
+  for (const d of today.debts ?? []) {
+    const override = debtExpenses.get(d.id);
+    const rate = override?.interestRate ?? d.interestRate ?? 0;
+    const monthly = override?.monthlyPayment ?? d.monthlyPayment ?? 0;
+    debts.push({
+      id: d.id,
+      name: d.name ?? d.title ?? d.id,
+      balance: d.amount,
+      rate,
+      payment: monthly * annualMultiplier(d.frequency ?? "monthly"),
+      startRef: d.start,
+      forgiveRef: d.hasForgiveness ? d.forgiveAt : undefined,
+      start: resolveYear(d.start) ?? startYear,
+      forgiveYear: d.hasForgiveness ? resolveYear(d.forgiveAt) : null,
+    });
+  }
+  for (const e of plan.expenses?.events ?? []) {
+    if (e.type !== "debt" || e.monthlyPayment === undefined) continue;
+    if (e.debtId && debts.some((d) => d.id === e.debtId)) continue;
+    debts.push({
+      id: e.id,
+      name: e.name ?? e.title ?? e.id,
+      balance: e.amount ?? 0,
+      rate: e.interestRate ?? 0,
+      payment: e.monthlyPayment * 12,
+      startRef: e.start,
+      forgiveRef: e.hasForgiveness ? e.forgiveAt : undefined,
+      start: resolveYear(e.start) ?? startYear,
+      forgiveYear: e.hasForgiveness ? resolveYear(e.forgiveAt) : null,
+    });
+  }
+  const debtById = new Map(debts.map((d) => [d.id, d]));
+  const simulatedDebtIds = new Set(debts.map((d) => d.id));
+
+  // ---------------------------------------------------------------------------
+  // Assets (today assets already owned, plan asset events acquired later)
+  // ---------------------------------------------------------------------------
+  const assets: SimAsset[] = [];
+  const addAsset = (a: Record<string, unknown>, id: string, owned: boolean) => {
+    const w = windowFor(a.start as DateReference | undefined, a.end as DateReference | undefined);
+    const value = (a.amount as number) ?? (a.initialValue as number) ?? 0;
+    const purchasePrice = (a.initialValue as number) ?? value;
+    const financed = a.paymentMethod === "financed";
+    const downPayment = (a.downPayment as number) ?? 0;
+    const loan = owned
+      ? (a.balance as number) ?? 0
+      : financed
+        ? (a.balance as number) || Math.max(0, purchasePrice - downPayment)
+        : 0;
+    assets.push({
+      id,
+      name: (a.name as string) ?? (a.title as string) ?? id,
+      value: owned ? value : purchasePrice,
+      loan,
+      loanRate: (a.interestRate as number) ?? 0,
+      payment: ((a.monthlyPayment as number) ?? 0) * 12,
+      startRef: a.start as DateReference | undefined,
+      endRef: a.end as DateReference | undefined,
+      start: owned ? startYear : w.start ?? Number.POSITIVE_INFINITY,
+      end: w.end,
+      endInclusive: w.endInclusive,
+      owned,
+      acquired: owned,
+      paymentMethod: (a.paymentMethod as string) ?? "pay-in-full",
+      downPayment,
+      purchasePrice,
+      yearlyChange: a.yearlyChange as YearlyChange | undefined,
+      taxRate: (a.taxRate as number) ?? 0,
+      taxRateType: (a.taxRateType as string) ?? "%",
+      maintenanceRate: (a.maintenanceRate as number) ?? 0,
+      maintenanceRateType: (a.maintenanceRateType as string) ?? "%",
+      insuranceRate: (a.insuranceRate as number) ?? 0,
+      insuranceRateType: (a.insuranceRateType as string) ?? "%",
+      monthlyHOA: (a.monthlyHOA as number) ?? 0,
+      brokersFee: (a.brokersFee as number) ?? 0,
+      sellIfNeeded: (a.sellIfNeeded as boolean) ?? false,
+    });
+  };
+  const planAssetIds = new Set((plan.assets?.events ?? []).map((a) => a.assetId).filter(Boolean));
+  for (const a of today.assets ?? []) {
+    if (!planAssetIds.has(a.id)) addAsset(a as unknown as Record<string, unknown>, a.id, true);
+  }
+  for (const a of plan.assets?.events ?? []) {
+    const base = a.assetId ? today.assets?.find((t) => t.id === a.assetId) : undefined;
+    const merged = { ...(base ?? {}), ...a } as Record<string, unknown>;
+    const alreadyOwned = Boolean(base) && (!a.start || resolveYear(a.start as DateReference) === null || (resolveYear(a.start as DateReference) ?? 0) <= startYear);
+    addAsset(merged, (a.id ?? a.assetId ?? `asset-${assets.length}`) as string, alreadyOwned);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Income, expense and priority events
+  // ---------------------------------------------------------------------------
+  const makeEvent = <T extends { amount?: number; start?: DateReference; end?: DateReference }>(e: T): SimEvent<T> => {
+    return { event: e, level: e.amount ?? 0, window: windowFor(e.start, e.end) };
+  };
+  const incomes = (plan.income?.events ?? []).map((e) => makeEvent<IncomeEvent>(e));
+  const expenses = (plan.expenses?.events ?? [])
+    .filter((e) => !(e.type === "debt" && ((e.debtId && simulatedDebtIds.has(e.debtId)) || simulatedDebtIds.has(e.id))))
+    .map((e) => makeEvent<ExpenseEvent>(e));
+  const priorities = (plan.priorities?.events ?? []).map((p) => ({
+    priority: p,
+    window: windowFor(p.start, p.end),
+  }));
+
+  for (const p of plan.priorities?.events ?? []) {
+    if (p.accountId && !accountById.has(p.accountId) && p.type !== "debt" && p.type !== "asset") {
+      warnings.push(`Priority "${p.name ?? p.id}" targets unknown account ${p.accountId}; contributions go to ${cashSink.name}`);
+    }
+  }
+
+  // Recompute event timing after a milestone is reached during the projection
+  const refreshWindows = () => {
+    for (const e of [...incomes, ...expenses]) e.window = windowFor(e.event.start, e.event.end);
+    for (const p of priorities) p.window = windowFor(p.priority.start, p.priority.end);
+    for (const d of debts) {
+      d.start = resolveYear(d.startRef) ?? startYear;
+      d.forgiveYear = d.forgiveRef ? resolveYear(d.forgiveRef) : null;
+    }
+    for (const a of assets) {
+      const w = windowFor(a.startRef, a.endRef);
+      if (!a.acquired) a.start = w.start ?? Number.POSITIVE_INFINITY;
+      a.end = w.end;
+      a.endInclusive = w.endInclusive;
+    }
+  };
+
+  const snapshot = (): FinancialSnapshot => {
+    const accountBalances = new Map(accounts.map((a) => [a.id, a.balance]));
+    const debtBalances = new Map(debts.map((d) => [d.id, Math.max(0, d.balance)]));
+    const liquid = accounts.reduce((sum, a) => sum + a.balance, 0);
+    const assetValue = assets.reduce((sum, a) => sum + (a.owned ? a.value : 0), 0);
+    const assetLoans = assets.reduce((sum, a) => sum + (a.owned ? a.loan : 0), 0);
+    const totalDebt = [...debtBalances.values()].reduce((sum, b) => sum + b, 0) + assetLoans;
+    return { netWorth: liquid + assetValue - totalDebt, totalDebt, accounts: accountBalances, debts: debtBalances };
+  };
+
+  const plannedExpenses = (year: number): number =>
+    expenses.reduce((sum, e) => {
+      if (!isActiveInYear(e.window, year) || e.event.frequency === "once") return sum;
+      return sum + e.level * annualMultiplier(e.event.frequency);
+    }, 0);
+
+  // Milestones that are not purely calendar-based are evaluated against the projected state each year
+  const allMilestones = [...(plan.milestones ?? []), ...(plan.computedMilestones ?? [])];
+  const dynamicMilestones = allMilestones.filter((m) => milestoneYears.get(m.id) === null);
+  const initialSnapshot = snapshot();
+
+  // Roth conversions: chosen per year by the caller, or scheduled in the plan
+  const conversionsByYear = new Map<number, RothConversion[]>();
+  if (!options.rothConversion) {
+    for (const c of scheduledRothConversions(plan)) {
+      conversionsByYear.set(c.year, [...(conversionsByYear.get(c.year) ?? []), c]);
+    }
+  }
+  const defaultRothAccount = accounts.find((a) => a.type === "roth-ira");
+  const convert = (amount: number, fromAccountId?: string, toAccountId?: string): number => {
+    const target = (toAccountId ? accountById.get(toAccountId) : undefined) ?? defaultRothAccount;
+    if (!target) {
+      warnings.push("Roth conversions are skipped because the plan has no Roth IRA account");
+      return 0;
+    }
+    const sources = fromAccountId
+      ? accounts.filter((a) => a.id === fromAccountId && a.category === "taxDeferred")
+      : accounts.filter((a) => a.category === "taxDeferred");
+    let moved = 0;
+    for (const source of sources) {
+      const part = Math.min(source.balance, amount - moved);
+      if (part <= 0) continue;
+      source.balance -= part;
+      source.costBasis = Math.max(0, source.costBasis - part);
+      target.balance += part;
+      target.costBasis += part;
+      moved += part;
+    }
+    return moved;
+  };
+
+  // ---------------------------------------------------------------------------
+  // Year loop
+  // ---------------------------------------------------------------------------
+  const years: ProjectionYear[] = [];
+  let inflationIndex = 1;
+  let depletedYear: number | null = null;
+
+  for (let year = startYear, i = 0; year <= endYear; year++, i++) {
+    const rates: YearRates = {
+      investmentReturn: v.investmentReturn ?? 7,
+      bondReturn: v.bondInvestmentReturn ?? v.investmentReturn ?? 7,
+      dividendRate: v.dividendRate ?? 0,
+      inflation: v.inflation ?? 3,
+      ...(options.rates ? options.rates(i, year) : {}),
+    };
+    const age = ownerAge("me", year);
+
+    if (dynamicMilestones.length) {
+      const state: MilestoneState = {
+        ...snapshot(),
+        year,
+        inflationIndex,
+        annualExpenses: plannedExpenses(year),
+        initial: initialSnapshot,
+        reached: milestoneYears,
+      };
+      if (resolveMilestonesForYear(dynamicMilestones, state).length) refreshWindows();
+    }
+
+    let cash = 0;
+    let expenseTotal = 0;
+    let debtPayments = 0;
+    let contributions = 0;
+    let employerContributions = 0;
+    let withdrawals = 0;
+    let ordinaryIncome = 0;
+    let capitalGains = 0;
+
+    // Required minimum distributions, from the balance at the end of last year
+    let rmdTotal = 0;
+    for (const account of accounts) {
+      const birthYear = ownerBirthYear(account.owner);
+      if (!account.rmd || birthYear === undefined) continue;
+      const amount = Math.min(account.balance, requiredDistribution(account.balance, year - birthYear, birthYear));
+      if (amount <= 0) continue;
+      account.balance -= amount;
+      account.costBasis = Math.max(0, account.costBasis - amount);
+      rmdTotal += amount;
+    }
+    cash += rmdTotal;
+    if (rmdTotal > 0) options.onCashFlow?.(year, { kind: "rmd", amount: rmdTotal });
+    ordinaryIncome += rmdTotal;
+    withdrawals += rmdTotal;
+
+    // Asset purchases and sales
+    for (const a of assets) {
+      if (!a.acquired && year >= a.start && a.start !== Number.POSITIVE_INFINITY) {
+        a.acquired = true;
+        a.owned = true;
+        const paid = a.paymentMethod === "financed" ? a.downPayment : a.purchasePrice;
+        expenseTotal += paid;
+        options.onCashFlow?.(year, { kind: "asset-purchase", id: a.id, amount: paid });
+      }
+      const pastEnd = a.endInclusive ? year > a.end : year >= a.end;
+      if (a.owned && pastEnd) {
+        const proceeds = a.value * (1 - a.brokersFee / 100) - a.loan;
+        cash += proceeds;
+        options.onCashFlow?.(year, { kind: "asset-sale", id: a.id, amount: proceeds });
+        a.owned = false;
+        a.value = 0;
+        a.loan = 0;
+      }
+    }
+
+    // Income
+    const incomeById = new Map<string, number>();
+    let grossIncome = 0;
+    for (const e of incomes) {
+      if (!isActiveInYear(e.window, year)) continue;
+      if (e.event.frequency === "once" && year !== e.window.start) continue;
+      const amount = e.level * annualMultiplier(e.event.frequency);
+      incomeById.set(e.event.id, amount);
+      options.onCashFlow?.(year, { kind: "income", id: e.event.id, amount });
+      grossIncome += amount;
+      if (!e.event.taxExempt) ordinaryIncome += amount;
+    }
+    cash += grossIncome;
+
+    // Payroll priorities (linked to an income stream) come out of gross pay before taxes
+    const handledPriorities = new Set<string>();
+    for (const { priority: p, window: w } of priorities) {
+      if (!p.incomeStreamId || !isActiveInYear(w, year)) continue;
+      const salary = incomeById.get(p.incomeStreamId) ?? 0;
+      if (salary <= 0) continue;
+      handledPriorities.add(p.id);
+      const c = priorityContribution(p, { salary, remaining: cash, inflationIndex });
+      const employee = Math.min(c.employee, Math.max(0, cash));
+      const target = p.accountId ? accountById.get(p.accountId) : undefined;
+      const account = target ?? cashSink;
+      account.balance += employee + c.employer;
+      account.costBasis += employee + c.employer;
+      cash -= employee;
+      contributions += employee;
+      employerContributions += c.employer;
+      if (isPreTax(p)) ordinaryIncome -= employee;
+      options.onCashFlow?.(year, { kind: "payroll", id: p.id, amount: employee, requested: c.employee, employer: c.employer });
+    }
+
+    // Roth conversions are taxed as ordinary income; the tax is paid from cash
+    let converted = 0;
+    if (options.rothConversion) {
+      const taxDeferred = accounts.reduce((sum, a) => sum + (a.category === "taxDeferred" ? a.balance : 0), 0);
+      const requested = options.rothConversion({
+        year,
+        age,
+        spouseAge: spouseBirthYear === undefined ? undefined : year - spouseBirthYear,
+        ordinaryIncome,
+        inflationIndex,
+        taxDeferred,
+      });
+      if (requested > 0) converted = convert(requested);
+    } else {
+      for (const c of conversionsByYear.get(year) ?? []) converted += convert(c.amount, c.fromAccountId, c.toAccountId);
+    }
+    ordinaryIncome += converted;
+    if (converted > 0) options.onCashFlow?.(year, { kind: "roth-conversion", amount: converted });
+
+    // Expenses
+    for (const e of expenses) {
+      if (!isActiveInYear(e.window, year)) continue;
+      if (e.event.frequency === "once" && year !== e.window.start) continue;
+      const amount = e.level * annualMultiplier(e.event.frequency);
+      expenseTotal += amount;
+      options.onCashFlow?.(year, { kind: "expense", id: e.event.id, amount });
+    }
+
+    // Debt service
+    for (const d of debts) {
+      if (d.balance <= 0 || year < d.start) continue;
+      if (d.forgiveYear !== null && year >= d.forgiveYear) {
+        d.balance = 0;
+        continue;
+      }
+      const interest = d.balance * (d.rate / 100);
+      const payment = Math.min(d.payment, d.balance + interest);
+      d.balance = d.balance + interest - payment;
+      debtPayments += payment;
+      options.onCashFlow?.(year, { kind: "debt-payment", id: d.id, amount: payment });
+    }
+
+    // Asset carrying costs and loans
+    for (const a of assets) {
+      if (!a.owned) continue;
+      const rateCost = (rate: number, type: string) => (type === "today$" ? rate * inflationIndex : (a.value * rate) / 100);
+      const carrying =
+        rateCost(a.taxRate, a.taxRateType) +
+        rateCost(a.maintenanceRate, a.maintenanceRateType) +
+        rateCost(a.insuranceRate, a.insuranceRateType) +
+        a.monthlyHOA * 12;
+      expenseTotal += carrying;
+      if (carrying > 0) options.onCashFlow?.(year, { kind: "asset-costs", id: a.id, amount: carrying });
+      if (a.loan > 0) {
+        const interest = a.loan * (a.loanRate / 100);
+        const payment = Math.min(a.payment || a.loan + interest, a.loan + interest);
+        a.loan = a.loan + interest - payment;
+        debtPayments += payment;
+        options.onCashFlow?.(year, { kind: "debt-payment", id: a.id, amount: payment, note: "asset loan" });
+      }
+    }
+
+    // Surplus pre-tax contributions below are credited at this year's marginal rate; settle() squares the year up
+    const estimate = estimateTaxes(v, { year, ordinaryIncome, inflationIndex });
+    let incomeTax = estimate.totalTax;
+    let penalties = 0;
+    const marginal = { ordinary: estimate.marginalRate / 100, capitalGains: estimate.marginalCapitalGainsRate / 100 };
+    cash -= incomeTax + expenseTotal + debtPayments;
+    options.onCashFlow?.(year, { kind: "taxes", amount: incomeTax });
+
+    // Tax still due (negative: overpaid) on the year's income as it stands now
+    const settle = (): number => {
+      const owed = estimateTaxes(v, { year, ordinaryIncome, capitalGains, inflationIndex }).totalTax;
+      const due = owed - incomeTax;
+      if (Math.abs(due) < 0.01) return 0;
+      incomeTax = owed;
+      options.onCashFlow?.(year, { kind: "tax-adjustment", amount: due });
+      return due;
+    };
+
+    // Remaining priorities are funded from surplus, in order
+    for (const { priority: p, window: w } of priorities) {
+      if (handledPriorities.has(p.id) || !isActiveInYear(w, year)) continue;
+      if (cash <= 0) {
+        if (!options.onCashFlow) break;
+        options.onCashFlow(year, { kind: "priority", id: p.id, amount: 0, note: "no surplus left" });
+        continue;
+      }
+
+      if (p.type === "debt") {
+        const debt = p.debtId ? debtById.get(p.debtId) : undefined;
+        if (!debt || debt.balance <= 0) {
+          options.onCashFlow?.(year, { kind: "priority", id: p.id, amount: 0, note: debt ? "debt paid off" : "debt not found" });
+          continue;
+        }
+        const c = priorityContribution(p, { salary: 0, remaining: cash, inflationIndex });
+        const requested = Math.min(c.employee || cash, debt.balance);
+        const extra = Math.min(requested, cash);
+        debt.balance -= extra;
+        cash -= extra;
+        debtPayments += extra;
+        options.onCashFlow?.(year, { kind: "priority", id: p.id, amount: extra, requested, ...(debt.balance <= 0 ? { note: "debt paid off" } : {}) });
+        continue;
+      }
+      if (p.type === "asset") {
+        options.onCashFlow?.(year, { kind: "priority", id: p.id, amount: 0, note: "asset priorities are not simulated" });
+        continue;
+      }
+
+      const account = (p.accountId ? accountById.get(p.accountId) : undefined) ?? cashSink;
+      let requested: number;
+      if (p.mode === "target") {
+        const target = (p.amount ?? 0) * (p.amountType === "future$" ? 1 : inflationIndex);
+        requested = Math.max(0, target - account.balance);
+      } else {
+        requested = priorityContribution(p, { salary: 0, remaining: cash, inflationIndex }).employee;
+      }
+      const amount = Math.min(requested, cash);
+      if (amount <= 0) {
+        options.onCashFlow?.(year, { kind: "priority", id: p.id, amount: 0, requested, ...(p.mode === "target" ? { note: "target reached" } : {}) });
+        continue;
+      }
+      account.balance += amount;
+      account.costBasis += amount;
+      cash -= amount;
+      contributions += amount;
+      let saved = 0;
+      if (isPreTax(p)) {
+        saved = amount * marginal.ordinary;
+        ordinaryIncome -= amount;
+        incomeTax -= saved;
+        cash += saved;
+      }
+      options.onCashFlow?.(year, { kind: "priority", id: p.id, amount, requested, ...(saved > 0 ? { tax: saved } : {}) });
+    }
+
+    cash -= settle();
+
+    // Withdraw `need` after tax and penalties along the drawdown order; returns what could not be covered
+    const withdraw = (need: number): number => {
+      const rates = estimateTaxes(v, { year, ordinaryIncome, capitalGains, inflationIndex });
+      const marginalOrdinary = rates.marginalRate / 100;
+      const marginalCapitalGains = rates.marginalCapitalGainsRate / 100;
+      for (const account of drawdownOrder(accounts, v)) {
+        if (need <= 0) break;
+        if (!account.withdraw || account.balance <= 0) continue;
+        if (account.withdrawFrom !== null && year < account.withdrawFrom) continue;
+
+        const accountAge = ownerAge(account.owner, year);
+        const penalty = account.hasEWPenalty && accountAge !== undefined && accountAge < account.ewAge ? account.ewPenaltyRate / 100 : 0;
+        let taxRate = 0;
+        let gainShare = 0;
+        if (account.category === "taxDeferred") {
+          taxRate = marginalOrdinary;
+        } else if (account.category === "taxable" && account.balance > 0) {
+          gainShare = Math.max(0, 1 - account.costBasis / account.balance);
+          taxRate = gainShare * marginalCapitalGains;
+        }
+        const keep = Math.max(0.01, 1 - taxRate - penalty);
+        const gross = Math.min(account.balance, need / keep);
+        const net = gross * keep;
+
+        if (account.category === "taxable") {
+          account.costBasis -= gross * (account.balance > 0 ? account.costBasis / account.balance : 1);
+        }
+        penalties += gross * penalty;
+        incomeTax += gross - net - gross * penalty;
+        if (account.category === "taxDeferred") ordinaryIncome += gross;
+        capitalGains += gross * gainShare;
+        account.balance -= gross;
+        withdrawals += gross;
+        need -= net;
+        options.onCashFlow?.(year, { kind: "withdrawal", id: account.id, amount: gross, tax: gross - net });
+      }
+      return need;
+    };
+
+    // Leftover cash is saved or spent; a deficit is covered by withdrawals
+    let shortfall = 0;
+    if (cash > 0) {
+      if (v.cashFlowDefault !== "spend") {
+        cashSink.balance += cash;
+        cashSink.costBasis += cash;
+      } else {
+        expenseTotal += cash;
+      }
+      options.onCashFlow?.(year, { kind: "leftover", id: cashSink.id, amount: cash, note: v.cashFlowDefault === "spend" ? "spent" : "saved" });
+    } else if (cash < 0) {
+      let need = -cash;
+      // Withdrawals were taxed at the marginal rate before them; withdraw again to cover tax from crossing brackets
+      for (let pass = 0; pass < MAX_TAX_PASSES && need >= 0.01; pass++) {
+        need = withdraw(need);
+        need += settle();
+      }
+
+      // Sell assets flagged sellIfNeeded as a last resort
+      for (const a of assets) {
+        if (need <= 0) break;
+        if (!a.owned || !a.sellIfNeeded) continue;
+        const proceeds = a.value * (1 - a.brokersFee / 100) - a.loan;
+        need -= proceeds;
+        options.onCashFlow?.(year, { kind: "asset-sale", id: a.id, amount: proceeds, note: "sold to cover a shortfall" });
+        a.owned = false;
+        a.value = 0;
+        a.loan = 0;
+      }
+
+      // Under a cent is rounding left over from the passes above
+      if (need >= 0.01) {
+        shortfall = need;
+        options.onCashFlow?.(year, { kind: "shortfall", amount: need });
+        if (depletedYear === null) depletedYear = year;
+      } else if (need < 0) {
+        cashSink.balance += -need;
+        cashSink.costBasis += -need;
+      }
+    }
+    const taxes = incomeTax + penalties;
+
+    const netCashFlow = grossIncome - taxes - expenseTotal - debtPayments;
+
+    // Year-end growth
+    for (const account of accounts) {
+      if (account.balance <= 0) continue;
+      let growth: number;
+      switch (account.growthType) {
+        case "none":
+          growth = 0;
+          break;
+        case "fixed":
+          growth = account.growthRate;
+          break;
+        default: {
+          const bonds = bondShare(v, ownerAge(account.owner, year));
+          growth = rates.investmentReturn * (1 - bonds) + rates.bondReturn * bonds;
+        }
+      }
+      const dividend =
+        account.dividendType === "fixed" ? account.dividendRate : account.dividendType === "none" ? 0 : rates.dividendRate;
+      account.balance *= 1 + (growth + dividend) / 100;
+      const fee = account.yearlyFeeType === "today$" ? account.yearlyFee * inflationIndex : (account.balance * account.yearlyFee) / 100;
+      account.balance = Math.max(0, account.balance - fee);
+    }
+    for (const a of assets) {
+      if (a.owned) a.value = applyYearlyChange(a.value, a.yearlyChange ?? { type: "none" }, rates, inflationIndex, year);
+    }
+
+    // Snapshot
+    const totals = { savings: 0, taxable: 0, taxDeferred: 0, taxFree: 0 };
+    const accountBalances: Record<string, number> = {};
+    for (const account of accounts) {
+      totals[account.category] += account.balance;
+      accountBalances[account.id] = round(account.balance);
+    }
+    const liquid = totals.savings + totals.taxable + totals.taxDeferred + totals.taxFree;
+    const assetValue = assets.reduce((sum, a) => sum + (a.owned ? a.value : 0), 0);
+    const debtTotal =
+      debts.reduce((sum, d) => sum + Math.max(0, d.balance), 0) + assets.reduce((sum, a) => sum + (a.owned ? a.loan : 0), 0);
+
+    years.push({
+      year,
+      age,
+      spouseAge: spouseBirthYear === undefined ? undefined : year - spouseBirthYear,
+      income: round(grossIncome),
+      taxableIncome: round(ordinaryIncome),
+      capitalGains: round(capitalGains),
+      rmd: round(rmdTotal),
+      rothConversion: round(converted),
+      taxes: round(taxes),
+      expenses: round(expenseTotal),
+      debtPayments: round(debtPayments),
+      contributions: round(contributions),
+      employerContributions: round(employerContributions),
+      withdrawals: round(withdrawals),
+      netCashFlow: round(netCashFlow),
+      savings: round(totals.savings),
+      taxable: round(totals.taxable),
+      taxDeferred: round(totals.taxDeferred),
+      taxFree: round(totals.taxFree),
+      liquid: round(liquid),
+      assets: round(assetValue),
+      debt: round(debtTotal),
+      netWorth: round(liquid + assetValue - debtTotal),
+      shortfall: round(shortfall),
+      inflationIndex: Math.round(inflationIndex * 10000) / 10000,
+      accounts: accountBalances,
+      incomes: Object.fromEntries([...incomeById].map(([id, amount]) => [id, round(amount)])),
+    });
+
+    // Advance event amounts and inflation into next year
+    for (const e of [...incomes, ...expenses]) {
+      const futureDollars = e.event.amountType === "future$" && (e.window.start === null || year + 1 <= e.window.start);
+      if (!futureDollars) e.level = applyYearlyChange(e.level, e.event.yearlyChange, rates, inflationIndex, year);
+    }
+    inflationIndex *= 1 + rates.inflation / 100;
+  }
+
+  return {
+    planId: plan.id,
+    planName: plan.name,
+    startYear,
+    endYear,
+    years,
+    milestones: allMilestones.map((m) => {
+      const year = milestoneYears.get(m.id) ?? null;
+      return { id: m.id, name: m.name, year, age: year === null ? undefined : ownerAge("me", year) };
+    }),
+    depletedYear,
+    warnings: [...new Set(warnings)],
+  };
+}
+
+// Pre-tax priorities reduce taxable income in the year they are made
+function isPreTax(p: PriorityEvent): boolean {
+  return p.type === "401k" || p.type === "traditional-ira" || p.type === "hsa";
+}
+
+// Accounts to draw from, honoring the plan's drawdownOrder (account IDs or account types)
+function drawdownOrder(accounts: SimAccount[], v: PlanVariables): SimAccount[] {
+  const defaultRank: Record<string, number> = {
+    savings: 0,
+    taxable: 1,
+    "401k": 2,
+    "traditional-ira": 2,
+    "roth-ira": 3,
+    hsa: 4,
+    "529": 5,
+  };
+  const order = v.drawdownOrder ?? [];
+  const rank = (a: SimAccount): number => {
+    const byId = order.indexOf(a.id);
+    if (byId >= 0) return byId;
+    const byType = order.indexOf(a.type);
+    if (byType >= 0) return byType;
+    return order.length + defaultRank[a.type];
+  };
+  return [...accounts].sort((a, b) => rank(a) - rank(b));
+}
+
+// Annual employee and employer contribution implied by a priority's settings
+export function priorityContribution(
+  p: PriorityEvent,
+  ctx: { salary: number; remaining: number; inflationIndex: number }
+): { employee: number; employer: number } {
+  const contribution = p.contribution ?? 0;
+  const scale = p.contributionsAreFixed ? 1 : ctx.inflationIndex;
+  let employee: number;
+  if (p.desiredContribution === "%-remaining") {
+    employee = (Math.max(0, ctx.remaining) * contribution) / 100;
+  } else if (p.desiredContribution === "max" && p.yearlyLimitType === "custom" && p.yearlyLimit !== undefined) {
+    employee = p.yearlyLimit * scale;
+  } else if (p.contributionType === "%") {
+    const base = p.incomeStreamId ? ctx.salary : Math.max(0, ctx.remaining);
+    employee = (base * contribution) / 100;
+  } else {
+    employee = contribution * annualMultiplier(p.frequency) * scale;
+  }
+  if (p.contributionLimit !== undefined && p.contributionLimit > 0) {
+    employee = Math.min(employee, p.contributionLimit * scale);
+  }
+
+  let employer = 0;
+  const match = p.employerMatch ?? 0;
+  const limit = p.employerMatchLimit;
+  switch (p.employerMatchType) {
+    case "%-salary-max-$":
+      employer = (ctx.salary * match) / 100;
+      if (limit !== undefined) employer = Math.min(employer, limit * scale);
+      break;
+    case "today$":
+      employer = match * scale;
+      break;
+    case "%":
+      // Match a percentage of the contributions that go up to a percentage of salary
+      employer = ((limit !== undefined ? Math.min(employee, (ctx.salary * limit) / 100) : employee) * match) / 100;
+      break;
+    default:
+      employer = (employee * match) / 100;
+      if (limit !== undefined) employer = Math.min(employer, limit * scale);
+  }
+  return { employee: Math.max(0, employee), employer: Math.max(0, employer) };
+}
+
+function round(n: number): number {
+  return Math.round(n);
+}
+
+// Express a projected year in today's dollars by removing cumulative inflation
+export function toTodayDollars(y: ProjectionYear): ProjectionYear {
+  const deflate = (n: number) => Math.round(n / y.inflationIndex);
+  const result: ProjectionYear = { ...y };
+  for (const key of MONEY_FIELDS) result[key] = deflate(y[key]);
+  if (y.accounts) {
+    result.accounts = Object.fromEntries(Object.entries(y.accounts).map(([id, balance]) => [id, deflate(balance)]));
+  }
+  if (y.incomes) {
+    result.incomes = Object.fromEntries(Object.entries(y.incomes).map(([id, amount]) => [id, deflate(amount)]));
+  }
+  return result;
+}
+
+const MONEY_FIELDS = [
+  "income",
+  "taxableIncome",
+  "capitalGains",
+  "rmd",
+  "rothConversion",
+  "taxes",
+  "expenses",
+  "debtPayments",
+  "contributions",
+  "employerContributions",
+  "withdrawals",
+  "netCashFlow",
+  "savings",
+  "taxable",
+  "taxDeferred",
+  "taxFree",
+  "liquid",
+  "assets",
+  "debt",
+  "netWorth",
+  "shortfall",
+] as const;
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createRandom, sampleNormal, percentile } from "./random.js";
+
+test("the same seed gives the same sequence", () => {
+  const a = createRandom(42);
+  const b = createRandom(42);
+  const first = [a(), a(), a()];
+  assert.deepEqual([b(), b(), b()], first);
+  assert.notEqual(createRandom(43)(), first[0]);
+  for (const x of first) assert.ok(x >= 0 && x < 1);
+});
+
+test("normal samples center on the mean", () => {
+  const random = createRandom(7);
+  let sum = 0;
+  for (let i = 0; i < 10000; i++) sum += sampleNormal(random, 5, 2);
+  assert.ok(Math.abs(sum / 10000 - 5) < 0.1);
+});
+
+test("percentile interpolates between sorted values", () => {
+  const sorted = [10, 20, 30, 40, 50];
+  assert.equal(percentile(sorted, 0), 10);
+  assert.equal(percentile(sorted, 50), 30);
+  assert.equal(percentile(sorted, 100), 50);
+  assert.equal(percentile(sorted, 10), 14);
+  assert.equal(percentile([], 50), 0);
+});
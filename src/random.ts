@@ -0,0 +1,33 @@
+/**
+ * Seeded pseudo-random number generation so simulations are reproducible.
+ */
+
+export type Random = () => number;
+
+// mulberry32: small, fast 32-bit generator returning floats in [0, 1)
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Normally distributed sample using the Box-Muller transform
+export function sampleNormal(random: Random, mean: number, stdDev: number): number {
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  return mean + stdDev * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+// Value at the given percentile (0-100) of an ascending-sorted array
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
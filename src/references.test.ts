@@ -0,0 +1,98 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { lintReferences, referencesTo, previewImpact, repairReferences } from "./references.js";
+import { ProjectionLabExport, Plan } from "./types.js";
+
+// A plan whose priorities, expenses and milestones point at today's accounts and its own income
+function fixture(): ProjectionLabExport {
+  const plan = {
+    id: "p1",
+    name: "Plan",
+    income: { events: [{ id: "salary", name: "Salary" }] },
+    expenses: {
+      events: [
+        { id: "rent", name: "Rent", fundWithAccounts: ["cash", "gone"], end: { type: "milestone", value: "retirement" } },
+      ],
+    },
+    priorities: {
+      events: [
+        { id: "save", name: "Save", accountId: "cash", incomeStreamId: "salary" },
+        { id: "match", name: "Match", accountId: "missing", deductFromIncomeId: "bonus" },
+      ],
+    },
+    milestones: [
+      { id: "fi", name: "FI", criteria: [{ type: "account", value: 100, refId: "cash" }] },
+      { id: "after", name: "After", criteria: [{ type: "milestone", value: "nope" }] },
+    ],
+  } as unknown as Plan;
+  return {
+    meta: { version: "4.0.0", lastUpdated: 0 },
+    today: { savingsAccounts: [{ id: "cash", name: "Cash" }], investmentAccounts: [], debts: [], assets: [] },
+    plans: [plan],
+    settings: {},
+  } as unknown as ProjectionLabExport;
+}
+
+test("lintReferences reports only dangling references, errors first", () => {
+  const issues = lintReferences(fixture());
+  assert.deepEqual(
+    issues.map((i) => [i.severity, i.path, i.target]),
+    [
+      ["error", "/plans/0/priorities/events/1/accountId", "account missing"],
+      ["error", "/plans/0/expenses/events/0/end/value", "milestone retirement"],
+      ["error", "/plans/0/milestones/1/criteria/0/value", "milestone nope"],
+      ["warning", "/plans/0/priorities/events/1/deductFromIncomeId", "income bonus"],
+      ["warning", "/plans/0/expenses/events/0/fundWithAccounts/1", "account gone"],
+    ]
+  );
+});
+
+test("lint messages name built-in milestones and suggest existing targets", () => {
+  const [account, retirement] = lintReferences(fixture());
+  assert.match(retirement.message, /built-in milestone "retirement"/);
+  assert.match(account.fix, /existing account \(e\.g\., cash\) with update_priority, or remove the priority with delete_priority/);
+});
+
+test("a plan with every reference resolved has no issues", () => {
+  const data = fixture();
+  const plan = data.plans[0];
+  plan.expenses!.events = [];
+  plan.priorities!.events = plan.priorities!.events!.slice(0, 1);
+  plan.milestones = plan.milestones!.slice(0, 1);
+  assert.deepEqual(lintReferences(data), []);
+});
+
+test("cascade removes the priorities funding a deleted account and detach only clears the field", () => {
+  const cascaded = fixture();
+  const refs = referencesTo(cascaded, { kind: "account", id: "cash" });
+  assert.deepEqual(
+    previewImpact(cascaded, refs).map((i) => [i.field, i.cascade, i.detach]),
+    [
+      ["accountId", "Remove priority", "Clear accountId"],
+      ["fundWithAccounts", "Remove cash from fundWithAccounts", "Remove cash from fundWithAccounts"],
+      ["criteria.refId", "Remove criterion", "Remove criterion"],
+    ]
+  );
+
+  repairReferences(cascaded, refs, "cascade");
+  const plan = cascaded.plans[0];
+  assert.deepEqual(plan.priorities!.events!.map((p) => p.id), ["match"]);
+  assert.deepEqual(plan.expenses!.events![0].fundWithAccounts, ["gone"]);
+  assert.deepEqual(plan.milestones![0].criteria, []);
+
+  const detached = fixture();
+  repairReferences(detached, referencesTo(detached, { kind: "account", id: "cash" }), "detach");
+  const kept = detached.plans[0].priorities!.events![0];
+  assert.equal(kept.id, "save");
+  assert.equal(kept.accountId, undefined);
+});
+
+test("cascading a milestone pins dates to the year it was reached", () => {
+  const data = fixture();
+  repairReferences(data, referencesTo(data, { kind: "milestone", id: "retirement", planId: "p1" }), "cascade", 2050);
+  assert.deepEqual(data.plans[0].expenses!.events![0].end, { type: "year", value: "2050", modifier: "exclude" });
+
+  const detached = fixture();
+  repairReferences(detached, referencesTo(detached, { kind: "milestone", id: "retirement" }), "detach");
+  assert.deepEqual(detached.plans[0].expenses!.events![0].end, { type: "keyword", value: "endOfPlan" });
+});
@@ -0,0 +1,419 @@
+/**
+ * Cross-entity references in an export: which priorities, expenses, milestones
+ * and dates point at which accounts, debts, assets, income streams and milestones.
+ *
+ * Used by lint_data to report dangling references, and by the delete tools to
+ * preview, cascade or detach references to the entity being deleted.
+ */
+
+import { ProjectionLabExport, Plan, DateReference } from "./types.js";
+import { PatchOperation, applyPatch } from "./json-patch.js";
+
+export type EntityKind = "account" | "debt" | "asset" | "income" | "milestone";
+
+export type SourceKind =
+  | "priority"
+  | "expense"
+  | "income"
+  | "milestone"
+  | "planAccount"
+  | "planAsset"
+  | "withdrawalStrategy";
+
+export type Severity = "error" | "warning" | "info";
+
+export interface Reference {
+  planId: string;
+  // JSON pointers to the referencing value and to the object holding it
+  path: string;
+  sourcePath: string;
+  source: { kind: SourceKind; id: string; name: string };
+  // Field holding the reference, e.g. "incomeStreamId", "fundWithAccounts", "criteria.refId", "end"
+  field: string;
+  target: { kind: EntityKind; id: string };
+}
+
+export interface LintIssue {
+  severity: Severity;
+  planId: string;
+  planName: string;
+  path: string;
+  source: string;
+  field: string;
+  target: string;
+  message: string;
+  fix: string;
+}
+
+// Milestones ProjectionLab treats as built in (see validateCriteriaReferences)
+export const BUILT_IN_MILESTONES = ["retirement", "spouseRetirement", "fire"];
+
+// Events may carry dates in fields other than start/end (e.g., partTimeStart, forgiveAt)
+function isDateReference(value: unknown): value is DateReference {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  const ref = value as Record<string, unknown>;
+  return ["keyword", "milestone", "date", "year"].includes(ref.type as string) && ref.value !== undefined;
+}
+
+// Every reference held by the given plan
+export function planReferences(plan: Plan, planIndex: number): Reference[] {
+  const refs: Reference[] = [];
+  const base = `/plans/${planIndex}`;
+
+  const add = (
+    path: string,
+    source: Reference["source"],
+    field: string,
+    kind: EntityKind,
+    id: unknown
+  ) => {
+    if (typeof id !== "string" || id === "") return;
+    refs.push({ planId: plan.id, path, sourcePath: sourcePaths.get(source)!, source, field, target: { kind, id } });
+  };
+
+  const addDates = (path: string, source: Reference["source"], event: object) => {
+    for (const [field, value] of Object.entries(event)) {
+      if (isDateReference(value) && value.type === "milestone") {
+        add(`${path}/${field}/value`, source, field, "milestone", value.value);
+      }
+    }
+  };
+
+  const sourcePaths = new Map<Reference["source"], string>();
+  const sourceOf = (kind: SourceKind, e: { id?: string; name?: string; title?: string }, path: string) => {
+    const fallback = `#${path.split("/").pop()}`;
+    const source = { kind, id: e.id ?? fallback, name: e.name ?? e.title ?? e.id ?? fallback };
+    sourcePaths.set(source, path);
+    return source;
+  };
+
+  (plan.priorities?.events ?? []).forEach((p, i) => {
+    const path = `${base}/priorities/events/${i}`;
+    const source = sourceOf("priority", p, path);
+    add(`${path}/accountId`, source, "accountId", "account", p.accountId);
+    add(`${path}/debtId`, source, "debtId", "debt", p.debtId);
+    add(`${path}/assetId`, source, "assetId", "asset", p.assetId);
+    add(`${path}/incomeStreamId`, source, "incomeStreamId", "income", p.incomeStreamId);
+    add(`${path}/deductFromIncomeId`, source, "deductFromIncomeId", "income", p.deductFromIncomeId);
+    addDates(path, source, p);
+  });
+
+  (plan.expenses?.events ?? []).forEach((e, i) => {
+    const path = `${base}/expenses/events/${i}`;
+    const source = sourceOf("expense", e, path);
+    add(`${path}/debtId`, source, "debtId", "debt", e.debtId);
+    (e.fundWithAccounts ?? []).forEach((accountId, j) => {
+      add(`${path}/fundWithAccounts/${j}`, source, "fundWithAccounts", "account", accountId);
+    });
+    addDates(path, source, e);
+  });
+
+  (plan.income?.events ?? []).forEach((e, i) => {
+    const path = `${base}/income/events/${i}`;
+    addDates(path, sourceOf("income", e, path), e);
+  });
+
+  (plan.assets?.events ?? []).forEach((a, i) => {
+    const path = `${base}/assets/events/${i}`;
+    const source = sourceOf("planAsset", a, path);
+    add(`${path}/assetId`, source, "assetId", "asset", a.assetId);
+    addDates(path, source, a);
+  });
+
+  (plan.accounts?.events ?? []).forEach((a, i) => {
+    const path = `${base}/accounts/events/${i}`;
+    add(`${path}/accountId`, sourceOf("planAccount", a, path), "accountId", "account", a.accountId);
+  });
+
+  const milestoneLists = [
+    ["milestones", plan.milestones ?? []],
+    ["computedMilestones", plan.computedMilestones ?? []],
+  ] as const;
+  for (const [list, milestones] of milestoneLists) {
+    milestones.forEach((m, i) => {
+      const source = sourceOf("milestone", m, `${base}/${list}/${i}`);
+      (m.criteria ?? []).forEach((c, j) => {
+        const path = `${base}/${list}/${i}/criteria/${j}`;
+        switch (c.type) {
+          case "account":
+            add(`${path}/refId`, source, "criteria.refId", "account", c.refId);
+            break;
+          case "debt":
+          case "totalDebt":
+            add(`${path}/refId`, source, "criteria.refId", "debt", c.refId);
+            break;
+          case "milestone":
+            if (c.refId) add(`${path}/refId`, source, "criteria.refId", "milestone", c.refId);
+            else add(`${path}/value`, source, "criteria.value", "milestone", c.value);
+            break;
+        }
+      });
+    });
+  }
+
+  if (plan.withdrawalStrategy) {
+    const path = `${base}/withdrawalStrategy`;
+    addDates(path, sourceOf("withdrawalStrategy", { id: "withdrawalStrategy", name: "Withdrawal strategy" }, path), plan.withdrawalStrategy);
+  }
+
+  return refs;
+}
+
+export function collectReferences(data: ProjectionLabExport): Reference[] {
+  return data.plans.flatMap((plan, i) => planReferences(plan, i));
+}
+
+// IDs of every entity a reference from `plan` may resolve to
+export function entityIds(data: ProjectionLabExport, plan: Plan): Record<EntityKind, Set<string>> {
+  const ids = (items: Array<{ id?: string }> | undefined) =>
+    (items ?? []).map((i) => i.id).filter((id): id is string => typeof id === "string");
+  const planDebts = (plan.expenses?.events ?? []).filter((e) => e.type === "debt");
+  const planAssets = (plan.assets?.events ?? []).flatMap((a) => [a.id, a.assetId]);
+
+  return {
+    account: new Set([...ids(data.today.savingsAccounts), ...ids(data.today.investmentAccounts)]),
+    // Debt priorities may target a today debt or a debt expense in the plan
+    debt: new Set([...ids(data.today.debts), ...ids(planDebts)]),
+    asset: new Set([...ids(data.today.assets), ...planAssets.filter((id): id is string => typeof id === "string")]),
+    income: new Set(ids(plan.income?.events)),
+    milestone: new Set([...ids(plan.milestones), ...ids(plan.computedMilestones)]),
+  };
+}
+
+export function referenceExists(ref: Reference, known: Record<EntityKind, Set<string>>): boolean {
+  return known[ref.target.kind].has(ref.target.id);
+}
+
+// Fields ProjectionLab cannot work with when dangling; the rest degrade gracefully
+function severityOf(ref: Reference): Severity {
+  if (ref.target.kind === "milestone") return "error";
+  switch (ref.source.kind) {
+    case "priority":
+      return ref.field === "deductFromIncomeId" ? "warning" : "error";
+    case "milestone":
+      return "error";
+    case "planAccount":
+    case "planAsset":
+      return "info";
+    default:
+      return "warning";
+  }
+}
+
+const UPDATE_TOOLS: Record<SourceKind, string> = {
+  priority: "update_priority",
+  expense: "update_expense",
+  income: "update_income",
+  milestone: "update_milestone",
+  planAccount: "a ProjectionLab re-import",
+  planAsset: "update_plan_asset",
+  withdrawalStrategy: "update_withdrawal_strategy",
+};
+
+const DELETE_TOOLS: Partial<Record<SourceKind, string>> = {
+  priority: "delete_priority",
+  expense: "delete_expense",
+  income: "delete_income",
+  milestone: "delete_milestone",
+  planAsset: "delete_plan_asset",
+};
+
+function suggestFix(ref: Reference, known: Record<EntityKind, Set<string>>): string {
+  const candidates = [...known[ref.target.kind]].filter((id) => id !== ref.source.id).slice(0, 5);
+  const choices = candidates.length > 0 ? ` (e.g., ${candidates.join(", ")})` : "";
+  const remove = DELETE_TOOLS[ref.source.kind] ? `, or remove the ${ref.source.kind} with ${DELETE_TOOLS[ref.source.kind]}` : "";
+  if (ref.field === "fundWithAccounts") {
+    return `Remove ${ref.target.id} from fundWithAccounts with ${UPDATE_TOOLS[ref.source.kind]}`;
+  }
+  return `Point ${ref.field} at an existing ${ref.target.kind}${choices} with ${UPDATE_TOOLS[ref.source.kind]}${remove}`;
+}
+
+// Dangling references across all plans, most severe first
+export function lintReferences(data: ProjectionLabExport): LintIssue[] {
+  const order: Record<Severity, number> = { error: 0, warning: 1, info: 2 };
+  const issues: LintIssue[] = [];
+
+  data.plans.forEach((plan, i) => {
+    const known = entityIds(data, plan);
+    for (const ref of planReferences(plan, i)) {
+      if (referenceExists(ref, known)) continue;
+      const builtIn = ref.target.kind === "milestone" && BUILT_IN_MILESTONES.includes(ref.target.id);
+      issues.push({
+        severity: severityOf(ref),
+        planId: plan.id,
+        planName: plan.name,
+        path: ref.path,
+        source: `${ref.source.kind} ${ref.source.id} (${ref.source.name})`,
+        field: ref.field,
+        target: `${ref.target.kind} ${ref.target.id}`,
+        message: builtIn
+          ? `${ref.field} refers to built-in milestone "${ref.target.id}", which is not defined in this plan, so it never resolves`
+          : `${ref.field} refers to ${ref.target.kind} "${ref.target.id}", which does not exist`,
+        fix: suggestFix(ref, known),
+      });
+    }
+  });
+
+  return issues.sort((a, b) => order[a.severity] - order[b.severity]);
+}
+
+// =============================================================================
+// Deleting referenced entities
+// =============================================================================
+
+export type DeleteMode = "preview" | "cascade" | "detach";
+
+export interface ImpactItem {
+  planId: string;
+  path: string;
+  source: string;
+  field: string;
+  cascade: string;
+  detach: string;
+}
+
+interface RepairAction {
+  description: string;
+  op: PatchOperation;
+}
+
+// References to a single entity; income and milestones are scoped to one plan
+export function referencesTo(
+  data: ProjectionLabExport,
+  target: { kind: EntityKind; id: string; planId?: string }
+): Reference[] {
+  return collectReferences(data).filter(
+    (r) =>
+      r.target.kind === target.kind &&
+      r.target.id === target.id &&
+      (target.planId === undefined || r.planId === target.planId)
+  );
+}
+
+function parentPointer(pointer: string): string {
+  return pointer.slice(0, pointer.lastIndexOf("/"));
+}
+
+function resolvePointer(doc: unknown, pointer: string): unknown {
+  let value: unknown = doc;
+  for (const segment of pointer.split("/").slice(1)) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[segment.replace(/~1/g, "/").replace(/~0/g, "~")];
+  }
+  return value;
+}
+
+// A milestone date pinned to the year the milestone was reached, keeping its
+// boundary semantics: milestone ends are exclusive unless "include"
+function pinnedDate(ref: DateReference, field: string, year: number): DateReference {
+  const offset = typeof ref.modifier === "number" ? ref.modifier : 0;
+  const pinned: DateReference = { type: "year", value: String(year + offset) };
+  if (typeof ref.modifier === "string") pinned.modifier = ref.modifier;
+  else if (field === "end" || field.endsWith("End")) pinned.modifier = "exclude";
+  if (ref.logic) pinned.logic = ref.logic;
+  return pinned;
+}
+
+// Defaults match what add_income/add_expense use for new events
+function detachedDate(ref: Reference): RepairAction {
+  const pointer = parentPointer(ref.path);
+  if (ref.field === "start") {
+    return { description: "Set start to now", op: { op: "replace", path: pointer, value: { type: "keyword", value: "now" } } };
+  }
+  if (ref.field === "end") {
+    return { description: "Set end to end of plan", op: { op: "replace", path: pointer, value: { type: "keyword", value: "endOfPlan" } } };
+  }
+  return { description: `Remove ${ref.field}`, op: { op: "remove", path: pointer } };
+}
+
+function repairAction(
+  data: ProjectionLabExport,
+  ref: Reference,
+  mode: "cascade" | "detach",
+  milestoneYear: number | null
+): RepairAction {
+  const removeSource = { description: `Remove ${ref.source.kind}`, op: { op: "remove", path: ref.sourcePath } as PatchOperation };
+  const clearField = { description: `Clear ${ref.field}`, op: { op: "remove", path: ref.path } as PatchOperation };
+
+  if (ref.target.kind === "milestone") {
+    if (ref.field.startsWith("criteria.")) {
+      return { description: "Remove criterion", op: { op: "remove", path: parentPointer(ref.path) } };
+    }
+    if (mode === "cascade" && milestoneYear !== null) {
+      const date = resolvePointer(data, parentPointer(ref.path)) as DateReference;
+      const value = pinnedDate(date, ref.field, milestoneYear);
+      return { description: `Pin ${ref.field} to ${value.value}`, op: { op: "replace", path: parentPointer(ref.path), value } };
+    }
+    return detachedDate(ref);
+  }
+
+  switch (ref.source.kind) {
+    case "priority":
+      return mode === "cascade" && ref.field !== "deductFromIncomeId" ? removeSource : clearField;
+    case "expense":
+      if (ref.field === "fundWithAccounts") {
+        return { description: `Remove ${ref.target.id} from fundWithAccounts`, op: { op: "remove", path: ref.path } };
+      }
+      return mode === "cascade" ? removeSource : clearField;
+    case "milestone":
+      return { description: "Remove criterion", op: { op: "remove", path: parentPointer(ref.path) } };
+    case "planAccount":
+      // Plan overrides of an account that no longer exists are meaningless either way
+      return removeSource;
+    case "planAsset":
+      return mode === "cascade" ? removeSource : clearField;
+    default:
+      return clearField;
+  }
+}
+
+// What cascade and detach would each do, without changing anything
+export function previewImpact(data: ProjectionLabExport, refs: Reference[], milestoneYear: number | null = null): ImpactItem[] {
+  return refs.map((ref) => ({
+    planId: ref.planId,
+    path: ref.path,
+    source: `${ref.source.kind} ${ref.source.id} (${ref.source.name})`,
+    field: ref.field,
+    cascade: repairAction(data, ref, "cascade", milestoneYear).description,
+    detach: repairAction(data, ref, "detach", milestoneYear).description,
+  }));
+}
+
+// Compare JSON pointers so that later array items and deeper paths come first,
+// keeping the remaining pointers valid while removing
+function compareForRemoval(a: string, b: string): number {
+  const as = a.split("/");
+  const bs = b.split("/");
+  for (let i = 0; i < Math.min(as.length, bs.length); i++) {
+    if (as[i] === bs[i]) continue;
+    const an = Number(as[i]);
+    const bn = Number(bs[i]);
+    return Number.isInteger(an) && Number.isInteger(bn) ? bn - an : bs[i].localeCompare(as[i]);
+  }
+  return bs.length - as.length;
+}
+
+// Cascade or detach the given references in place. Returns a description of each change.
+export function repairReferences(
+  data: ProjectionLabExport,
+  refs: Reference[],
+  mode: "cascade" | "detach",
+  milestoneYear: number | null = null
+): Array<{ planId: string; source: string; field: string; change: string }> {
+  const actions = refs.map((ref) => ({ ref, action: repairAction(data, ref, mode, milestoneYear) }));
+
+  // Field updates first, then removals back to front; duplicate removals collapse
+  const replaces = actions.filter((a) => a.action.op.op === "replace").map((a) => a.action.op);
+  const removals = [...new Set(actions.filter((a) => a.action.op.op === "remove").map((a) => a.action.op.path))]
+    .filter((path, _, all) => !all.some((other) => other !== path && path.startsWith(`${other}/`)))
+    .sort(compareForRemoval)
+    .map((path): PatchOperation => ({ op: "remove", path }));
+  applyPatch(data, [...replaces, ...removals]);
+
+  return actions.map(({ ref, action }) => ({
+    planId: ref.planId,
+    source: `${ref.source.kind} ${ref.source.id} (${ref.source.name})`,
+    field: ref.field,
+    change: action.description,
+  }));
+}
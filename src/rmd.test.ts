@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { rmdStartAge, distributionPeriod, requiredDistribution, rmdSchedule } from "./rmd.js";
+import { runProjection } from "./projection.js";
+import { ProjectionLabExport, Plan } from "./types.js";
+
+test("RMDs start at the SECURE 2.0 age for the birth year", () => {
+  assert.equal(rmdStartAge(1950), 72);
+  assert.equal(rmdStartAge(1951), 73);
+  assert.equal(rmdStartAge(1959), 73);
+  assert.equal(rmdStartAge(1960), 75);
+});
+
+test("the distribution is the prior year-end balance over the Uniform Lifetime period", () => {
+  assert.equal(distributionPeriod(75), 24.6);
+  assert.equal(distributionPeriod(125), 2.0);
+  assert.equal(requiredDistribution(246000, 75, 1950), 10000);
+  // Born 1960: nothing is required before 75
+  assert.equal(requiredDistribution(246000, 74, 1960), 0);
+  assert.equal(requiredDistribution(0, 80, 1940), 0);
+});
+
+test("the schedule covers accounts with rmdType us from the owner's start year", () => {
+  const plan: Plan = {
+    id: "p1",
+    name: "Test",
+    variables: { startYear: 2025, loopYear: 2030, investmentReturn: 0, dividendRate: 0, inflation: 0 },
+  };
+  const data = {
+    meta: { version: "4.0.0", lastUpdated: 0 },
+    today: {
+      age: 72,
+      birthYear: 1953,
+      savingsAccounts: [],
+      investmentAccounts: [
+        { id: "k1", type: "401k", name: "401k", balance: 265000, owner: "me", rmdType: "us" },
+        { id: "ira", type: "traditional-ira", name: "IRA", balance: 50000, owner: "me" },
+      ],
+      debts: [],
+      assets: [],
+    },
+    plans: [plan],
+    settings: {},
+  } as ProjectionLabExport;
+
+  const schedule = rmdSchedule(data, plan, runProjection(data, plan));
+  assert.deepEqual(schedule.accounts.map((a) => [a.id, a.startAge, a.firstYear]), [["k1", 73, 2026]]);
+  assert.match(schedule.warnings[0], /Not subject to RMDs.*IRA/);
+  // 2025 is the year they turn 72, so the first RMD is 2026, from the 2025 year-end balance
+  assert.equal(schedule.schedule[0].year, 2026);
+  assert.equal(schedule.schedule[0].rmd, 10000);
+  assert.equal(schedule.totals.length, 5);
+});
@@ -0,0 +1,134 @@
+/**
+ * US required minimum distributions (rmdType "us") for tax-deferred accounts.
+ */
+
+import { ProjectionLabExport, Plan } from "./types.js";
+import { ProjectionResult } from "./projection.js";
+import { createDateContext } from "./dates.js";
+
+// IRS Uniform Lifetime Table (in effect from 2022): distribution period by age
+const UNIFORM_LIFETIME: Record<number, number> = {
+  72: 27.4, 73: 26.5, 74: 25.5, 75: 24.6, 76: 23.7, 77: 22.9, 78: 22.0, 79: 21.1,
+  80: 20.2, 81: 19.4, 82: 18.5, 83: 17.7, 84: 16.8, 85: 16.0, 86: 15.2, 87: 14.4,
+  88: 13.7, 89: 12.9, 90: 12.2, 91: 11.5, 92: 10.8, 93: 10.1, 94: 9.5, 95: 8.9,
+  96: 8.4, 97: 7.8, 98: 7.3, 99: 6.8, 100: 6.4, 101: 6.0, 102: 5.6, 103: 5.2,
+  104: 4.9, 105: 4.6, 106: 4.3, 107: 4.1, 108: 3.9, 109: 3.7, 110: 3.5, 111: 3.4,
+  112: 3.3, 113: 3.1, 114: 3.0, 115: 2.9, 116: 2.8, 117: 2.7, 118: 2.5, 119: 2.3,
+};
+const FINAL_DISTRIBUTION_PERIOD = 2.0;
+
+// Account types subject to RMDs when rmdType is "us"
+export const RMD_ACCOUNT_TYPES = ["401k", "traditional-ira"];
+
+// SECURE 2.0 starting ages: 72 if born before 1951, 73 if born 1951-1959, 75 from 1960
+export function rmdStartAge(birthYear: number): number {
+  if (birthYear <= 1950) return 72;
+  if (birthYear <= 1959) return 73;
+  return 75;
+}
+
+export function distributionPeriod(age: number): number {
+  if (age < 72) return UNIFORM_LIFETIME[72];
+  return UNIFORM_LIFETIME[age] ?? FINAL_DISTRIBUTION_PERIOD;
+}
+
+// RMD for a year, from the balance at the end of the prior year
+export function requiredDistribution(priorYearEndBalance: number, age: number, birthYear: number): number {
+  if (priorYearEndBalance <= 0 || age < rmdStartAge(birthYear)) return 0;
+  return priorYearEndBalance / distributionPeriod(age);
+}
+
+export interface RmdAccount {
+  id: string;
+  name: string;
+  type: string;
+  owner: string;
+  birthYear: number | null;
+  startAge: number | null;
+  firstYear: number | null;
+}
+
+export interface RmdRow {
+  year: number;
+  accountId: string;
+  owner: string;
+  age: number;
+  priorYearEndBalance: number;
+  distributionPeriod: number;
+  rmd: number;
+}
+
+export interface RmdSchedule {
+  planId: string;
+  accounts: RmdAccount[];
+  totals: Array<{ year: number; age?: number; spouseAge?: number; total: number }>;
+  schedule: RmdRow[];
+  warnings: string[];
+}
+
+// Per-account RMDs for each projected year, from the projection's year-end balances
+export function rmdSchedule(
+  data: ProjectionLabExport,
+  plan: Plan,
+  projection: ProjectionResult,
+  todayDollars = false
+): RmdSchedule {
+  const today = data.today;
+  const warnings: string[] = [];
+  const ctx = createDateContext(data, plan);
+  const birthYearOf = (owner: string) => (owner === "spouse" ? ctx.spouseBirthYear : ctx.birthYear);
+
+  const taxDeferred = (today.investmentAccounts ?? []).filter((a) => RMD_ACCOUNT_TYPES.includes(a.type));
+  const skipped = taxDeferred.filter((a) => a.rmdType !== "us");
+  if (skipped.length) {
+    warnings.push(`Not subject to RMDs (rmdType is not "us"): ${skipped.map((a) => a.name ?? a.id).join(", ")}`);
+  }
+
+  const accounts: RmdAccount[] = taxDeferred
+    .filter((a) => a.rmdType === "us")
+    .map((a) => {
+      const owner = a.owner === "spouse" ? "spouse" : "me";
+      const birthYear = birthYearOf(owner);
+      if (birthYear === undefined) warnings.push(`No birth year for the owner of ${a.name ?? a.id}; its RMDs are not scheduled`);
+      const startAge = birthYear === undefined ? null : rmdStartAge(birthYear);
+      return {
+        id: a.id,
+        name: a.name ?? a.title ?? a.id,
+        type: a.type,
+        owner,
+        birthYear: birthYear ?? null,
+        startAge,
+        firstYear: birthYear === undefined || startAge === null ? null : birthYear + startAge,
+      };
+    });
+
+  const schedule: RmdRow[] = [];
+  const totals: RmdSchedule["totals"] = [];
+  projection.years.forEach((y, i) => {
+    const scale = todayDollars ? y.inflationIndex : 1;
+    let total = 0;
+    for (const account of accounts) {
+      if (account.birthYear === null || account.firstYear === null || y.year < account.firstYear) continue;
+      const prior =
+        i === 0
+          ? (today.investmentAccounts ?? []).find((a) => a.id === account.id)?.balance ?? 0
+          : projection.years[i - 1].accounts?.[account.id] ?? 0;
+      const age = y.year - account.birthYear;
+      const rmd = requiredDistribution(prior, age, account.birthYear);
+      if (rmd <= 0) continue;
+      total += rmd;
+      schedule.push({
+        year: y.year,
+        accountId: account.id,
+        owner: account.owner,
+        age,
+        priorYearEndBalance: Math.round(prior / scale),
+        distributionPeriod: distributionPeriod(age),
+        rmd: Math.round(rmd / scale),
+      });
+    }
+    if (total > 0) totals.push({ year: y.year, age: y.age, spouseAge: y.spouseAge, total: Math.round(total / scale) });
+  });
+
+  return { planId: projection.planId, accounts, totals, schedule, warnings };
+}
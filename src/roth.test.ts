@@ -0,0 +1,70 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { optimizeRothConversions } from "./roth.js";
+import { ProjectionLabExport, Plan } from "./types.js";
+
+// A 65-year-old retiree living off savings, with a large 401k that faces RMDs from 75 (born 1960)
+function fixture(deferred: number): { data: ProjectionLabExport; plan: Plan } {
+  const plan: Plan = {
+    id: "p1",
+    name: "Test",
+    variables: { startYear: 2025, loopYear: 2055, investmentReturn: 5, dividendRate: 0, inflation: 0, incomeTaxMode: "brackets", filingStatus: "single" },
+    expenses: {
+      events: [
+        {
+          id: "living",
+          type: "living-expenses",
+          name: "Living",
+          amount: 40000,
+          frequency: "yearly",
+          start: { type: "keyword", value: "now" },
+          end: { type: "keyword", value: "endOfPlan" },
+        },
+      ],
+    },
+  };
+  const data: ProjectionLabExport = {
+    meta: { version: "4.0.0", lastUpdated: 0 },
+    today: {
+      age: 65,
+      birthYear: 1960,
+      savingsAccounts: [{ id: "cash", type: "savings", name: "Cash", balance: 1500000 }],
+      investmentAccounts: [
+        { id: "k1", type: "401k", name: "401k", balance: deferred, owner: "me", rmdType: "us" },
+        { id: "roth", type: "roth-ira", name: "Roth", balance: 0, owner: "me" },
+      ],
+      debts: [],
+      assets: [],
+    },
+    plans: [plan],
+    settings: {},
+  };
+  return { data, plan };
+}
+
+test("conversions run up to the RMD start year and stay at or below the later rate", () => {
+  const { data, plan } = fixture(2000000);
+  const result = optimizeRothConversions(data, plan);
+  assert.equal(result.fromYear, 2025);
+  assert.equal(result.toYear, 1960 + 75);
+  assert.ok(result.laterRate > result.targetRate, "RMDs on a 2M 401k are taxed above 22%");
+  assert.ok(result.conversions.length > 0);
+  for (const c of result.conversions) assert.ok(c.year >= result.fromYear && c.year <= result.toYear);
+  for (const y of result.years.filter((y) => y.conversion > 0)) assert.ok(y.bracketRate <= result.targetRate);
+  assert.ok(result.lifetimeTaxSaved > 0);
+  assert.ok(result.worthwhile);
+});
+
+test("a small 401k facing no later tax is converted only inside the standard deduction", () => {
+  const { data, plan } = fixture(100000);
+  const result = optimizeRothConversions(data, plan);
+  assert.equal(result.laterRate, 0);
+  assert.ok(result.conversions.length > 0);
+  for (const y of result.years.filter((y) => y.conversion > 0)) assert.equal(y.taxes, 0);
+});
+
+test("the optimizer needs a Roth IRA to convert into", () => {
+  const { data, plan } = fixture(100000);
+  data.today.investmentAccounts = data.today.investmentAccounts!.filter((a) => a.type !== "roth-ira");
+  assert.throws(() => optimizeRothConversions(data, plan), /no Roth IRA account/);
+});
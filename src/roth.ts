@@ -0,0 +1,288 @@
+/**
+ * Roth conversion optimizer.
+ *
+ * Each year in the window (by default retirement through the year RMDs start),
+ * converts enough from tax-deferred accounts to fill ordinary income up to the
+ * top of a target federal bracket (optionally staying inside the current
+ * Medicare IRMAA tier), but no higher than the point where the marginal rate
+ * passes the rate the money would otherwise meet later, in RMD years or at the
+ * end of the plan. The result is compared against a projection
+ * with no conversions. Conversions in earlier years shrink later RMDs, which
+ * the projection models for accounts with rmdType "us".
+ */
+
+import { ProjectionLabExport, Plan } from "./types.js";
+import { runProjection, ProjectionResult, ProjectionYear, RothConversion } from "./projection.js";
+import { bracketCeiling, bracketRates, estimateTaxes, irmaaSurcharge } from "./taxes.js";
+import { rmdStartAge } from "./rmd.js";
+
+export interface RothOptimizerOptions {
+  // Top federal bracket (percent) to fill with conversions
+  targetRate?: number;
+  fromYear?: number;
+  toYear?: number;
+  // Cap on each year's conversion, in today's dollars
+  maxAnnual?: number;
+  // Keep conversions inside the current IRMAA tier (default: the plan's irmaa setting)
+  avoidIrmaa?: boolean;
+}
+
+export interface RothOutcome {
+  // Today's dollars
+  lifetimeTaxes: number;
+  lifetimeIrmaa: number;
+  endingTaxDeferred: number;
+  endingTaxFree: number;
+  endingNetWorth: number;
+  // Tax still owed on the ending tax-deferred balance at the final year's marginal rate
+  deferredTaxLiability: number;
+  depletedYear: number | null;
+}
+
+export interface RothConversionYear {
+  year: number;
+  age?: number;
+  conversion: number;
+  conversionTodayDollars: number;
+  rmd: number;
+  baselineRmd: number;
+  taxableIncome: number;
+  // Federal bracket the year's ordinary income reaches
+  bracketRate: number;
+  taxes: number;
+  baselineTaxes: number;
+}
+
+export interface RothOptimizerResult {
+  planId: string;
+  planName: string;
+  targetRate: number;
+  fromYear: number;
+  toYear: number;
+  avoidIrmaa: boolean;
+  // Marginal rate (percent) the tax-deferred money is projected to meet after the window
+  laterRate: number;
+  totalConverted: number;
+  totalConvertedTodayDollars: number;
+  baseline: RothOutcome;
+  withConversions: RothOutcome;
+  // Today's dollars; positive means the conversions pay off
+  lifetimeTaxSaved: number;
+  afterTaxNetWorthGain: number;
+  // The schedule leaves the plan better off after tax and does not run out of money sooner
+  worthwhile: boolean;
+  years: RothConversionYear[];
+  conversions: RothConversion[];
+  warnings: string[];
+}
+
+const DEFAULT_TARGET_RATE = 22;
+// Enrollees' premiums depend on MAGI from two years earlier
+const IRMAA_LOOKBACK = 2;
+const MEDICARE_AGE = 65;
+// Width of the last slice of a conversion whose tax rate is compared with the later rate
+const RATE_SLICE = 100;
+
+// Medicare IRMAA surcharges paid in each projected year, keyed by year
+function irmaaCosts(plan: Plan, result: ProjectionResult): Map<number, number> {
+  const v = plan.variables ?? {};
+  const costs = new Map<number, number>();
+  result.years.forEach((y, i) => {
+    const lookback = result.years[i - IRMAA_LOOKBACK];
+    const enrollees = [y.age, y.spouseAge].filter((a) => a !== undefined && a >= MEDICARE_AGE).length;
+    if (!lookback || enrollees === 0) return;
+    const { annual } = irmaaSurcharge(v, {
+      year: y.year,
+      magi: lookback.taxableIncome + lookback.capitalGains,
+      inflationIndex: y.inflationIndex,
+    });
+    if (annual > 0) costs.set(y.year, annual * enrollees);
+  });
+  return costs;
+}
+
+function outcome(plan: Plan, result: ProjectionResult, includeIrmaa: boolean): RothOutcome {
+  const v = plan.variables ?? {};
+  const irmaa = includeIrmaa ? irmaaCosts(plan, result) : new Map<number, number>();
+  const today = (y: ProjectionYear, n: number) => n / y.inflationIndex;
+  const last = result.years[result.years.length - 1];
+  const finalRate = estimateTaxes(v, { year: last.year, ordinaryIncome: last.taxableIncome, inflationIndex: last.inflationIndex }).marginalRate;
+  return {
+    lifetimeTaxes: Math.round(result.years.reduce((sum, y) => sum + today(y, y.taxes), 0)),
+    lifetimeIrmaa: Math.round(result.years.reduce((sum, y) => sum + today(y, irmaa.get(y.year) ?? 0), 0)),
+    endingTaxDeferred: Math.round(today(last, last.taxDeferred)),
+    endingTaxFree: Math.round(today(last, last.taxFree)),
+    endingNetWorth: Math.round(today(last, last.netWorth)),
+    deferredTaxLiability: Math.round((today(last, last.taxDeferred) * finalRate) / 100),
+    depletedYear: result.depletedYear,
+  };
+}
+
+export function optimizeRothConversions(
+  data: ProjectionLabExport,
+  plan: Plan,
+  options: RothOptimizerOptions = {}
+): RothOptimizerResult {
+  const v = plan.variables ?? {};
+  const warnings: string[] = [];
+  const baseline = runProjection(data, plan, { rothConversion: () => 0 });
+
+  const targetRate = options.targetRate ?? DEFAULT_TARGET_RATE;
+  const rates = bracketRates(v, baseline.startYear);
+  if (!rates.includes(targetRate) || rates.indexOf(targetRate) === rates.length - 1) {
+    throw new Error(`targetRate must be one of the plan's federal bracket rates below the top one: ${rates.slice(0, -1).join(", ")}`);
+  }
+  const accounts = data.today.investmentAccounts ?? [];
+  if (!accounts.some((a) => a.type === "roth-ira")) {
+    throw new Error("The plan has no Roth IRA account to convert into");
+  }
+  if (!accounts.some((a) => a.type === "401k" || a.type === "traditional-ira")) {
+    throw new Error("The plan has no tax-deferred (401k or traditional IRA) accounts to convert from");
+  }
+  if ((v.incomeTaxMode ?? "fixed") === "fixed") {
+    warnings.push(
+      "incomeTaxMode is fixed, so every dollar is taxed at the same effective rate and conversions cannot lower lifetime taxes; brackets are only used to size conversions. Set incomeTaxMode to brackets for a meaningful comparison"
+    );
+  }
+  if (!accounts.some((a) => (a.type === "401k" || a.type === "traditional-ira") && a.rmdType === "us")) {
+    warnings.push("No tax-deferred account has rmdType \"us\", so RMDs are not modeled and the benefit of smaller RMDs is not counted");
+  }
+
+  // Default window: retirement through the year the primary's RMDs start, when the money is taxed lowest
+  const first = baseline.years[0];
+  const birthYear = first.age === undefined ? undefined : first.year - first.age;
+  const retirementYear = baseline.milestones.find((m) => m.id === "retirement")?.year ?? null;
+  if (options.fromYear === undefined && retirementYear === null) {
+    warnings.push("No retirement year in the projection; conversions start at the beginning of the plan");
+  }
+  if (options.toYear === undefined && birthYear === undefined) {
+    warnings.push("No birth year for the primary person; conversions run to the end of the plan");
+  }
+  const fromYear = Math.max(options.fromYear ?? retirementYear ?? baseline.startYear, baseline.startYear);
+  const toYear = Math.min(
+    options.toYear ?? (birthYear === undefined ? baseline.endYear : birthYear + rmdStartAge(birthYear)),
+    baseline.endYear
+  );
+  if (fromYear > toYear) throw new Error(`fromYear ${fromYear} is after toYear ${toYear}`);
+  const avoidIrmaa = options.avoidIrmaa ?? v.irmaa === true;
+  const gainsByYear = new Map(baseline.years.map((y) => [y.year, y.capitalGains]));
+
+  // Converted money would otherwise be taxed in the RMD years after the window, or left with the final year's rate
+  const marginalRate = (y: ProjectionYear) =>
+    estimateTaxes(v, { year: y.year, ordinaryIncome: y.taxableIncome, capitalGains: y.capitalGains, inflationIndex: y.inflationIndex })
+      .marginalRate;
+  const laterYears = baseline.years.filter((y) => y.year > toYear && y.rmd > 0);
+  const laterRate = Math.max(marginalRate(baseline.years[baseline.years.length - 1]), ...laterYears.map(marginalRate));
+
+  // Without conversions, spending withdrawals from tax-deferred accounts land in the same year's income
+  const incomeByYear = new Map(baseline.years.map((y) => [y.year, y.taxableIncome]));
+
+  let skippedForRate = 0;
+  const optimized = runProjection(data, plan, {
+    rothConversion: (state) => {
+      if (state.year < fromYear || state.year > toYear || state.taxDeferred <= 0) return 0;
+      const ceiling = bracketCeiling(v, { year: state.year, rate: targetRate, inflationIndex: state.inflationIndex });
+      if (ceiling === null) return 0;
+      const base = Math.max(state.ordinaryIncome, incomeByYear.get(state.year) ?? 0);
+      const capitalGains = gainsByYear.get(state.year) ?? 0;
+      let room = ceiling - base;
+
+      // Income at 63 or later sets Medicare premiums two years on
+      const nearMedicare = [state.age, state.spouseAge].some((a) => a !== undefined && a + IRMAA_LOOKBACK >= MEDICARE_AGE);
+      if (avoidIrmaa && nearMedicare) {
+        const magi = base + capitalGains;
+        const { nextThreshold } = irmaaSurcharge(v, { year: state.year, magi, inflationIndex: state.inflationIndex });
+        if (nextThreshold !== null) room = Math.min(room, nextThreshold - magi);
+      }
+      if (options.maxAnnual !== undefined) room = Math.min(room, options.maxAnnual * state.inflationIndex);
+      room = Math.floor(Math.min(room, state.taxDeferred));
+      if (room <= 0) return 0;
+
+      // Stop filling where the last converted dollars would be taxed above the later rate
+      const tax = (ordinaryIncome: number) =>
+        estimateTaxes(v, { year: state.year, ordinaryIncome, capitalGains, inflationIndex: state.inflationIndex }).totalTax;
+      const fits = (amount: number) => ((tax(base + amount) - tax(base + amount - RATE_SLICE)) / RATE_SLICE) * 100 <= laterRate + 0.01;
+      if (fits(room)) return room;
+      let low = 0;
+      let high = room;
+      while (high - low > RATE_SLICE) {
+        const mid = (low + high) / 2;
+        if (fits(mid)) low = mid;
+        else high = mid;
+      }
+      if (low === 0) skippedForRate++;
+      return Math.floor(low);
+    },
+  });
+  warnings.push(...optimized.warnings);
+
+  const baselineByYear = new Map(baseline.years.map((y) => [y.year, y]));
+  const years: RothConversionYear[] = optimized.years
+    .filter((y) => y.rothConversion > 0 || y.rmd > 0 || (baselineByYear.get(y.year)?.rmd ?? 0) > 0)
+    .map((y) => {
+      const base = baselineByYear.get(y.year)!;
+      return {
+        year: y.year,
+        age: y.age,
+        conversion: y.rothConversion,
+        conversionTodayDollars: Math.round(y.rothConversion / y.inflationIndex),
+        rmd: y.rmd,
+        baselineRmd: base.rmd,
+        taxableIncome: y.taxableIncome,
+        bracketRate:
+          estimateTaxes({ ...v, incomeTaxMode: v.incomeTaxMode === "custom" ? "custom" : "brackets" }, {
+            year: y.year,
+            // Rounded income filled to the ceiling would otherwise land on the next bracket's first dollar
+            ordinaryIncome: Math.max(0, y.taxableIncome - 1),
+          }).bracket?.rate ?? 0,
+        taxes: y.taxes,
+        baselineTaxes: base.taxes,
+      };
+    });
+
+  const toAccountId = accounts.find((a) => a.type === "roth-ira")!.id;
+  const conversions = optimized.years
+    .filter((y) => y.rothConversion > 0)
+    .map((y) => ({ year: y.year, amount: y.rothConversion, toAccountId }));
+  if (conversions.length === 0) {
+    warnings.push(
+      skippedForRate > 0
+        ? `Converting would cost more than the ${laterRate}% later marginal rate in every year of the window; no conversions proposed`
+        : `Ordinary income already exceeds the ${targetRate}% bracket in every year of the window; no conversions proposed`
+    );
+  }
+
+  const before = outcome(plan, baseline, avoidIrmaa || v.irmaa === true);
+  const after = outcome(plan, optimized, avoidIrmaa || v.irmaa === true);
+  const lifetimeTaxSaved = before.lifetimeTaxes + before.lifetimeIrmaa - (after.lifetimeTaxes + after.lifetimeIrmaa);
+  const afterTaxNetWorthGain = after.endingNetWorth - after.deferredTaxLiability - (before.endingNetWorth - before.deferredTaxLiability);
+  const depletesSooner =
+    after.depletedYear !== null && (before.depletedYear === null || after.depletedYear < before.depletedYear);
+  const worthwhile = conversions.length > 0 && afterTaxNetWorthGain > 0 && !depletesSooner;
+  if (conversions.length > 0 && !worthwhile) {
+    warnings.push(
+      depletesSooner
+        ? `The conversions make the plan run out of money in ${after.depletedYear}; try a lower targetRate, maxAnnual or a later window`
+        : "The conversions do not raise after-tax net worth; try a lower targetRate, maxAnnual or a later window"
+    );
+  }
+  return {
+    planId: plan.id,
+    planName: plan.name,
+    targetRate,
+    fromYear,
+    toYear,
+    avoidIrmaa,
+    laterRate,
+    totalConverted: conversions.reduce((sum, c) => sum + c.amount, 0),
+    totalConvertedTodayDollars: years.reduce((sum, y) => sum + y.conversionTodayDollars, 0),
+    baseline: before,
+    withConversions: after,
+    lifetimeTaxSaved,
+    afterTaxNetWorthGain,
+    worthwhile,
+    years,
+    conversions,
+    warnings: [...new Set(warnings)],
+  };
+}
@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compareScenarios } from "./scenarios.js";
+import { ProjectionLabExport, Plan } from "./types.js";
+
+// A 55-year-old earning 100k until retirement and spending 30k, retiring in `retirementYear`
+function scenario(id: string, retirementYear: number): Plan {
+  return {
+    id,
+    name: `Retire ${retirementYear}`,
+    variables: { startYear: 2025, loopYear: 2055, investmentReturn: 0, dividendRate: 0, inflation: 0 },
+    milestones: [{ id: "retirement", name: "Retirement", criteria: [{ type: "year", value: `${retirementYear}-01-01` }] }],
+    income: {
+      events: [
+        {
+          id: "salary",
+          type: "salary",
+          name: "Salary",
+          amount: 100000,
+          frequency: "yearly",
+          start: { type: "keyword", value: "now" },
+          end: { type: "milestone", value: "retirement" },
+        },
+      ],
+    },
+    expenses: {
+      events: [
+        {
+          id: "living",
+          type: "living-expenses",
+          name: "Living",
+          amount: 30000,
+          frequency: "yearly",
+          start: { type: "keyword", value: "now" },
+          end: { type: "keyword", value: "endOfPlan" },
+        },
+      ],
+    },
+  };
+}
+
+const data = {
+  meta: { version: "4.0.0", lastUpdated: 0 },
+  today: { age: 55, savingsAccounts: [{ id: "cash", type: "savings", name: "Cash", balance: 1000000 }], investmentAccounts: [], debts: [], assets: [] },
+  plans: [],
+  settings: {},
+} as unknown as ProjectionLabExport;
+
+test("scenarios line up with differences from the first plan", () => {
+  const early = scenario("early", 2030);
+  const late = scenario("late", 2035);
+  const comparison = compareScenarios(data, [early, late], { ages: [60, 90] });
+  const [a, b] = comparison.scenarios;
+  assert.deepEqual([a.retirementYear, a.retirementAge, b.retirementYear, b.retirementAge], [2030, 60, 2035, 65]);
+  // 70k a year saved while working, 30k a year spent after
+  assert.equal(a.endingEstate, 1000000 + 5 * 70000 - 26 * 30000);
+  assert.equal(b.endingEstate, 1000000 + 10 * 70000 - 21 * 30000);
+  assert.deepEqual(comparison.versusFirst[0], {
+    planId: "late",
+    planName: "Retire 2035",
+    retirementYears: 5,
+    lifetimeTaxes: b.lifetimeTaxes - a.lifetimeTaxes,
+    depletedYears: b.depletedYears - a.depletedYears,
+    endingEstate: b.endingEstate - a.endingEstate,
+  });
+  assert.deepEqual(comparison.netWorthAtAge.map((row) => row.age), [60, 90]);
+  assert.equal(typeof comparison.netWorthAtAge[0].early, "number");
+  // Age 90 is past the end of the plan
+  assert.equal(comparison.netWorthAtAge[1].late, null);
+});
+
+test("at least two plans are needed", () => {
+  assert.throws(() => compareScenarios(data, [scenario("only", 2030)]), /at least two plans/);
+});
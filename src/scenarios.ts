@@ -0,0 +1,102 @@
+/**
+ * Side-by-side outcomes for two or more plans, e.g. scenarios made with
+ * duplicate_plan ("retire at 55" vs "retire at 60").
+ *
+ * Each plan is projected on its own assumptions and summarized into one flat
+ * row so the scenarios line up as a table.
+ */
+
+import { ProjectionLabExport, Plan } from "./types.js";
+import { runProjection, toTodayDollars } from "./projection.js";
+
+export interface ScenarioOptions {
+  // Ages (of the primary person) to report net worth at
+  ages?: number[];
+  todayDollars?: boolean;
+}
+
+export interface ScenarioOutcome {
+  planId: string;
+  planName: string;
+  retirementYear: number | null;
+  retirementAge: number | null;
+  fireYear: number | null;
+  fireAge: number | null;
+  lifetimeTaxes: number;
+  // First year liquid assets could not cover the year, and how many years fell short
+  depletedYear: number | null;
+  depletedYears: number;
+  endYear: number;
+  endAge: number | null;
+  // Net worth in the final year of the plan
+  endingEstate: number;
+}
+
+export interface ScenarioComparison {
+  todayDollars: boolean;
+  ages: number[];
+  scenarios: ScenarioOutcome[];
+  // One row per age, with each plan's net worth keyed by plan ID (null when the age is outside the plan)
+  netWorthAtAge: Array<Record<string, number | null>>;
+  // Differences from the first plan
+  versusFirst: Array<{
+    planId: string;
+    planName: string;
+    retirementYears: number | null;
+    lifetimeTaxes: number;
+    depletedYears: number;
+    endingEstate: number;
+  }>;
+  warnings: string[];
+}
+
+const DEFAULT_AGES = [50, 60, 70, 80, 90];
+
+export function compareScenarios(data: ProjectionLabExport, plans: Plan[], options: ScenarioOptions = {}): ScenarioComparison {
+  if (plans.length < 2) throw new Error("Compare at least two plans");
+  const ages = options.ages?.length ? options.ages : DEFAULT_AGES;
+  const todayDollars = options.todayDollars ?? false;
+  const warnings: string[] = [];
+
+  const netWorthAtAge: ScenarioComparison["netWorthAtAge"] = ages.map((age) => ({ age }));
+  const scenarios = plans.map((plan): ScenarioOutcome => {
+    const result = runProjection(data, plan);
+    for (const w of result.warnings) warnings.push(`${plan.name}: ${w}`);
+    const years = todayDollars ? result.years.map(toTodayDollars) : result.years;
+    const milestone = (id: string) => result.milestones.find((m) => m.id === id);
+    const retirement = milestone("retirement");
+    const fire = milestone("fire");
+    if (!retirement) warnings.push(`${plan.name} has no retirement milestone`);
+    const last = years[years.length - 1];
+    ages.forEach((age, i) => (netWorthAtAge[i][plan.id] = years.find((y) => y.age === age)?.netWorth ?? null));
+    return {
+      planId: plan.id,
+      planName: plan.name,
+      retirementYear: retirement?.year ?? null,
+      retirementAge: retirement?.age ?? null,
+      fireYear: fire?.year ?? null,
+      fireAge: fire?.age ?? null,
+      lifetimeTaxes: Math.round(years.reduce((sum, y) => sum + y.taxes, 0)),
+      depletedYear: result.depletedYear,
+      depletedYears: years.filter((y) => y.shortfall > 0).length,
+      endYear: result.endYear,
+      endAge: last?.age ?? null,
+      endingEstate: last?.netWorth ?? 0,
+    };
+  });
+
+  const first = scenarios[0];
+  const versusFirst = scenarios.slice(1).map((s) => ({
+    planId: s.planId,
+    planName: s.planName,
+    retirementYears: s.retirementYear !== null && first.retirementYear !== null ? s.retirementYear - first.retirementYear : null,
+    lifetimeTaxes: s.lifetimeTaxes - first.lifetimeTaxes,
+    depletedYears: s.depletedYears - first.depletedYears,
+    endingEstate: s.endingEstate - first.endingEstate,
+  }));
+  if (new Set(scenarios.map((s) => s.endYear)).size > 1) {
+    warnings.push("Plans end in different years, so lifetime taxes and ending estate cover different periods");
+  }
+
+  return { todayDollars, ages, scenarios, netWorthAtAge, versusFirst, warnings };
+}
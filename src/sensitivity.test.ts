@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeSensitivity } from "./sensitivity.js";
+import { ProjectionLabExport, Plan } from "./types.js";
+
+// A 55-year-old with 1M saved, earning 100k until retiring in 2030 and spending 30k, with no growth or inflation
+function fixture(): { data: ProjectionLabExport; plan: Plan } {
+  const always = { start: { type: "keyword", value: "now" }, end: { type: "keyword", value: "endOfPlan" } } as const;
+  const plan: Plan = {
+    id: "p1",
+    name: "Test",
+    variables: { startYear: 2025, loopYear: 2055, investmentReturn: 0, dividendRate: 0, inflation: 0 },
+    milestones: [
+      { id: "retirement", name: "Retirement", criteria: [{ type: "year", value: "2030-01-01" }] },
+      { id: "fire", name: "FIRE", criteria: [{ type: "netWorth", value: 1300000 }] },
+    ],
+    income: {
+      events: [
+        { id: "salary", type: "salary", name: "Salary", amount: 100000, frequency: "yearly", ...always, end: { type: "milestone", value: "retirement" } },
+      ],
+    },
+    expenses: { events: [{ id: "living", type: "living-expenses", name: "Living", amount: 30000, frequency: "yearly", ...always }] },
+  };
+  const data = {
+    meta: { version: "4.0.0", lastUpdated: 0 },
+    today: { age: 55, savingsAccounts: [{ id: "cash", type: "savings", name: "Cash", balance: 1000000 }], investmentAccounts: [], debts: [], assets: [] },
+    plans: [plan],
+    settings: {},
+  } as unknown as ProjectionLabExport;
+  return { data, plan };
+}
+
+// Ending net worth: five working years of 100k income, then 26 years of spending
+const ending = (salary: number, spending: number, retirementYear = 2030) =>
+  1000000 + (retirementYear - 2025) * salary - 31 * spending;
+
+test("a one-input sweep gives a cell per value and its change from the base", () => {
+  const { data, plan } = fixture();
+  const result = analyzeSensitivity(data, plan, [{ input: "expense", id: "living", values: [40000, 20000] }]);
+  assert.equal(result.baseMetric, ending(100000, 30000));
+  assert.deepEqual(
+    result.cells.map((c) => [c.x, c.metric, c.change]),
+    [
+      [20000, ending(100000, 20000), 310000],
+      [40000, ending(100000, 40000), -310000],
+    ]
+  );
+  assert.equal(result.tornado[0].swing, 620000);
+});
+
+test("varying the retirement year keeps the milestone's other criteria", () => {
+  const { data, plan } = fixture();
+  plan.milestones![0].criteria!.push({ type: "netWorth", value: 0, logic: "and" });
+  const result = analyzeSensitivity(data, plan, [{ input: "retirementYear", values: [2032] }]);
+  assert.equal(result.cells[0].metric, ending(100000, 30000, 2032));
+  // The plan passed in is left alone
+  assert.equal(plan.milestones![0].criteria!.length, 2);
+  assert.equal(plan.milestones![0].criteria![0].value, "2030-01-01");
+});
+
+test("the tornado ranks inputs by swing and puts unknown swings last", () => {
+  const { data, plan } = fixture();
+  const result = analyzeSensitivity(
+    data,
+    plan,
+    [
+      // At 60k of spending net worth never reaches the FIRE target
+      { input: "expense", id: "living", values: [30000, 60000] },
+      { input: "income", id: "salary", values: [100000, 120000] },
+    ],
+    { metric: "fireYear" }
+  );
+  assert.deepEqual(result.tornado.map((b) => [b.input, b.swing]), [
+    ["income:salary", 1],
+    ["expense:living", null],
+  ]);
+  assert.match(result.warnings[0], /FIRE is never reached/);
+});
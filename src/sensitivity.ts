@@ -0,0 +1,241 @@
+/**
+ * Sensitivity analysis: how much a plan outcome moves when one or two
+ * assumptions are varied across a grid.
+ *
+ * Each cell re-runs the projection (or a seeded Monte Carlo, so every cell
+ * sees the same random draws) on a copy of the plan with the inputs replaced.
+ * A one-at-a-time sweep of each input gives the tornado ranking.
+ */
+
+import { ProjectionLabExport, Plan } from "./types.js";
+import { runProjection, toTodayDollars } from "./projection.js";
+import { runMonteCarlo, MAX_TRIALS } from "./montecarlo.js";
+import { setMilestoneYear } from "./milestones.js";
+
+export const SENSITIVITY_INPUTS = ["investmentReturn", "inflation", "income", "expense", "retirementYear"] as const;
+export const SENSITIVITY_METRICS = ["endingNetWorth", "fireYear", "successRate"] as const;
+
+export type SensitivityInputKind = (typeof SENSITIVITY_INPUTS)[number];
+export type SensitivityMetric = (typeof SENSITIVITY_METRICS)[number];
+
+export interface SensitivityInput {
+  input: SensitivityInputKind;
+  // Income or expense event ID
+  id?: string;
+  // Values to try, in the input's own units (percent, event amount or calendar year)
+  values?: number[];
+}
+
+export interface SensitivityOptions {
+  metric?: SensitivityMetric;
+  todayDollars?: boolean;
+  // Monte Carlo trials per cell for successRate
+  trials?: number;
+}
+
+export interface TornadoBar {
+  input: string;
+  baseValue: number;
+  lowValue: number;
+  lowMetric: number | null;
+  highValue: number;
+  highMetric: number | null;
+  // Largest minus smallest metric across the input's values
+  swing: number | null;
+}
+
+export interface SensitivityResult {
+  planId: string;
+  metric: SensitivityMetric;
+  todayDollars: boolean;
+  trials?: number;
+  baseMetric: number | null;
+  inputs: Array<{ input: string; baseValue: number; values: number[] }>;
+  // Heat-map cells: x is the first input's value, y the second's (when given)
+  cells: Array<{ x: number; y?: number; metric: number | null; change: number | null }>;
+  // Inputs ranked by swing, largest first, then those with a null swing
+  tornado: TornadoBar[];
+  warnings: string[];
+}
+
+// Cap on Monte Carlo trials across all cells of one analysis
+const MAX_TOTAL_TRIALS = 20000;
+const DEFAULT_TRIALS = 200;
+
+function label(input: SensitivityInput): string {
+  return input.id ? `${input.input}:${input.id}` : input.input;
+}
+
+function clonePlan(plan: Plan): Plan {
+  return JSON.parse(JSON.stringify(plan)) as Plan;
+}
+
+function baseValueOf(data: ProjectionLabExport, plan: Plan, input: SensitivityInput): number {
+  const v = plan.variables ?? {};
+  switch (input.input) {
+    case "investmentReturn":
+      return v.investmentReturn ?? 7;
+    case "inflation":
+      return v.inflation ?? 3;
+    case "income": {
+      const e = plan.income?.events?.find((e) => e.id === input.id);
+      if (!e) throw new Error(`Income not found: ${input.id}`);
+      return e.amount ?? 0;
+    }
+    case "expense": {
+      const e = plan.expenses?.events?.find((e) => e.id === input.id);
+      if (!e) throw new Error(`Expense not found: ${input.id}`);
+      return e.amount ?? 0;
+    }
+    case "retirementYear": {
+      const year = runProjection(data, plan).milestones.find((m) => m.id === "retirement")?.year;
+      if (year === undefined) throw new Error("Plan has no retirement milestone");
+      if (year === null) throw new Error("The retirement milestone is never reached in the base projection; pass values explicitly");
+      return year;
+    }
+    default:
+      throw new Error(`Unknown sensitivity input: ${input.input}. Use one of: ${SENSITIVITY_INPUTS.join(", ")}`);
+  }
+}
+
+function defaultValues(input: SensitivityInput, base: number): number[] {
+  const steps = [-2, -1, 0, 1, 2];
+  switch (input.input) {
+    case "investmentReturn":
+      return steps.map((s) => base + s);
+    case "inflation":
+      return steps.map((s) => base + s * 0.5);
+    case "retirementYear":
+      return steps.map((s) => base + s * 2);
+    default:
+      return steps.map((s) => Math.round(base * (1 + s / 10)));
+  }
+}
+
+// Replace one input on a copy of the plan
+function applyInput(plan: Plan, input: SensitivityInput, value: number, base: number): void {
+  const v = (plan.variables ??= {});
+  switch (input.input) {
+    case "investmentReturn":
+      v.investmentReturn = value;
+      // Shift the Monte Carlo mean with it when it is set explicitly
+      if (plan.montecarlo?.investmentReturnMean !== undefined) plan.montecarlo.investmentReturnMean += value - base;
+      break;
+    case "inflation":
+      v.inflation = value;
+      if (plan.montecarlo?.inflationMean !== undefined) plan.montecarlo.inflationMean += value - base;
+      break;
+    case "income":
+      plan.income!.events!.find((e) => e.id === input.id)!.amount = value;
+      break;
+    case "expense":
+      plan.expenses!.events!.find((e) => e.id === input.id)!.amount = value;
+      break;
+    case "retirementYear":
+      setMilestoneYear(plan.milestones!.find((m) => m.id === "retirement")!, value);
+      break;
+  }
+}
+
+export function analyzeSensitivity(
+  data: ProjectionLabExport,
+  plan: Plan,
+  inputs: SensitivityInput[],
+  options: SensitivityOptions = {}
+): SensitivityResult {
+  if (inputs.length < 1 || inputs.length > 2) throw new Error("Vary one or two inputs");
+  const metric = options.metric ?? "endingNetWorth";
+  if (!SENSITIVITY_METRICS.includes(metric)) {
+    throw new Error(`Unknown metric: ${metric}. Use one of: ${SENSITIVITY_METRICS.join(", ")}`);
+  }
+  const todayDollars = options.todayDollars ?? false;
+  const warnings: string[] = [];
+
+  const axes = inputs.map((input) => {
+    const baseValue = baseValueOf(data, plan, input);
+    const values = input.values?.length ? [...input.values].sort((a, b) => a - b) : defaultValues(input, baseValue);
+    return { input, baseValue, values };
+  });
+
+  // Every cell plus the one-at-a-time sweeps and the base
+  const runs = axes.reduce((n, a) => n * a.values.length, 1) + axes.reduce((n, a) => n + a.values.length, 0) + 1;
+  let trials: number | undefined;
+  if (metric === "successRate") {
+    trials = Math.max(1, Math.min(MAX_TRIALS, Math.floor(options.trials ?? DEFAULT_TRIALS)));
+    if (trials * runs > MAX_TOTAL_TRIALS) {
+      trials = Math.max(1, Math.floor(MAX_TOTAL_TRIALS / runs));
+      warnings.push(`Trials reduced to ${trials} per cell to keep the analysis under ${MAX_TOTAL_TRIALS} simulations`);
+    }
+  }
+
+  const measure = (values: Array<number | undefined>): number | null => {
+    const copy = clonePlan(plan);
+    axes.forEach((a, i) => {
+      const value = values[i];
+      if (value !== undefined) applyInput(copy, a.input, value, a.baseValue);
+    });
+    if (metric === "successRate") {
+      return runMonteCarlo(data, copy, { trials, seed: 1 }).successRate;
+    }
+    const result = runProjection(data, copy);
+    if (metric === "fireYear") return result.milestones.find((m) => m.id === "fire")?.year ?? null;
+    const last = result.years[result.years.length - 1];
+    return Math.round((todayDollars ? toTodayDollars(last) : last).netWorth);
+  };
+  if (metric === "fireYear" && !plan.milestones?.some((m) => m.id === "fire")) {
+    throw new Error("Plan has no FIRE milestone");
+  }
+
+  const baseMetric = measure([]);
+  const change = (m: number | null) => (m === null || baseMetric === null ? null : Math.round((m - baseMetric) * 10) / 10);
+
+  const cells: SensitivityResult["cells"] = [];
+  for (const x of axes[0].values) {
+    for (const y of axes.length > 1 ? axes[1].values : [undefined]) {
+      const m = measure([x, y]);
+      cells.push({ x, ...(y !== undefined ? { y } : {}), metric: m, change: change(m) });
+    }
+  }
+
+  const tornado = axes
+    .map((a, i): TornadoBar => {
+      const sweep = a.values.map((value) => {
+        // The single-input grid already holds the sweep
+        if (axes.length === 1) return cells.find((c) => c.x === value)!.metric;
+        const values: Array<number | undefined> = [undefined, undefined];
+        values[i] = value;
+        return measure(values);
+      });
+      const known = sweep.filter((m): m is number => m !== null);
+      return {
+        input: label(a.input),
+        baseValue: a.baseValue,
+        lowValue: a.values[0],
+        lowMetric: sweep[0],
+        highValue: a.values[a.values.length - 1],
+        highMetric: sweep[sweep.length - 1],
+        swing: known.length === sweep.length ? Math.round((Math.max(...known) - Math.min(...known)) * 10) / 10 : null,
+      };
+    })
+    // Inputs with an unknown swing (a null metric somewhere in the sweep) go last
+    .sort((a, b) => (a.swing === null ? (b.swing === null ? 0 : 1) : b.swing === null ? -1 : b.swing - a.swing));
+
+  if (metric === "fireYear" && cells.some((c) => c.metric === null)) {
+    warnings.push("FIRE is never reached in some cells (metric null)");
+  }
+  if (metric === "endingNetWorth" && !todayDollars && axes.some((a) => a.input.input === "inflation")) {
+    warnings.push("Ending net worth is in future dollars, so higher inflation inflates it; use todayDollars to compare purchasing power");
+  }
+
+  return {
+    planId: plan.id,
+    metric,
+    todayDollars,
+    ...(trials !== undefined ? { trials } : {}),
+    baseMetric,
+    inputs: axes.map((a) => ({ input: label(a.input), baseValue: a.baseValue, values: a.values })),
+    cells,
+    tornado,
+    warnings,
+  };
+}
@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fullRetirementAgeMonths, retirementFactor, spousalFactor, estimateSocialSecurity } from "./social-security.js";
+import { runProjection } from "./projection.js";
+import { ProjectionLabExport, Plan } from "./types.js";
+
+test("full retirement age steps up by two months a birth year", () => {
+  assert.equal(fullRetirementAgeMonths(1937), 65 * 12);
+  assert.equal(fullRetirementAgeMonths(1943), 66 * 12);
+  assert.equal(fullRetirementAgeMonths(1957), 66 * 12 + 6);
+  assert.equal(fullRetirementAgeMonths(1960), 67 * 12);
+});
+
+test("claiming five years early or three years late adjusts the benefit", () => {
+  assert.ok(Math.abs(retirementFactor(-60) - 0.7) < 1e-9);
+  assert.ok(Math.abs(retirementFactor(36) - 1.24) < 1e-9);
+  // Delayed credits stop at 70
+  assert.equal(retirementFactor(60), retirementFactor(48));
+  assert.ok(Math.abs(spousalFactor(-60) - 0.65) < 1e-9);
+  assert.equal(spousalFactor(24), 1);
+});
+
+test("a 35-year earnings history gives the PIA from the bend-point formula", () => {
+  const plan: Plan = { id: "p1", name: "Test", variables: { startYear: 2026, loopYear: 2050, inflation: 0 } };
+  const data = {
+    meta: { version: "4.0.0", lastUpdated: 0 },
+    today: { age: 66, birthYear: 1960, savingsAccounts: [], investmentAccounts: [], debts: [], assets: [] },
+    plans: [plan],
+    settings: {},
+  } as ProjectionLabExport;
+  const earnings = Array.from({ length: 35 }, (_, i) => ({ year: 1985 + i, amount: 100000 }));
+
+  const [me] = estimateSocialSecurity(data, plan, runProjection(data, plan), { earnings }).people;
+  assert.equal(me.earningsSource, "history");
+  // AIME 100000 * 35 / 420; PIA 90% to 1286, 32% to 7749, 15% above
+  assert.equal(Math.round(me.aime), 8333);
+  const pia = 0.9 * 1286 + 0.32 * (7749 - 1286) + 0.15 * (100000 / 12 - 7749);
+  assert.equal(me.claimingOptions.find((o) => o.age === 67)!.monthlyBenefit, Math.round(pia));
+  assert.equal(me.claimingOptions.find((o) => o.age === 62)!.monthlyBenefit, Math.round(pia * 0.7));
+});
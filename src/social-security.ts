@@ -0,0 +1,210 @@
+/**
+ * Social Security retirement benefit estimates.
+ *
+ * Works in the plan's start-year dollars: earnings are brought to that price
+ * level with the plan's inflation (standing in for SSA wage indexing), capped at
+ * the taxable maximum, and the highest 35 years give the AIME. The PIA formula,
+ * early-claiming reductions, delayed retirement credits and spousal benefits
+ * follow current SSA rules. Benefits are assumed to keep pace with inflation (COLA).
+ */
+
+import { ProjectionLabExport, Plan, IncomeEvent } from "./types.js";
+import { ProjectionResult } from "./projection.js";
+import { createDateContext } from "./dates.js";
+
+export interface EarningsRecord {
+  year: number;
+  // Nominal earnings in that year
+  amount: number;
+}
+
+export interface ClaimingOption {
+  age: number;
+  year: number;
+  // Monthly, in today's dollars
+  ownBenefit: number;
+  spousalBenefit: number;
+  monthlyBenefit: number;
+  // Total benefits from claiming through the end of the plan, in today's dollars
+  lifetimeBenefit: number;
+}
+
+export interface PersonEstimate {
+  person: "me" | "spouse";
+  birthYear: number;
+  fullRetirementAge: { years: number; months: number };
+  earningsYears: number;
+  earningsSource: "history" | "inferred" | "history+projected";
+  aime: number;
+  pia: number;
+  claimingOptions: ClaimingOption[];
+  bestClaimingAge: number;
+}
+
+export interface SocialSecurityEstimate {
+  planId: string;
+  tableYear: number;
+  dollarsOf: number;
+  people: PersonEstimate[];
+  warnings: string[];
+}
+
+export interface SocialSecurityOptions {
+  earnings?: EarningsRecord[];
+  spouseEarnings?: EarningsRecord[];
+  // Age inferred careers start at when no earnings history is given (default: 22)
+  careerStartAge?: number;
+}
+
+// SSA figures for TABLE_YEAR; bend points and the taxable maximum are monthly and annual dollars
+export const TABLE_YEAR = 2026;
+const BEND_POINTS = [1286, 7749];
+const PIA_FACTORS = [0.9, 0.32, 0.15];
+const TAXABLE_MAXIMUM = 184500;
+const COMPUTATION_YEARS = 35;
+export const EARLIEST_CLAIMING_AGE = 62;
+export const LATEST_CLAIMING_AGE = 70;
+const DEFAULT_CAREER_START_AGE = 22;
+
+// Full retirement age by birth year, in months
+export function fullRetirementAgeMonths(birthYear: number): number {
+  if (birthYear <= 1937) return 65 * 12;
+  if (birthYear <= 1942) return 65 * 12 + (birthYear - 1937) * 2;
+  if (birthYear <= 1954) return 66 * 12;
+  if (birthYear <= 1959) return 66 * 12 + (birthYear - 1954) * 2;
+  return 67 * 12;
+}
+
+// Share of the PIA paid when the worker claims `monthsFromFra` months after (or before) full retirement age
+export function retirementFactor(monthsFromFra: number): number {
+  if (monthsFromFra >= 0) return 1 + (Math.min(monthsFromFra, 48) * 2) / 3 / 100;
+  const early = -monthsFromFra;
+  return 1 - (Math.min(early, 36) * 5) / 9 / 100 - (Math.max(0, early - 36) * 5) / 12 / 100;
+}
+
+// Share of the spousal benefit paid when claimed early; there are no delayed credits on spousal benefits
+export function spousalFactor(monthsFromFra: number): number {
+  if (monthsFromFra >= 0) return 1;
+  const early = -monthsFromFra;
+  return 1 - (Math.min(early, 36) * 25) / 36 / 100 - (Math.max(0, early - 36) * 5) / 12 / 100;
+}
+
+function primaryInsuranceAmount(aime: number, scale: number): number {
+  const [first, second] = BEND_POINTS.map((b) => b * scale);
+  return (
+    PIA_FACTORS[0] * Math.min(aime, first) +
+    PIA_FACTORS[1] * Math.max(0, Math.min(aime, second) - first) +
+    PIA_FACTORS[2] * Math.max(0, aime - second)
+  );
+}
+
+// Income streams covered by Social Security
+function isCoveredEarnings(e: IncomeEvent): boolean {
+  return e.type === "salary" || e.type === "rsu" || e.wage === true;
+}
+
+export function estimateSocialSecurity(
+  data: ProjectionLabExport,
+  plan: Plan,
+  projection: ProjectionResult,
+  options: SocialSecurityOptions = {}
+): SocialSecurityEstimate {
+  const v = plan.variables ?? {};
+  const warnings: string[] = [];
+  const ctx = createDateContext(data, plan);
+  const inflation = (v.inflation ?? 3) / 100;
+  const startYear = projection.startYear;
+  const priceLevel = (year: number) => Math.pow(1 + inflation, year - startYear);
+  const careerStartAge = options.careerStartAge ?? DEFAULT_CAREER_START_AGE;
+
+  const people: Array<{ person: "me" | "spouse"; birthYear: number; history?: EarningsRecord[] }> = [];
+  if (ctx.birthYear === undefined) throw new Error("today.birthYear (or age) is required to estimate Social Security");
+  people.push({ person: "me", birthYear: ctx.birthYear, history: options.earnings });
+  if (data.today.partnerStatus === "couple") {
+    if (ctx.spouseBirthYear === undefined) {
+      warnings.push("No spouseBirthYear (or spouseAge); the spouse's benefits are not estimated");
+    } else {
+      people.push({ person: "spouse", birthYear: ctx.spouseBirthYear, history: options.spouseEarnings });
+    }
+  } else if (options.spouseEarnings) {
+    warnings.push('spouseEarnings ignored because partnerStatus is not "couple"');
+  }
+
+  const estimates = people.map(({ person, birthYear, history }) => {
+    const covered = (plan.income?.events ?? []).filter(
+      (e) => isCoveredEarnings(e) && (person === "spouse" ? e.owner === "spouse" : e.owner !== "spouse")
+    );
+    // Earnings in start-year dollars, by year
+    const earnings = new Map<number, number>();
+    for (const y of projection.years) {
+      const amount = covered.reduce((sum, e) => sum + (y.incomes?.[e.id] ?? 0), 0);
+      if (amount > 0) earnings.set(y.year, amount / y.inflationIndex);
+    }
+    let source: PersonEstimate["earningsSource"] = "inferred";
+    if (history && history.length > 0) {
+      source = earnings.size > 0 ? "history+projected" : "history";
+      for (const r of history) {
+        if (r.year < startYear) earnings.set(r.year, r.amount / priceLevel(r.year));
+      }
+    } else {
+      // Assume the first projected salary, in real terms, back to the start of the career
+      const first = earnings.get(startYear);
+      if (first !== undefined) {
+        for (let year = birthYear + careerStartAge; year < startYear; year++) earnings.set(year, first);
+        if (birthYear + careerStartAge < startYear) {
+          warnings.push(
+            `No earnings history for ${person}; assumed earnings of ${Math.round(first)}/year (today's dollars) from age ${careerStartAge}. Pass earnings for a better estimate`
+          );
+        }
+      } else {
+        warnings.push(`No earnings history or salary income in the plan start year for ${person}`);
+      }
+    }
+
+    // Earnings from age 70 on cannot change the comparison
+    const taxableMaximum = TAXABLE_MAXIMUM / priceLevel(TABLE_YEAR);
+    const counted = [...earnings]
+      .filter(([year]) => year < birthYear + LATEST_CLAIMING_AGE)
+      .map(([, amount]) => Math.min(amount, taxableMaximum))
+      .sort((a, b) => b - a)
+      .slice(0, COMPUTATION_YEARS);
+    const aime = counted.reduce((sum, a) => sum + a, 0) / (COMPUTATION_YEARS * 12);
+    const pia = primaryInsuranceAmount(aime, 1 / priceLevel(TABLE_YEAR));
+    return { person, birthYear, fra: fullRetirementAgeMonths(birthYear), earningsYears: counted.length, source, aime, pia };
+  });
+
+  const result: PersonEstimate[] = estimates.map((p) => {
+    const partner = estimates.find((o) => o.person !== p.person);
+    const endAge = projection.endYear - p.birthYear;
+    const claimingOptions: ClaimingOption[] = [];
+    for (let age = EARLIEST_CLAIMING_AGE; age <= LATEST_CLAIMING_AGE; age++) {
+      const monthsFromFra = age * 12 - p.fra;
+      const own = p.pia * retirementFactor(monthsFromFra);
+      // Spousal top-up, assuming the partner has already claimed
+      const spousal = partner ? Math.max(0, partner.pia / 2 - p.pia) * spousalFactor(monthsFromFra) : 0;
+      const monthly = own + spousal;
+      claimingOptions.push({
+        age,
+        year: p.birthYear + age,
+        ownBenefit: Math.round(own),
+        spousalBenefit: Math.round(spousal),
+        monthlyBenefit: Math.round(monthly),
+        lifetimeBenefit: Math.round(monthly * 12 * Math.max(0, endAge - age + 1)),
+      });
+    }
+    const best = claimingOptions.reduce((a, b) => (b.lifetimeBenefit > a.lifetimeBenefit ? b : a));
+    return {
+      person: p.person,
+      birthYear: p.birthYear,
+      fullRetirementAge: { years: Math.floor(p.fra / 12), months: p.fra % 12 },
+      earningsYears: p.earningsYears,
+      earningsSource: p.source,
+      aime: Math.round(p.aime),
+      pia: Math.round(p.pia),
+      claimingOptions,
+      bestClaimingAge: best.age,
+    };
+  });
+
+  return { planId: plan.id, tableYear: TABLE_YEAR, dollarsOf: startYear, people: result, warnings: [...new Set(warnings)] };
+}
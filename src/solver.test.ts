@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { solveFor } from "./solver.js";
+import { ProjectionLabExport, Plan } from "./types.js";
+
+// A 55-year-old with 1M saved, earning 100k until retirement and spending `spending`, with no growth, inflation or tax
+function fixture(spending: number): { data: ProjectionLabExport; plan: Plan } {
+  const always = { start: { type: "keyword", value: "now" }, end: { type: "keyword", value: "endOfPlan" } } as const;
+  const plan: Plan = {
+    id: "p1",
+    name: "Test",
+    variables: { startYear: 2025, loopYear: 2055, investmentReturn: 0, dividendRate: 0, inflation: 0 },
+    milestones: [
+      { id: "retirement", name: "Retirement", criteria: [{ type: "year", value: "2030-01-01" }] },
+      { id: "fire", name: "FIRE", criteria: [{ type: "netWorth", value: 1300000 }] },
+    ],
+    income: {
+      events: [
+        { id: "salary", type: "salary", name: "Salary", amount: 100000, frequency: "yearly", ...always, end: { type: "milestone", value: "retirement" } },
+      ],
+    },
+    expenses: { events: [{ id: "living", type: "living-expenses", name: "Living", amount: spending, frequency: "yearly", ...always }] },
+  };
+  const data = {
+    meta: { version: "4.0.0", lastUpdated: 0 },
+    today: { age: 55, savingsAccounts: [{ id: "cash", type: "savings", name: "Cash", balance: 1000000 }], investmentAccounts: [], debts: [], assets: [] },
+    plans: [plan],
+    settings: {},
+  } as unknown as ProjectionLabExport;
+  return { data, plan };
+}
+
+test("the highest spending that never runs out spreads 1.5M over 31 years", () => {
+  const { data, plan } = fixture(30000);
+  const result = solveFor(data, plan, { variable: "expenseAmount", id: "living" }, { target: "noDepletion" });
+  assert.equal(result.solving, "maximum");
+  assert.ok(result.currentMet);
+  // Bisection stops within one step of the boundary, then rounds down to stay under it
+  assert.ok(result.solution! <= 1500000 / 31 && result.solution! > 1500000 / 31 - 2);
+  assert.ok(result.solutionMetric! >= 0);
+  // The plan passed in is left alone
+  assert.equal(plan.expenses!.events![0].amount, 30000);
+});
+
+test("the earliest retirement year that never runs out", () => {
+  // 31 years of 60k need 1.86M: nine years of salary on top of the 1M
+  const { data, plan } = fixture(60000);
+  const result = solveFor(data, plan, { variable: "retirementYear" }, { target: "noDepletion" });
+  assert.equal(result.solving, "minimum");
+  assert.equal(result.currentMet, false);
+  assert.equal(result.solution, 2034);
+});
+
+test("fireBy finds the spending that still reaches the target in time", () => {
+  // Milestones see the net worth at the start of the year, so 1.3M by 2029 needs 4 * (100k - spending) >= 300k
+  const { data, plan } = fixture(30000);
+  const result = solveFor(data, plan, { variable: "expenseAmount", id: "living" }, { target: "fireBy", year: 2029 });
+  assert.equal(result.currentMetric, 2030);
+  assert.ok(result.solution! <= 25000 && result.solution! > 24998);
+  assert.equal(result.solutionMetric, 2029);
+});
+
+test("an unreachable target reports no solution", () => {
+  const { data, plan } = fixture(30000);
+  const result = solveFor(data, plan, { variable: "expenseAmount", id: "living" }, { target: "fireBy", year: 2025 });
+  assert.equal(result.solution, null);
+  assert.match(result.warnings[0], /Even 0 does not meet the target/);
+  assert.throws(() => solveFor(data, plan, { variable: "withdrawalRate" }, { target: "fireBy", year: 2030 }), /does not affect when FIRE/);
+});
@@ -0,0 +1,295 @@
+/**
+ * Goal-seek solver: finds the value of one plan input that just meets a target.
+ *
+ * Assumes the target gets easier to meet in one direction of the variable
+ * (more saving, less spending, retiring later, a lower withdrawal rate) and
+ * bisects between the bounds for the boundary value. Monte Carlo targets use
+ * a fixed seed so every candidate sees the same random draws.
+ */
+
+import { ProjectionLabExport, Plan } from "./types.js";
+import { runProjection, annualMultiplier } from "./projection.js";
+import { runMonteCarlo, MAX_TRIALS } from "./montecarlo.js";
+import { simulateWithdrawals, StrategyName } from "./withdrawals.js";
+import { setMilestoneYear } from "./milestones.js";
+
+export const SOLVE_VARIABLES = ["priorityContribution", "expenseAmount", "retirementYear", "withdrawalRate"] as const;
+export const SOLVE_TARGETS = ["noDepletion", "fireBy", "successRate"] as const;
+
+export type SolveVariableKind = (typeof SOLVE_VARIABLES)[number];
+export type SolveTargetKind = (typeof SOLVE_TARGETS)[number];
+
+export interface SolveVariable {
+  variable: SolveVariableKind;
+  // Priority or expense ID
+  id?: string;
+}
+
+export interface SolveTarget {
+  target: SolveTargetKind;
+  // fireBy: calendar year FIRE must be reached by
+  year?: number;
+  // successRate: minimum success rate in percent
+  rate?: number;
+}
+
+export interface SolveOptions {
+  min?: number;
+  max?: number;
+  // Monte Carlo trials per evaluation for successRate
+  trials?: number;
+}
+
+export interface SolveResult {
+  planId: string;
+  variable: string;
+  target: string;
+  // Which end of the range the solution is: the least saving, the most spending, the earliest year or the highest rate that still meets the target
+  solving: "minimum" | "maximum";
+  currentValue: number;
+  currentMet: boolean;
+  currentMetric: number | null;
+  solution: number | null;
+  solutionMetric: number | null;
+  searched: { min: number; max: number };
+  evaluations: number;
+  warnings: string[];
+}
+
+// Withdrawal strategies whose "amount" is a withdrawal rate
+const RATE_STRATEGIES: StrategyName[] = ["initial-%", "fixed-%", "kitces-ratchet", "clyatt-95%", "guyton-klinger"];
+const DEFAULT_TRIALS = 500;
+const MAX_ITERATIONS = 40;
+// Cap on Monte Carlo trials across all evaluations of one search, not counting the final confirmation
+const MAX_TOTAL_TRIALS = 20000;
+
+interface VariableSpec {
+  current: number;
+  min: number;
+  max: number;
+  // Stop bisecting when the bracket is this narrow
+  step: number;
+  // true: larger values make the target easier to meet
+  higherIsEasier: boolean;
+  integer: boolean;
+}
+
+function describeTarget(t: SolveTarget, v: SolveVariable): string {
+  switch (t.target) {
+    case "noDepletion":
+      return "net worth never drops below 0 and liquid assets cover every year";
+    case "fireBy":
+      return `FIRE by ${t.year}`;
+    case "successRate":
+      return `${t.rate}% ${v.variable === "withdrawalRate" ? "historical" : "Monte Carlo"} success`;
+  }
+}
+
+function withdrawalStrategyOf(plan: Plan): StrategyName {
+  const strategy = plan.withdrawalStrategy?.strategy ?? "initial-%";
+  if (!RATE_STRATEGIES.includes(strategy)) {
+    throw new Error(`The ${strategy} withdrawal strategy has no withdrawal rate; use one of: ${RATE_STRATEGIES.join(", ")}`);
+  }
+  return strategy;
+}
+
+function variableSpec(data: ProjectionLabExport, plan: Plan, v: SolveVariable): VariableSpec {
+  switch (v.variable) {
+    case "priorityContribution": {
+      const p = plan.priorities?.events?.find((p) => p.id === v.id);
+      if (!p) throw new Error(`Priority not found: ${v.id}`);
+      if (p.desiredContribution === "max") throw new Error(`Priority ${v.id} contributes the maximum; its contribution is not used`);
+      const percent = p.contributionType === "%" || p.desiredContribution === "%-remaining";
+      const current = p.contribution ?? 0;
+      return {
+        current,
+        min: 0,
+        max: percent ? 100 : Math.max(current * 4, 100000 / annualMultiplier(p.frequency)),
+        step: percent ? 0.01 : 1,
+        higherIsEasier: true,
+        integer: false,
+      };
+    }
+    case "expenseAmount": {
+      const e = plan.expenses?.events?.find((e) => e.id === v.id);
+      if (!e) throw new Error(`Expense not found: ${v.id}`);
+      const current = e.amount ?? 0;
+      return { current, min: 0, max: Math.max(current * 4, 100000 / annualMultiplier(e.frequency)), step: 1, higherIsEasier: false, integer: false };
+    }
+    case "retirementYear": {
+      if (!plan.milestones?.some((m) => m.id === "retirement")) throw new Error("Plan has no retirement milestone");
+      const projection = runProjection(data, plan);
+      const current = projection.milestones.find((m) => m.id === "retirement")?.year ?? projection.endYear;
+      return { current, min: projection.startYear, max: projection.endYear, step: 1, higherIsEasier: true, integer: true };
+    }
+    case "withdrawalRate": {
+      const strategy = withdrawalStrategyOf(plan);
+      const block = (plan.withdrawalStrategy?.[strategy] ?? {}) as { amount?: number };
+      return { current: block.amount ?? 4, min: 0.5, max: 15, step: 0.01, higherIsEasier: false, integer: false };
+    }
+    default:
+      throw new Error(`Unknown variable: ${v.variable}. Use one of: ${SOLVE_VARIABLES.join(", ")}`);
+  }
+}
+
+// Write a value into the plan through the same fields the update tools edit
+export function applySolveValue(plan: Plan, v: SolveVariable, value: number): void {
+  switch (v.variable) {
+    case "priorityContribution":
+      plan.priorities!.events!.find((p) => p.id === v.id)!.contribution = value;
+      break;
+    case "expenseAmount":
+      plan.expenses!.events!.find((e) => e.id === v.id)!.amount = value;
+      break;
+    case "retirementYear":
+      setMilestoneYear(plan.milestones!.find((m) => m.id === "retirement")!, value);
+      break;
+    case "withdrawalRate": {
+      const strategy = withdrawalStrategyOf(plan);
+      const ws = (plan.withdrawalStrategy ??= {});
+      const block = (ws[strategy] ?? {}) as Record<string, unknown>;
+      (ws as Record<string, unknown>)[strategy] = { ...block, amount: value };
+      if (!ws.strategy) ws.strategy = strategy;
+      break;
+    }
+  }
+}
+
+export function solveFor(
+  data: ProjectionLabExport,
+  plan: Plan,
+  variable: SolveVariable,
+  target: SolveTarget,
+  options: SolveOptions = {}
+): SolveResult {
+  if (!SOLVE_TARGETS.includes(target.target)) {
+    throw new Error(`Unknown target: ${target.target}. Use one of: ${SOLVE_TARGETS.join(", ")}`);
+  }
+  if (target.target === "fireBy") {
+    if (target.year === undefined) throw new Error("fireBy needs a year");
+    if (!plan.milestones?.some((m) => m.id === "fire")) throw new Error("Plan has no FIRE milestone");
+    if (variable.variable === "withdrawalRate") throw new Error("The withdrawal rate does not affect when FIRE is reached");
+  }
+  if (target.target === "successRate" && (target.rate === undefined || target.rate <= 0 || target.rate > 100)) {
+    throw new Error("successRate needs a rate between 0 and 100");
+  }
+  const warnings: string[] = [];
+  const spec = variableSpec(data, plan, variable);
+  const min = options.min ?? spec.min;
+  const max = options.max ?? spec.max;
+  if (min >= max) throw new Error("min must be below max");
+  const trials = Math.max(1, Math.min(MAX_TRIALS, Math.floor(options.trials ?? DEFAULT_TRIALS)));
+  const monteCarlo = target.target === "successRate" && variable.variable !== "withdrawalRate";
+  // The current value, both bounds and every bisection step
+  const steps = 3 + Math.min(MAX_ITERATIONS, Math.ceil(Math.log2(Math.max(1, (max - min) / spec.step))));
+  const searchTrials = monteCarlo && trials * steps > MAX_TOTAL_TRIALS ? Math.max(1, Math.floor(MAX_TOTAL_TRIALS / steps)) : trials;
+
+  let evaluations = 0;
+  const evaluate = (value: number, n = searchTrials): { met: boolean; metric: number | null } => {
+    evaluations++;
+    const copy = JSON.parse(JSON.stringify(plan)) as Plan;
+    applySolveValue(copy, variable, value);
+    if (variable.variable === "withdrawalRate") {
+      const projection = runProjection(data, copy);
+      const historical = target.target === "successRate";
+      const result = simulateWithdrawals(data, copy, projection, {
+        returns: historical ? "historical" : "fixed",
+        includeYears: false,
+      }).results[0];
+      if (historical) {
+        const rate = result.historical!.successRate;
+        return { met: rate >= target.rate!, metric: rate };
+      }
+      return { met: result.depletedYear === null, metric: result.endingPortfolio };
+    }
+    switch (target.target) {
+      case "noDepletion": {
+        const result = runProjection(data, copy);
+        const lowest = Math.min(...result.years.map((y) => y.netWorth));
+        return { met: result.depletedYear === null && lowest >= 0, metric: lowest };
+      }
+      case "fireBy": {
+        const year = runProjection(data, copy).milestones.find((m) => m.id === "fire")?.year ?? null;
+        return { met: year !== null && year <= target.year!, metric: year };
+      }
+      case "successRate": {
+        const rate = runMonteCarlo(data, copy, { trials: n, seed: 1 }).successRate;
+        return { met: rate >= target.rate!, metric: rate };
+      }
+    }
+  };
+
+  const current = evaluate(spec.current);
+  // Bisect between a value that fails and one that meets the target
+  const easy = spec.higherIsEasier ? max : min;
+  const hard = spec.higherIsEasier ? min : max;
+  let solution: number | null = null;
+  let solutionMetric: number | null = null;
+  const easyResult = evaluate(easy);
+  if (!easyResult.met) {
+    warnings.push(`Even ${easy} does not meet the target (${describeTarget(target, variable)}); widen min/max or change other inputs`);
+  } else {
+    const hardResult = evaluate(hard);
+    if (hardResult.met) {
+      solution = hard;
+      solutionMetric = hardResult.metric;
+    } else {
+      let pass = easy;
+      let passMetric = easyResult.metric;
+      let fail = hard;
+      for (let i = 0; i < MAX_ITERATIONS && Math.abs(pass - fail) > spec.step; i++) {
+        let mid = (pass + fail) / 2;
+        if (spec.integer) mid = spec.higherIsEasier ? Math.floor(mid) : Math.ceil(mid);
+        if (mid === pass || mid === fail) break;
+        const r = evaluate(mid);
+        if (r.met) {
+          pass = mid;
+          passMetric = r.metric;
+        } else {
+          fail = mid;
+        }
+      }
+      // Round toward the side that still meets the target
+      const unit = spec.step >= 1 ? 1 : 100;
+      solution = spec.higherIsEasier ? Math.ceil(pass * unit) / unit : Math.floor(pass * unit) / unit;
+      solutionMetric = passMetric;
+    }
+  }
+  if (variable.variable === "withdrawalRate") {
+    warnings.push(
+      target.target === "successRate"
+        ? "Success rate for withdrawal rates is across every historical start year of the portfolio-only withdrawal simulation"
+        : "The withdrawal rate is checked with the portfolio-only withdrawal simulation at the plan's fixed returns"
+    );
+  }
+  if (monteCarlo && searchTrials < trials && solution !== null) {
+    // Re-check the answer with the full trial count the search could not afford
+    const confirmed = evaluate(solution, trials);
+    solutionMetric = confirmed.metric;
+    if (!confirmed.met) {
+      warnings.push(`The solution met the target with ${searchTrials} trials but reaches ${confirmed.metric}% with ${trials}; treat it as approximate`);
+    }
+  }
+  if (monteCarlo) {
+    warnings.push(
+      searchTrials < trials
+        ? `Monte Carlo success rates use ${searchTrials} trials per search step to stay under ${MAX_TOTAL_TRIALS} simulations, and ${trials} to confirm the solution, with seed 1`
+        : `Monte Carlo success rates use ${trials} trials per evaluation with seed 1`
+    );
+  }
+
+  return {
+    planId: plan.id,
+    variable: variable.id ? `${variable.variable}:${variable.id}` : variable.variable,
+    target: describeTarget(target, variable),
+    solving: spec.higherIsEasier ? "minimum" : "maximum",
+    currentValue: spec.current,
+    currentMet: current.met,
+    currentMetric: current.metric,
+    solution,
+    solutionMetric,
+    searched: { min, max },
+    evaluations,
+    warnings,
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Bundled US federal tax tables, so tax estimates work offline.
+ *
+ * Thresholds are nominal dollars for the table's year; later years are indexed
+ * with the plan's inflation. Bump TAX_TABLE_VERSION whenever figures change so
+ * estimates can be traced back to the table that produced them.
+ */
+
+export type FilingStatus = "single" | "joint" | "married-separate" | "head-of-household";
+
+// Rates in percent; each bracket applies from `from` up to the next bracket's `from`
+export interface Bracket {
+  from: number;
+  rate: number;
+}
+
+export interface TaxYearTable {
+  year: number;
+  ordinary: Record<FilingStatus, Bracket[]>;
+  standardDeduction: Record<FilingStatus, number>;
+  // Long-term capital gains and qualified dividends, stacked on top of ordinary income
+  capitalGains: Record<FilingStatus, Bracket[]>;
+}
+
+export const TAX_TABLE_VERSION = "2026.3";
+
+const brackets = (rates: number[], thresholds: number[]): Bracket[] =>
+  rates.map((rate, i) => ({ from: i === 0 ? 0 : thresholds[i - 1], rate }));
+
+const TCJA_RATES = [10, 12, 22, 24, 32, 35, 37];
+
+export const FEDERAL_TABLES: TaxYearTable[] = [
+  {
+    year: 2025,
+    ordinary: {
+      single: brackets(TCJA_RATES, [11925, 48475, 103350, 197300, 250525, 626350]),
+      joint: brackets(TCJA_RATES, [23850, 96950, 206700, 394600, 501050, 751600]),
+      "married-separate": brackets(TCJA_RATES, [11925, 48475, 103350, 197300, 250525, 375800]),
+      "head-of-household": brackets(TCJA_RATES, [17000, 64850, 103350, 197300, 250500, 626350]),
+    },
+    standardDeduction: { single: 15750, joint: 31500, "married-separate": 15750, "head-of-household": 23625 },
+    capitalGains: {
+      single: brackets([0, 15, 20], [48350, 533400]),
+      joint: brackets([0, 15, 20], [96700, 600050]),
+      "married-separate": brackets([0, 15, 20], [48350, 300000]),
+      "head-of-household": brackets([0, 15, 20], [64750, 566700]),
+    },
+  },
+  {
+    year: 2026,
+    ordinary: {
+      single: brackets(TCJA_RATES, [12400, 50400, 105700, 201775, 256225, 640600]),
+      joint: brackets(TCJA_RATES, [24800, 100800, 211400, 403550, 512450, 768700]),
+      "married-separate": brackets(TCJA_RATES, [12400, 50400, 105700, 201775, 256225, 384350]),
+      "head-of-household": brackets(TCJA_RATES, [17700, 67450, 105700, 201750, 256200, 640600]),
+    },
+    standardDeduction: { single: 16100, joint: 32200, "married-separate": 16100, "head-of-household": 24150 },
+    capitalGains: {
+      single: brackets([0, 15, 20], [49450, 545500]),
+      joint: brackets([0, 15, 20], [98900, 613700]),
+      "married-separate": brackets([0, 15, 20], [49450, 306850]),
+      "head-of-household": brackets([0, 15, 20], [66200, 579600]),
+    },
+  },
+];
+
+// Pre-TCJA (2017) schedule, used when a plan models TCJA reverting (tcjaReversion).
+// Indexed to REVERSION_YEAR by REVERSION_INDEXATION, an approximation of chained CPI growth.
+export const REVERSION_YEAR = 2026;
+const REVERSION_INDEXATION = 1.31;
+const PRE_TCJA_RATES = [10, 15, 25, 28, 33, 35, 39.6];
+
+const indexed = (values: number[]) => values.map((v) => Math.round((v * REVERSION_INDEXATION) / 50) * 50);
+
+export const PRE_TCJA_TABLE: TaxYearTable = {
+  year: REVERSION_YEAR,
+  ordinary: {
+    single: brackets(PRE_TCJA_RATES, indexed([9325, 37950, 91900, 191650, 416700, 418400])),
+    joint: brackets(PRE_TCJA_RATES, indexed([18650, 75900, 153100, 233350, 416700, 470700])),
+    "married-separate": brackets(PRE_TCJA_RATES, indexed([9325, 37950, 76550, 116675, 208350, 235350])),
+    "head-of-household": brackets(PRE_TCJA_RATES, indexed([13350, 50800, 131200, 212500, 416700, 444550])),
+  },
+  // Standard deduction plus personal exemptions ($4,050 each in 2017)
+  standardDeduction: {
+    single: indexed([6350 + 4050])[0],
+    joint: indexed([12700 + 8100])[0],
+    "married-separate": indexed([6350 + 4050])[0],
+    "head-of-household": indexed([9350 + 4050])[0],
+  },
+  capitalGains: {
+    single: brackets([0, 15, 20], indexed([37950, 418400])),
+    joint: brackets([0, 15, 20], indexed([75900, 470700])),
+    "married-separate": brackets([0, 15, 20], indexed([37950, 235350])),
+    "head-of-household": brackets([0, 15, 20], indexed([50800, 444550])),
+  },
+};
+
+// Latest table at or before `year` (the earliest table for years before it)
+export function federalTable(year: number, tcjaReversion = false): TaxYearTable {
+  if (tcjaReversion && year >= REVERSION_YEAR) return PRE_TCJA_TABLE;
+  let table = FEDERAL_TABLES[0];
+  for (const t of FEDERAL_TABLES) {
+    if (t.year <= year) table = t;
+  }
+  return table;
+}
+
+// Medicare IRMAA tiers: MAGI above `single`/`joint` (from two years earlier) adds
+// `monthlySurcharge` (Part B plus Part D) per enrollee. Married-separate and
+// head-of-household filers are treated as single.
+export interface IrmaaTier {
+  single: number;
+  joint: number;
+  monthlySurcharge: number;
+}
+
+export const IRMAA_YEAR = 2026;
+
+export const IRMAA_TIERS: IrmaaTier[] = [
+  { single: 109000, joint: 218000, monthlySurcharge: 81.2 + 14.5 },
+  { single: 137000, joint: 274000, monthlySurcharge: 202.9 + 37.5 },
+  { single: 171000, joint: 342000, monthlySurcharge: 324.6 + 60.4 },
+  { single: 205000, joint: 410000, monthlySurcharge: 446.3 + 83.3 },
+  { single: 500000, joint: 750000, monthlySurcharge: 487.0 + 91.0 },
+];
+
+// Statutory contribution limits for CONTRIBUTION_LIMITS_YEAR, in nominal dollars per person.
+// Later years are indexed with the plan's inflation.
+export interface ContributionLimits {
+  // 401(k)/403(b) elective deferrals, traditional and Roth combined
+  electiveDeferral: number;
+  catchUp50: number;
+  // SECURE 2.0 catch-up at ages 60-63, instead of catchUp50
+  catchUp60to63: number;
+  // Section 415(c): employee, employer and after-tax additions together
+  totalAdditions: number;
+  ira: number;
+  iraCatchUp50: number;
+  hsaSelf: number;
+  hsaFamily: number;
+  hsaCatchUp55: number;
+  // Section 423 ESPP purchases, by fair market value at grant
+  espp: number;
+  // No federal limit on 529 plans; gifts above the annual gift tax exclusion need a gift tax return
+  giftExclusion: number;
+  // Roth IRA eligibility phases out across these MAGI ranges
+  rothPhaseOut: { single: [number, number]; joint: [number, number] };
+}
+
+export const CONTRIBUTION_LIMITS_YEAR = 2026;
+
+export const CONTRIBUTION_LIMITS: ContributionLimits = {
+  electiveDeferral: 24500,
+  catchUp50: 8000,
+  catchUp60to63: 11250,
+  totalAdditions: 72000,
+  ira: 7500,
+  iraCatchUp50: 1100,
+  hsaSelf: 4400,
+  hsaFamily: 8750,
+  hsaCatchUp55: 1000,
+  espp: 25000,
+  giftExclusion: 19000,
+  rothPhaseOut: { single: [153000, 168000], joint: [242000, 252000] },
+};
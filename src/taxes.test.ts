@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { estimateTaxes, bracketCeiling } from "./taxes.js";
+
+test("fixed mode applies the effective rate to ordinary income", () => {
+  const estimate = estimateTaxes({ incomeTaxMode: "fixed", effectiveIncomeTaxRate: 18 }, { year: 2025, ordinaryIncome: 100000 });
+  assert.equal(estimate.totalTax, 18000);
+  assert.equal(estimate.marginalRate, 18);
+});
+
+test("brackets mode taxes each slice above the standard deduction at its own rate", () => {
+  const v = { incomeTaxMode: "brackets" as const, filingStatus: "single" as const, startYear: 2025 };
+  const estimate = estimateTaxes(v, { year: 2025, ordinaryIncome: 100000 });
+  // 2025 single: 15750 deduction, then 10% to 11925, 12% to 48475, 22% on the rest of 84250
+  assert.equal(estimate.deduction, 15750);
+  assert.equal(estimate.taxableOrdinaryIncome, 84250);
+  assert.equal(estimate.federalIncomeTax, 1192.5 + 4386 + 7870.5);
+  assert.equal(estimate.marginalRate, 22);
+  assert.deepEqual(estimate.bracket, { rate: 22, from: 48475, to: 103350 });
+});
+
+test("income below the standard deduction is untaxed", () => {
+  const estimate = estimateTaxes({ incomeTaxMode: "brackets", filingStatus: "joint" }, { year: 2025, ordinaryIncome: 30000 });
+  assert.equal(estimate.totalTax, 0);
+  assert.equal(estimate.marginalRate, 0);
+});
+
+test("bracket thresholds are indexed with the year's price level after the table year", () => {
+  // No plan inflation, so the table year's price level stays 1 and only the explicit index moves
+  const v = { incomeTaxMode: "brackets" as const, filingStatus: "single" as const, startYear: 2025, inflation: 0 };
+  const base = estimateTaxes(v, { year: 2026, ordinaryIncome: 100000, inflationIndex: 1 });
+  const inflated = estimateTaxes(v, { year: 2030, ordinaryIncome: 200000, inflationIndex: 2 });
+  // Doubling prices doubles both the income and the latest table's thresholds
+  assert.equal(inflated.totalTax, base.totalTax * 2);
+});
+
+test("capital gains stack on top of ordinary income in the gains brackets", () => {
+  const v = { incomeTaxMode: "brackets" as const, filingStatus: "joint" as const, capGainsMode: "brackets" as const, startYear: 2025 };
+  // Ordinary income is used up by the 31500 deduction, so gains start at the bottom: 0% to 96700, then 15%
+  const estimate = estimateTaxes(v, { year: 2025, ordinaryIncome: 31500, capitalGains: 100000 });
+  assert.equal(estimate.federalIncomeTax, 0);
+  assert.equal(estimate.capitalGainsTax, 495);
+});
+
+test("custom brackets are read from incomeTaxNational, with fractional rates", () => {
+  const v = {
+    incomeTaxMode: "custom" as const,
+    startYear: 2025,
+    incomeTaxNational: { brackets: [{ from: 0, rate: 0.1 }, { from: 10000, rate: 0.2 }] },
+  };
+  const estimate = estimateTaxes(v, { year: 2025, ordinaryIncome: 30000 });
+  assert.equal(estimate.totalTax, 1000 + 4000);
+  assert.equal(estimate.marginalRate, 20);
+});
+
+test("bracketCeiling is the gross income at the top of a bracket", () => {
+  const ceiling = bracketCeiling({ filingStatus: "joint", startYear: 2025 }, { year: 2025, rate: 22 });
+  assert.equal(ceiling, 206700 + 31500);
+});
@@ -0,0 +1,322 @@
+/**
+ * Income tax engine driven by PlanVariables.
+ *
+ * incomeTaxMode "fixed" applies effectiveIncomeTaxRate to gross ordinary income
+ * (ProjectionLab's simple mode). "brackets" uses the bundled federal tables in
+ * tax-tables.ts for the plan's filingStatus, honoring tcjaReversion. "custom"
+ * uses the plan's own incomeTaxNational brackets. incomeTaxExtra (state and
+ * other taxes) and localIncomeTaxRate are added on top in every mode.
+ */
+
+import { PlanVariables } from "./types.js";
+import { Bracket, FilingStatus, IRMAA_TIERS, IRMAA_YEAR, TAX_TABLE_VERSION, federalTable } from "./tax-tables.js";
+
+export interface TaxInput {
+  year: number;
+  // Wages, pensions, tax-deferred withdrawals etc., after pre-tax contributions
+  ordinaryIncome: number;
+  // Realized long-term capital gains
+  capitalGains?: number;
+  qualifiedDividends?: number;
+  // Price level of `year` relative to the plan start; defaults to compounding the plan's inflation
+  inflationIndex?: number;
+}
+
+export interface TaxEstimate {
+  year: number;
+  mode: NonNullable<PlanVariables["incomeTaxMode"]>;
+  filingStatus: FilingStatus;
+  tableVersion: string;
+  tableYear: number | null;
+  ordinaryIncome: number;
+  capitalGains: number;
+  qualifiedDividends: number;
+  deduction: number;
+  taxableOrdinaryIncome: number;
+  federalIncomeTax: number;
+  capitalGainsTax: number;
+  dividendTax: number;
+  extraTaxes: Array<{ name: string; tax: number }>;
+  localTax: number;
+  totalTax: number;
+  // Percentages
+  effectiveRate: number;
+  marginalRate: number;
+  marginalCapitalGainsRate: number;
+  bracket: { rate: number; from: number; to: number | null } | null;
+  warnings: string[];
+}
+
+// Step used to measure marginal rates numerically, so every interaction
+// (deductions, gains stacking, state taxes) is reflected
+const MARGINAL_STEP = 100;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Accepts the bracket shapes seen in exports: {rate, from|min|threshold|start},
+// {x: threshold, y: rate} or [threshold, rate]. Rates of 1 or less are treated as fractions.
+export function parseBrackets(raw: unknown): Bracket[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  const parsed: Bracket[] = [];
+  for (const item of raw) {
+    let from: unknown;
+    let rate: unknown;
+    if (Array.isArray(item)) {
+      [from, rate] = item;
+    } else if (item && typeof item === "object") {
+      const b = item as Record<string, unknown>;
+      rate = b.rate ?? b.y;
+      from = b.from ?? b.min ?? b.threshold ?? b.start ?? b.x ?? 0;
+    }
+    if (typeof from !== "number" || typeof rate !== "number") return null;
+    parsed.push({ from, rate });
+  }
+  parsed.sort((a, b) => a.from - b.from);
+  if (parsed.every((b) => b.rate <= 1)) {
+    for (const b of parsed) b.rate *= 100;
+  }
+  return parsed;
+}
+
+// Tax on the slice of income between `base` and `base + amount`
+function progressiveTax(brackets: Bracket[], base: number, amount: number, scale: number): number {
+  let tax = 0;
+  for (let i = 0; i < brackets.length; i++) {
+    const lower = brackets[i].from * scale;
+    const upper = i + 1 < brackets.length ? brackets[i + 1].from * scale : Number.POSITIVE_INFINITY;
+    const overlap = Math.min(base + amount, upper) - Math.max(base, lower);
+    if (overlap > 0) tax += (overlap * brackets[i].rate) / 100;
+  }
+  return tax;
+}
+
+function bracketAt(brackets: Bracket[], income: number, scale: number): TaxEstimate["bracket"] {
+  for (let i = brackets.length - 1; i >= 0; i--) {
+    if (income >= brackets[i].from * scale) {
+      const next = brackets[i + 1];
+      return { rate: brackets[i].rate, from: round(brackets[i].from * scale), to: next ? round(next.from * scale) : null };
+    }
+  }
+  return null;
+}
+
+export function filingStatusOf(v: PlanVariables): FilingStatus {
+  return v.filingStatus ?? "single";
+}
+
+interface FederalSchedule {
+  ordinary: Bracket[];
+  capitalGains: Bracket[];
+  // Multiplier from bracket thresholds to the year's nominal dollars
+  scale: number;
+  deduction: number;
+  tableYear: number | null;
+}
+
+function priceLevelFor(v: PlanVariables, input: { year: number; inflationIndex?: number }): (year: number) => number {
+  const inflation = (v.inflation ?? 3) / 100;
+  const startYear = v.startYear ?? input.year;
+  return (year: number) =>
+    year === input.year && input.inflationIndex !== undefined ? input.inflationIndex : Math.pow(1 + inflation, year - startYear);
+}
+
+// Federal brackets and deduction for a bracket-based mode ("brackets" or "custom")
+function federalSchedule(v: PlanVariables, year: number, priceLevel: (year: number) => number, warnings: string[]): FederalSchedule {
+  const filingStatus = filingStatusOf(v);
+  const table = federalTable(year, v.tcjaReversion === true);
+  const custom = v.incomeTaxMode === "custom" ? parseBrackets(v.incomeTaxNational?.brackets) : null;
+  if (v.incomeTaxMode === "custom" && !custom) {
+    warnings.push("incomeTaxMode is custom but incomeTaxNational.brackets could not be read; using the bundled federal brackets");
+  }
+  // Plan brackets are in today's dollars
+  const scale = custom ? priceLevel(year) : year > table.year ? priceLevel(year) / priceLevel(table.year) : 1;
+  const planDeduction = v.incomeTaxNational?.standardDeduction;
+  return {
+    ordinary: custom ?? table.ordinary[filingStatus],
+    capitalGains: custom ? parseBrackets(v.capGains?.brackets) ?? table.capitalGains[filingStatus] : table.capitalGains[filingStatus],
+    scale,
+    deduction:
+      planDeduction !== undefined ? planDeduction * priceLevel(year) : custom ? 0 : table.standardDeduction[filingStatus] * scale,
+    tableYear: custom ? null : table.year,
+  };
+}
+
+function totalsOnly(v: PlanVariables, input: TaxInput): Omit<TaxEstimate, "marginalRate" | "marginalCapitalGainsRate"> {
+  const warnings: string[] = [];
+  const mode = v.incomeTaxMode ?? "fixed";
+  const filingStatus = filingStatusOf(v);
+  const priceLevel = priceLevelFor(v, input);
+
+  const capitalGains = Math.max(0, input.capitalGains ?? 0);
+  const qualifiedDividends = Math.max(0, input.qualifiedDividends ?? 0);
+  const result = {
+    year: input.year,
+    mode,
+    filingStatus,
+    tableVersion: TAX_TABLE_VERSION,
+    tableYear: null as number | null,
+    ordinaryIncome: input.ordinaryIncome,
+    capitalGains,
+    qualifiedDividends,
+    deduction: 0,
+    taxableOrdinaryIncome: 0,
+    federalIncomeTax: 0,
+    capitalGainsTax: 0,
+    dividendTax: 0,
+    extraTaxes: [] as TaxEstimate["extraTaxes"],
+    localTax: 0,
+    totalTax: 0,
+    effectiveRate: 0,
+    bracket: null as TaxEstimate["bracket"],
+    warnings,
+  };
+  if (v.estimateTaxes === false) {
+    warnings.push("Tax estimation is disabled for this plan (estimateTaxes: false)");
+    return result;
+  }
+
+  // Decide which income is taxed as ordinary income and which at preferential rates
+  const gains = capitalGains * ((v.capGainsTaxablePercent ?? 100) / 100);
+  const gainsAsIncome = v.capGainsMode === "income" || v.capGainsTaxAsIncome === true;
+  const dividendMode = v.dividendTaxMode ?? "capGains";
+  const dividendsAsIncome = dividendMode === "income" || (dividendMode === "capGains" && gainsAsIncome);
+  const ordinary = Math.max(0, input.ordinaryIncome) + (gainsAsIncome ? gains : 0) + (dividendsAsIncome ? qualifiedDividends : 0);
+  let preferentialGains = gainsAsIncome ? 0 : gains;
+  let preferentialDividends = dividendsAsIncome ? 0 : qualifiedDividends;
+
+  // Federal ordinary income tax
+  let gainsBrackets: Bracket[] | null = null;
+  let scale = 1;
+  if (mode === "fixed") {
+    result.taxableOrdinaryIncome = ordinary;
+    result.federalIncomeTax = (ordinary * (v.effectiveIncomeTaxRate ?? 0)) / 100;
+  } else {
+    const schedule = federalSchedule(v, input.year, priceLevel, warnings);
+    gainsBrackets = schedule.capitalGains;
+    scale = schedule.scale;
+    result.tableYear = schedule.tableYear;
+    result.deduction = schedule.deduction;
+    result.taxableOrdinaryIncome = Math.max(0, ordinary - result.deduction);
+
+    // Deduction left over after ordinary income shelters preferential income
+    let unused = Math.max(0, result.deduction - ordinary);
+    const shelteredGains = Math.min(unused, preferentialGains);
+    preferentialGains -= shelteredGains;
+    unused -= shelteredGains;
+    preferentialDividends -= Math.min(unused, preferentialDividends);
+
+    result.federalIncomeTax = progressiveTax(schedule.ordinary, 0, result.taxableOrdinaryIncome, scale);
+    result.bracket = bracketAt(schedule.ordinary, result.taxableOrdinaryIncome, scale);
+  }
+
+  // Capital gains and qualified dividends, stacked on top of taxable ordinary income
+  const stackedTax = (amount: number, base: number) =>
+    gainsBrackets ? progressiveTax(gainsBrackets, base, amount, scale) : (amount * (v.capGainsTaxRate ?? 15)) / 100;
+  const gainsUseBrackets = v.capGainsMode === "brackets" && gainsBrackets !== null;
+  if (v.capGainsMode === "brackets" && !gainsBrackets) {
+    warnings.push("capGainsMode is brackets but incomeTaxMode is fixed; using capGainsTaxRate");
+  }
+  result.capitalGainsTax = gainsUseBrackets
+    ? stackedTax(preferentialGains, result.taxableOrdinaryIncome)
+    : (preferentialGains * (v.capGainsTaxRate ?? 15)) / 100;
+
+  const dividendsUseBrackets = (dividendMode === "brackets" || (dividendMode === "capGains" && gainsUseBrackets)) && gainsBrackets;
+  if (dividendMode === "fixed") {
+    result.dividendTax = (preferentialDividends * (v.dividendTaxRate ?? 15)) / 100;
+  } else if (dividendsUseBrackets) {
+    result.dividendTax = stackedTax(preferentialDividends, result.taxableOrdinaryIncome + preferentialGains);
+  } else {
+    result.dividendTax = (preferentialDividends * (v.capGainsTaxRate ?? 15)) / 100;
+  }
+
+  // State and other extra income taxes, then local tax, on all income
+  const allIncome = Math.max(0, input.ordinaryIncome) + gains + qualifiedDividends;
+  (v.incomeTaxExtra ?? []).forEach((raw, i) => {
+    const extra = (raw ?? {}) as { name?: string; brackets?: unknown; rate?: number; standardDeduction?: number };
+    const name = extra.name ?? `extra-${i + 1}`;
+    const taxable = Math.max(0, allIncome - (extra.standardDeduction ?? 0) * priceLevel(input.year));
+    const extraBrackets = parseBrackets(extra.brackets);
+    let tax: number;
+    if (extraBrackets) {
+      tax = progressiveTax(extraBrackets, 0, taxable, priceLevel(input.year));
+    } else if (typeof extra.rate === "number") {
+      tax = (taxable * extra.rate) / 100;
+    } else {
+      warnings.push(`incomeTaxExtra[${i}] (${name}) has no readable brackets or rate; ignored`);
+      return;
+    }
+    result.extraTaxes.push({ name, tax: round(tax) });
+  });
+  result.localTax = (allIncome * (v.localIncomeTaxRate ?? 0)) / 100;
+
+  const total =
+    result.federalIncomeTax +
+    result.capitalGainsTax +
+    result.dividendTax +
+    result.extraTaxes.reduce((sum, t) => sum + t.tax, 0) +
+    result.localTax;
+
+  result.deduction = round(result.deduction);
+  result.taxableOrdinaryIncome = round(result.taxableOrdinaryIncome);
+  result.federalIncomeTax = round(result.federalIncomeTax);
+  result.capitalGainsTax = round(result.capitalGainsTax);
+  result.dividendTax = round(result.dividendTax);
+  result.localTax = round(result.localTax);
+  result.totalTax = round(total);
+  result.effectiveRate = allIncome > 0 ? round((total / allIncome) * 100) : 0;
+  return result;
+}
+
+export function estimateTaxes(v: PlanVariables, input: TaxInput): TaxEstimate {
+  const base = totalsOnly(v, input);
+  const withIncome = totalsOnly(v, { ...input, ordinaryIncome: Math.max(0, input.ordinaryIncome) + MARGINAL_STEP });
+  const withGains = totalsOnly(v, { ...input, capitalGains: (input.capitalGains ?? 0) + MARGINAL_STEP });
+  return {
+    ...base,
+    marginalRate: round(((withIncome.totalTax - base.totalTax) / MARGINAL_STEP) * 100),
+    marginalCapitalGainsRate: round(((withGains.totalTax - base.totalTax) / MARGINAL_STEP) * 100),
+  };
+}
+
+// Gross ordinary income at which the federal bracket with `rate` ends in `year`, i.e. the most
+// ordinary income that can be taxed at or below that rate. Uses the bundled table when the plan
+// taxes at a fixed rate. Null when the rate is not a bracket boundary or is the top bracket.
+export function bracketCeiling(
+  v: PlanVariables,
+  input: { year: number; rate: number; inflationIndex?: number }
+): number | null {
+  const priceLevel = priceLevelFor(v, input);
+  const schedule = federalSchedule({ ...v, incomeTaxMode: v.incomeTaxMode === "custom" ? "custom" : "brackets" }, input.year, priceLevel, []);
+  const index = schedule.ordinary.findIndex((b) => b.rate === input.rate);
+  const next = schedule.ordinary[index + 1];
+  if (index < 0 || !next) return null;
+  return round(next.from * schedule.scale + schedule.deduction);
+}
+
+export function bracketRates(v: PlanVariables, year: number): number[] {
+  const schedule = federalSchedule({ ...v, incomeTaxMode: v.incomeTaxMode === "custom" ? "custom" : "brackets" }, year, priceLevelFor(v, { year }), []);
+  return schedule.ordinary.map((b) => b.rate);
+}
+
+// Medicare IRMAA surcharge for one enrollee, based on MAGI from two years earlier
+export function irmaaSurcharge(
+  v: PlanVariables,
+  input: { year: number; magi: number; inflationIndex?: number }
+): { tier: number; annual: number; nextThreshold: number | null } {
+  const status = filingStatusOf(v) === "joint" ? "joint" : "single";
+  // Thresholds are indexed to inflation after the table year
+  const priceLevel = priceLevelFor(v, input);
+  const scale = input.year > IRMAA_YEAR ? priceLevel(input.year) / priceLevel(IRMAA_YEAR) : 1;
+  let tier = 0;
+  for (let i = 0; i < IRMAA_TIERS.length; i++) {
+    if (input.magi > IRMAA_TIERS[i][status] * scale) tier = i + 1;
+  }
+  const next = IRMAA_TIERS[tier];
+  return {
+    tier,
+    annual: tier === 0 ? 0 : round(IRMAA_TIERS[tier - 1].monthlySurcharge * 12 * scale),
+    nextThreshold: next ? round(next[status] * scale) : null,
+  };
+}
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { validateExport, newViolations } from "./validation.js";
+
+// Plan "b" carries a violation the file already had when it was loaded
+function exportWithViolation() {
+  return {
+    meta: { version: "4.0.0", lastUpdated: 0 },
+    today: {},
+    plans: [
+      { id: "a", name: "A" },
+      { id: "b", name: "B", variables: { inflation: "3%" } },
+    ],
+    settings: {},
+  };
+}
+
+test("deleting an earlier plan does not turn an existing violation into a new one", async () => {
+  const doc = exportWithViolation();
+  const before = await validateExport(doc);
+  assert.equal(before[0].path, "/plans/1/variables/inflation");
+
+  doc.plans.splice(0, 1);
+  const after = await validateExport(doc);
+  assert.equal(after[0].path, "/plans/0/variables/inflation");
+  assert.deepEqual(newViolations(before, after), []);
+});
+
+test("a violation added by an edit is reported", async () => {
+  const doc = exportWithViolation();
+  const before = await validateExport(doc);
+  (doc.plans[0] as { variables?: unknown }).variables = { inflation: "2%" };
+  const added = newViolations(before, await validateExport(doc));
+  assert.equal(added.length, 1);
+  assert.equal(added[0].path, "/plans/0/variables/inflation");
+});
+
+test("a valid export has no violations", async () => {
+  const doc = exportWithViolation();
+  doc.plans.pop();
+  assert.deepEqual(await validateExport(doc), []);
+});
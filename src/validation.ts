@@ -0,0 +1,82 @@
+/**
+ * Validation of export data against the bundled JSON Schema
+ * (schema/projectionlab-export.schema.json), so that files ProjectionLab would
+ * refuse to import are caught before they are written.
+ */
+
+import * as fs from "fs/promises";
+import { fileURLToPath } from "url";
+import { Ajv, ValidateFunction } from "ajv";
+
+export interface SchemaViolation {
+  // JSON pointer to the offending value ("" is the document root)
+  path: string;
+  keyword: string;
+  message: string;
+}
+
+const SCHEMA_PATH = fileURLToPath(new URL("../schema/projectionlab-export.schema.json", import.meta.url));
+
+let validator: ValidateFunction | null = null;
+
+async function getValidator(): Promise<ValidateFunction> {
+  if (!validator) {
+    const schema = JSON.parse(await fs.readFile(SCHEMA_PATH, "utf-8"));
+    const ajv = new Ajv({ allErrors: true, strict: false });
+    validator = ajv.compile(schema);
+  }
+  return validator;
+}
+
+export async function validateExport(doc: unknown): Promise<SchemaViolation[]> {
+  const validate = await getValidator();
+  if (validate(doc)) return [];
+  return (validate.errors ?? []).map((e) => {
+    const path = e.keyword === "required" ? `${e.instancePath}/${e.params.missingProperty}` : e.instancePath;
+    const allowed = e.keyword === "enum" ? `: ${(e.params.allowedValues as unknown[]).join(", ")}` : "";
+    return { path, keyword: e.keyword, message: `${e.message ?? "is invalid"}${allowed}` };
+  });
+}
+
+function violationKey(v: SchemaViolation, path = v.path): string {
+  return `${path} ${v.keyword} ${v.message}`;
+}
+
+// Array indices are dropped so that a violation keeps its key when an earlier
+// element is inserted, deleted or moved
+function reindexedKey(v: SchemaViolation): string {
+  return violationKey(v, v.path.replace(/\/\d+(?=\/|$)/g, "/*"));
+}
+
+// Removes one entry of `key` from `counts`, reporting whether there was one left
+function take(counts: Map<string, number>, key: string): boolean {
+  const left = counts.get(key) ?? 0;
+  if (left === 0) return false;
+  counts.set(key, left - 1);
+  return true;
+}
+
+function countKeys(violations: SchemaViolation[], key: (v: SchemaViolation) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const v of violations) counts.set(key(v), (counts.get(key(v)) ?? 0) + 1);
+  return counts;
+}
+
+// Violations in `after` that were not already present in `before`, so a file that
+// loaded with problems can still be edited as long as edits add no new ones.
+// Unmoved violations are matched on their exact path first, then the rest on their
+// path without indices, so reordering an array adds nothing but a second copy of
+// an existing problem still does.
+export function newViolations(before: SchemaViolation[], after: SchemaViolation[]): SchemaViolation[] {
+  const exact = countKeys(before, violationKey);
+  const unmatched = after.filter((v) => !take(exact, violationKey(v)));
+  // What is left in `exact` are the earlier violations no longer at their old path
+  const moved = countKeys(before.filter((v) => take(exact, violationKey(v))), reindexedKey);
+  return unmatched.filter((v) => !take(moved, reindexedKey(v)));
+}
+
+export function formatViolations(violations: SchemaViolation[], limit = 5): string {
+  const lines = violations.slice(0, limit).map((v) => `${v.path || "/"} ${v.message}`);
+  if (violations.length > limit) lines.push(`...and ${violations.length - limit} more`);
+  return lines.join("; ");
+}
@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { validateStrategyParameters, strategyParameters, simulateWithdrawals } from "./withdrawals.js";
+import { runProjection } from "./projection.js";
+import { ProjectionLabExport, Plan } from "./types.js";
+
+// Ten years with no growth and no inflation, so each strategy's arithmetic is exact
+function fixture(): { data: ProjectionLabExport; plan: Plan } {
+  const plan: Plan = {
+    id: "p1",
+    name: "Test",
+    variables: { startYear: 2025, loopYear: 2034, investmentReturn: 0, dividendRate: 0, inflation: 0 },
+    withdrawalStrategy: { strategy: "fixed-amount", "fixed-amount": { amount: 50000 } },
+  };
+  const data = {
+    meta: { version: "4.0.0", lastUpdated: 0 },
+    today: { age: 65, savingsAccounts: [], investmentAccounts: [], debts: [], assets: [] },
+    plans: [plan],
+    settings: {},
+  } as ProjectionLabExport;
+  return { data, plan };
+}
+
+test("strategy parameters are checked by name, type and range", () => {
+  validateStrategyParameters("guyton-klinger", { amount: 5, guardrail: 20 });
+  assert.throws(() => validateStrategyParameters("fixed-%", { bogus: 1 }), /Unknown parameter "bogus" for fixed-%; allowed: amount/);
+  assert.throws(() => validateStrategyParameters("vpw", { amount: 1 }), /it has no parameters/);
+  assert.throws(() => validateStrategyParameters("fixed-%", { amount: "4" }), /must be a number/);
+  assert.throws(() => validateStrategyParameters("initial-%", { minType: "$" }), /must be one of: %, today\$/);
+  assert.throws(() => validateStrategyParameters("fixed-%", { amount: -1 }), /must not be negative/);
+});
+
+test("plan settings fill in over the strategy defaults", () => {
+  const { plan } = fixture();
+  assert.deepEqual(strategyParameters(plan.withdrawalStrategy, "fixed-amount"), { amount: 50000, amountType: "today$", adjust: true });
+  assert.deepEqual(strategyParameters(undefined, "kitces-ratchet"), { amount: 4, threshold: 50, ratchet: 10, cooldown: 3 });
+});
+
+test("fixed returns simulate each strategy from the given portfolio", () => {
+  const { data, plan } = fixture();
+  const result = simulateWithdrawals(data, plan, runProjection(data, plan), {
+    strategies: ["fixed-amount", "1/N", "fixed-%"],
+    portfolio: 1000000,
+    includeYears: false,
+  });
+  const [fixedAmount, oneOverN, fixedPercent] = result.results;
+  assert.equal(fixedAmount.totalWithdrawn, 500000);
+  assert.equal(fixedAmount.endingPortfolio, 500000);
+  // 1/N spreads the portfolio evenly over the remaining years
+  assert.equal(oneOverN.minWithdrawal, 100000);
+  assert.equal(oneOverN.endingPortfolio, 0);
+  assert.equal(fixedPercent.maxWithdrawal, 40000);
+  assert.ok(Math.abs(fixedPercent.endingPortfolio - 1000000 * 0.96 ** 10) <= 1);
+  assert.equal(fixedPercent.depletedYear, null);
+});
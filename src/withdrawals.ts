@@ -0,0 +1,452 @@
+/**
+ * Withdrawal strategy parameters and a portfolio-only simulator for every
+ * WithdrawalStrategy variant.
+ *
+ * The simulator starts from the projected liquid portfolio in the year the
+ * strategy begins and applies the strategy's spending rule each year against
+ * the plan's fixed return assumptions or a sequence of historical returns.
+ * Everything is tracked in today's dollars; other income and expenses are not
+ * modeled, so results show what each rule would let the portfolio support.
+ */
+
+import { ProjectionLabExport, Plan, WithdrawalStrategy } from "./types.js";
+import { ProjectionResult, bondShare } from "./projection.js";
+import { createDateContext, resolveDateReference } from "./dates.js";
+import { HISTORICAL_RETURNS, historicalSequence } from "./historical-returns.js";
+
+export type StrategyName = NonNullable<WithdrawalStrategy["strategy"]>;
+
+interface ParameterSpec {
+  type: "number" | "boolean" | "string";
+  description: string;
+  enum?: string[];
+}
+
+export const STRATEGIES: StrategyName[] = [
+  "initial-%",
+  "fixed-%",
+  "fixed-amount",
+  "1/N",
+  "vpw",
+  "kitces-ratchet",
+  "clyatt-95%",
+  "guyton-klinger",
+];
+
+// Editable fields of each strategy's settings block
+export const STRATEGY_PARAMETERS: Record<StrategyName, Record<string, ParameterSpec>> = {
+  "initial-%": {
+    amount: { type: "number", description: "Withdrawal rate % of the starting portfolio, then adjusted for inflation" },
+    min: { type: "number", description: "Spending floor" },
+    minType: { type: "string", enum: ["%", "today$"], description: "Floor as % of the current portfolio or today's dollars" },
+    minEnabled: { type: "boolean", description: "Apply the floor" },
+    max: { type: "number", description: "Spending ceiling" },
+    maxType: { type: "string", enum: ["%", "today$"], description: "Ceiling as % of the current portfolio or today's dollars" },
+    maxEnabled: { type: "boolean", description: "Apply the ceiling" },
+  },
+  "fixed-%": {
+    amount: { type: "number", description: "Withdrawal rate % of the current portfolio each year" },
+  },
+  "fixed-amount": {
+    amount: { type: "number", description: "Yearly withdrawal" },
+    amountType: { type: "string", enum: ["today$", "future$"], description: "Whether amount is in today's or future dollars" },
+    adjust: { type: "boolean", description: "Raise the amount with inflation" },
+  },
+  "1/N": {},
+  vpw: {},
+  "kitces-ratchet": {
+    amount: { type: "number", description: "Initial withdrawal rate %" },
+    threshold: { type: "number", description: "Portfolio growth % above its starting value that allows a ratchet" },
+    ratchet: { type: "number", description: "Spending increase % per ratchet" },
+    cooldown: { type: "number", description: "Minimum years between ratchets" },
+  },
+  "clyatt-95%": {
+    amount: { type: "number", description: "Withdrawal rate % of the current portfolio, never below 95% of last year's spending" },
+  },
+  "guyton-klinger": {
+    amount: { type: "number", description: "Initial withdrawal rate %" },
+    guardrail: { type: "number", description: "How far (%) the current withdrawal rate may drift from the initial rate before spending changes" },
+    adjustment: { type: "number", description: "Spending cut or raise % when a guardrail is hit" },
+  },
+};
+
+const STRATEGY_DEFAULTS: Record<StrategyName, Record<string, number | boolean | string>> = {
+  "initial-%": { amount: 4, min: 0, minType: "%", minEnabled: false, max: 0, maxType: "%", maxEnabled: false },
+  "fixed-%": { amount: 4 },
+  "fixed-amount": { amount: 40000, amountType: "today$", adjust: true },
+  "1/N": {},
+  vpw: {},
+  "kitces-ratchet": { amount: 4, threshold: 50, ratchet: 10, cooldown: 3 },
+  "clyatt-95%": { amount: 4 },
+  "guyton-klinger": { amount: 5, guardrail: 20, adjustment: 10 },
+};
+
+// Guyton-Klinger stops cutting spending in the final years of retirement
+const GK_FINAL_YEARS = 15;
+const CLYATT_FLOOR = 0.95;
+
+export function isStrategyName(value: unknown): value is StrategyName {
+  return STRATEGIES.includes(value as StrategyName);
+}
+
+export function validateStrategyParameters(strategy: StrategyName, params: Record<string, unknown>): void {
+  const specs = STRATEGY_PARAMETERS[strategy];
+  for (const [key, value] of Object.entries(params)) {
+    const spec = specs[key];
+    if (!spec) {
+      const allowed = Object.keys(specs);
+      throw new Error(
+        `Unknown parameter "${key}" for ${strategy}; ${allowed.length ? `allowed: ${allowed.join(", ")}` : "it has no parameters"}`
+      );
+    }
+    if (typeof value !== spec.type) throw new Error(`Parameter "${key}" for ${strategy} must be a ${spec.type}`);
+    if (spec.enum && !spec.enum.includes(value as string)) {
+      throw new Error(`Parameter "${key}" for ${strategy} must be one of: ${spec.enum.join(", ")}`);
+    }
+    if (spec.type === "number" && (value as number) < 0) throw new Error(`Parameter "${key}" for ${strategy} must not be negative`);
+  }
+}
+
+// A strategy's settings from the plan, with defaults for anything unset
+export function strategyParameters(ws: WithdrawalStrategy | undefined, strategy: StrategyName): Record<string, number | boolean | string> {
+  const block = (ws?.[strategy] ?? {}) as Record<string, unknown>;
+  const params = { ...STRATEGY_DEFAULTS[strategy] };
+  for (const key of Object.keys(STRATEGY_PARAMETERS[strategy])) {
+    const value = block[key];
+    if (typeof value === "number" || typeof value === "boolean" || typeof value === "string") params[key] = value;
+  }
+  return params;
+}
+
+// =============================================================================
+// Simulation
+// =============================================================================
+
+// Percentages for one simulated year
+interface MarketYear {
+  stocks: number;
+  bonds: number;
+  dividends: number;
+  inflation: number;
+}
+
+export interface WithdrawalYear {
+  year: number;
+  age?: number;
+  portfolio: number;
+  withdrawal: number;
+  withdrawalRate: number;
+  realReturn: number;
+  event: string;
+}
+
+export interface WithdrawalSummary {
+  totalWithdrawn: number;
+  averageWithdrawal: number;
+  minWithdrawal: number;
+  maxWithdrawal: number;
+  endingPortfolio: number;
+  depletedYear: number | null;
+  guardrailTriggers: number;
+}
+
+export interface StrategyResult extends WithdrawalSummary {
+  strategy: StrategyName;
+  parameters: Record<string, number | boolean | string>;
+  // Rolling historical mode: outcomes across every historical start year
+  historical?: {
+    sequences: number;
+    successRate: number;
+    worstStartYear: number;
+    medianTotalWithdrawn: number;
+  };
+  years?: WithdrawalYear[];
+}
+
+export interface WithdrawalSimulation {
+  planId: string;
+  returns: "fixed" | "historical";
+  historicalStartYear: number | null;
+  startYear: number;
+  endYear: number;
+  startingPortfolio: number;
+  results: StrategyResult[];
+  warnings: string[];
+}
+
+export interface WithdrawalSimulationOptions {
+  strategies?: StrategyName[];
+  // Parameter overrides by strategy, on top of the plan's settings
+  parameters?: Partial<Record<StrategyName, Record<string, unknown>>>;
+  returns?: "fixed" | "historical";
+  // Omit in historical mode to run every historical start year
+  historicalStartYear?: number;
+  startYear?: number;
+  // Starting portfolio in today's dollars (default: projected liquid assets)
+  portfolio?: number;
+  includeYears?: boolean;
+}
+
+interface RunInput {
+  startYear: number;
+  portfolio: number;
+  // Price level of the first simulated year relative to today
+  startPriceLevel: number;
+  market: MarketYear[];
+  ageOf: (year: number) => number | undefined;
+  bondsAt: (year: number) => number;
+  expectedRealReturn: number;
+}
+
+function round(n: number): number {
+  return Math.round(n);
+}
+
+function runStrategy(
+  strategy: StrategyName,
+  params: Record<string, number | boolean | string>,
+  input: RunInput
+): { summary: WithdrawalSummary; years: WithdrawalYear[] } {
+  const num = (key: string) => Number(params[key] ?? 0);
+  const n = input.market.length;
+  const initial = input.portfolio;
+  const years: WithdrawalYear[] = [];
+  let portfolio = initial;
+  let previous = 0;
+  let previousNominalReturn: number | null = null;
+  let lastRatchet = Number.NEGATIVE_INFINITY;
+  let cumulativeInflation = 1;
+  let depletedYear: number | null = null;
+
+  for (let k = 0; k < n; k++) {
+    const year = input.startYear + k;
+    const market = input.market[k];
+    const lastInflation = k > 0 ? input.market[k - 1].inflation / 100 : 0;
+    const remaining = n - k;
+    const events: string[] = [];
+    let withdrawal: number;
+
+    switch (strategy) {
+      case "initial-%": {
+        withdrawal = (num("amount") / 100) * initial;
+        const bound = (value: number, type: unknown) => (type === "today$" ? value : (value / 100) * portfolio);
+        if (params.minEnabled && withdrawal < bound(num("min"), params.minType)) {
+          withdrawal = bound(num("min"), params.minType);
+          events.push("floor");
+        }
+        if (params.maxEnabled && withdrawal > bound(num("max"), params.maxType)) {
+          withdrawal = bound(num("max"), params.maxType);
+          events.push("ceiling");
+        }
+        break;
+      }
+      case "fixed-%":
+        withdrawal = (num("amount") / 100) * portfolio;
+        break;
+      case "fixed-amount": {
+        const base = params.amountType === "future$" ? num("amount") / input.startPriceLevel : num("amount");
+        withdrawal = params.adjust === false ? base / cumulativeInflation : base;
+        break;
+      }
+      case "1/N":
+        withdrawal = portfolio / remaining;
+        break;
+      case "vpw": {
+        // Level real payment that exhausts the portfolio at the end of the plan, paid at the start of each year
+        const r = input.expectedRealReturn;
+        withdrawal = r === 0 ? portfolio / remaining : (portfolio * r) / ((1 + r) * (1 - Math.pow(1 + r, -remaining)));
+        break;
+      }
+      case "kitces-ratchet":
+        withdrawal = k === 0 ? (num("amount") / 100) * initial : previous;
+        if (k > 0 && portfolio >= initial * (1 + num("threshold") / 100) && k - lastRatchet >= num("cooldown")) {
+          withdrawal *= 1 + num("ratchet") / 100;
+          lastRatchet = k;
+          events.push(`ratchet +${num("ratchet")}%`);
+        }
+        break;
+      case "clyatt-95%": {
+        withdrawal = (num("amount") / 100) * portfolio;
+        const floor = (CLYATT_FLOOR * previous) / (1 + lastInflation);
+        if (k > 0 && withdrawal < floor) {
+          withdrawal = floor;
+          events.push("95% floor");
+        }
+        break;
+      }
+      case "guyton-klinger": {
+        const initialRate = num("amount") / 100;
+        if (k === 0) {
+          withdrawal = initialRate * initial;
+          break;
+        }
+        withdrawal = previous;
+        // No inflation raise after a losing year while above the initial rate
+        if (previousNominalReturn !== null && previousNominalReturn < 0 && withdrawal / portfolio > initialRate) {
+          withdrawal /= 1 + lastInflation;
+          events.push("inflation raise skipped");
+        }
+        const rate = withdrawal / portfolio;
+        const band = num("guardrail") / 100;
+        if (rate > initialRate * (1 + band) && remaining > GK_FINAL_YEARS) {
+          withdrawal *= 1 - num("adjustment") / 100;
+          events.push("capital preservation cut");
+        } else if (rate < initialRate * (1 - band)) {
+          withdrawal *= 1 + num("adjustment") / 100;
+          events.push("prosperity raise");
+        }
+        break;
+      }
+    }
+
+    if (withdrawal > portfolio) {
+      if (depletedYear === null && withdrawal - portfolio > 0.5) depletedYear = year;
+      withdrawal = Math.max(0, portfolio);
+    }
+    const bonds = input.bondsAt(year);
+    const nominal = market.stocks * (1 - bonds) + market.bonds * bonds + market.dividends;
+    const realReturn = (1 + nominal / 100) / (1 + market.inflation / 100) - 1;
+    years.push({
+      year,
+      age: input.ageOf(year),
+      portfolio: round(portfolio),
+      withdrawal: round(withdrawal),
+      withdrawalRate: portfolio > 0 ? Math.round((withdrawal / portfolio) * 10000) / 100 : 0,
+      realReturn: Math.round(realReturn * 10000) / 100,
+      event: events.join("; "),
+    });
+
+    portfolio = (portfolio - withdrawal) * (1 + realReturn);
+    previous = withdrawal;
+    previousNominalReturn = nominal;
+    cumulativeInflation *= 1 + market.inflation / 100;
+  }
+
+  const amounts = years.map((y) => y.withdrawal);
+  const total = amounts.reduce((sum, a) => sum + a, 0);
+  return {
+    summary: {
+      totalWithdrawn: round(total),
+      averageWithdrawal: round(total / Math.max(1, amounts.length)),
+      minWithdrawal: Math.min(...amounts),
+      maxWithdrawal: Math.max(...amounts),
+      endingPortfolio: round(portfolio),
+      depletedYear,
+      guardrailTriggers: years.filter((y) => y.event !== "").length,
+    },
+    years,
+  };
+}
+
+// Year the plan's withdrawal strategy starts, falling back to retirement and then the plan start
+function strategyStartYear(data: ProjectionLabExport, plan: Plan, projection: ProjectionResult): number {
+  const ctx = createDateContext(data, plan);
+  for (const m of projection.milestones) ctx.milestoneYears.set(m.id, m.year);
+  const year =
+    resolveDateReference(plan.withdrawalStrategy?.start, ctx) ??
+    projection.milestones.find((m) => m.id === "retirement")?.year ??
+    projection.startYear;
+  return Math.min(Math.max(year, projection.startYear), projection.endYear);
+}
+
+export function simulateWithdrawals(
+  data: ProjectionLabExport,
+  plan: Plan,
+  projection: ProjectionResult,
+  options: WithdrawalSimulationOptions = {}
+): WithdrawalSimulation {
+  const v = plan.variables ?? {};
+  const warnings: string[] = [];
+  const ws = plan.withdrawalStrategy;
+  const strategies = options.strategies?.length ? options.strategies : [ws?.strategy ?? "initial-%"];
+  for (const s of strategies) {
+    if (!isStrategyName(s)) throw new Error(`Unknown withdrawal strategy: ${s}; expected one of ${STRATEGIES.join(", ")}`);
+  }
+  for (const [s, overrides] of Object.entries(options.parameters ?? {})) {
+    if (!isStrategyName(s)) throw new Error(`Unknown withdrawal strategy in parameters: ${s}`);
+    validateStrategyParameters(s, overrides ?? {});
+  }
+
+  const startYear = options.startYear ?? strategyStartYear(data, plan, projection);
+  if (startYear < projection.startYear || startYear > projection.endYear) {
+    throw new Error(`startYear must be within the plan (${projection.startYear}-${projection.endYear})`);
+  }
+  const length = projection.endYear - startYear + 1;
+  const row = projection.years.find((y) => y.year === startYear)!;
+  const before = projection.years.find((y) => y.year === startYear - 1);
+  let portfolio = options.portfolio;
+  if (portfolio === undefined) {
+    const liquidToday =
+      (data.today.savingsAccounts ?? []).reduce((sum, a) => sum + a.balance, 0) +
+      (data.today.investmentAccounts ?? []).reduce((sum, a) => sum + a.balance, 0);
+    portfolio = before ? before.liquid / row.inflationIndex : liquidToday;
+  }
+  if (portfolio <= 0) throw new Error(`No liquid portfolio to withdraw from in ${startYear}; pass portfolio`);
+
+  const ctx = createDateContext(data, plan);
+  const ageOf = (year: number) => (ctx.birthYear === undefined ? undefined : year - ctx.birthYear);
+  const bondsAt = (year: number) => bondShare(v, ageOf(year));
+  const fixed: MarketYear = {
+    stocks: v.investmentReturn ?? 7,
+    bonds: v.bondInvestmentReturn ?? v.investmentReturn ?? 7,
+    dividends: v.dividendRate ?? 0,
+    inflation: v.inflation ?? 3,
+  };
+  const startBonds = bondsAt(startYear);
+  const expectedRealReturn =
+    (1 + (fixed.stocks * (1 - startBonds) + fixed.bonds * startBonds + fixed.dividends) / 100) / (1 + fixed.inflation / 100) - 1;
+  const base = { startYear, portfolio, startPriceLevel: row.inflationIndex, ageOf, bondsAt, expectedRealReturn };
+
+  const returns = options.returns ?? "fixed";
+  const historicalMarket = (from: number): MarketYear[] =>
+    historicalSequence(from, length).map((h) => ({ stocks: h.stocks, bonds: h.bonds, dividends: 0, inflation: h.inflation }));
+  if (returns === "fixed" && options.historicalStartYear !== undefined) {
+    warnings.push("historicalStartYear is ignored with fixed returns");
+  }
+
+  const results: StrategyResult[] = strategies.map((strategy) => {
+    const parameters = { ...strategyParameters(ws, strategy), ...(options.parameters?.[strategy] ?? {}) } as Record<
+      string,
+      number | boolean | string
+    >;
+    if (returns === "fixed" || options.historicalStartYear !== undefined) {
+      const market = returns === "fixed" ? Array.from({ length }, () => fixed) : historicalMarket(options.historicalStartYear!);
+      const run = runStrategy(strategy, parameters, { ...base, market });
+      return { strategy, parameters, ...run.summary, ...(options.includeYears === false ? {} : { years: run.years }) };
+    }
+
+    // Every historical start year; report the worst sequence in detail
+    const runs = HISTORICAL_RETURNS.map((h) => ({ from: h.year, ...runStrategy(strategy, parameters, { ...base, market: historicalMarket(h.year) }) }));
+    // Earliest depletion is worst, then the least total spending
+    const worst = runs.reduce((a, b) => {
+      const depletedA = a.summary.depletedYear ?? Number.POSITIVE_INFINITY;
+      const depletedB = b.summary.depletedYear ?? Number.POSITIVE_INFINITY;
+      if (depletedA !== depletedB) return depletedB < depletedA ? b : a;
+      return b.summary.totalWithdrawn < a.summary.totalWithdrawn ? b : a;
+    });
+    const totals = runs.map((r) => r.summary.totalWithdrawn).sort((a, b) => a - b);
+    return {
+      strategy,
+      parameters,
+      ...worst.summary,
+      historical: {
+        sequences: runs.length,
+        successRate: Math.round((runs.filter((r) => r.summary.depletedYear === null).length / runs.length) * 1000) / 10,
+        worstStartYear: worst.from,
+        medianTotalWithdrawn: totals[Math.floor(totals.length / 2)],
+      },
+      ...(options.includeYears === false ? {} : { years: worst.years }),
+    };
+  });
+
+  return {
+    planId: plan.id,
+    returns,
+    historicalStartYear: returns === "historical" ? options.historicalStartYear ?? null : null,
+    startYear,
+    endYear: projection.endYear,
+    startingPortfolio: round(portfolio),
+    results,
+    warnings,
+  };
+}